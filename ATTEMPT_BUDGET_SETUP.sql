@@ -0,0 +1,163 @@
+-- Configurable attempt budgets
+-- Each product has its own number of offer attempts, and an active campaign
+-- can override it for all products or a list of SKUs.
+-- Run after COUNTER_OFFER_SETUP.sql.
+
+ALTER TABLE public.products
+    ADD COLUMN IF NOT EXISTS max_attempts INTEGER NOT NULL DEFAULT 3 CHECK (max_attempts > 0);
+
+-- Create campaigns table for time-boxed attempt overrides
+CREATE TABLE IF NOT EXISTS public.campaigns (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    name TEXT NOT NULL,
+    max_attempts INTEGER NOT NULL CHECK (max_attempts > 0),
+    product_skus TEXT[], -- NULL applies the campaign to every product
+    starts_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    ends_at TIMESTAMP WITH TIME ZONE,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaigns_active_window ON public.campaigns(is_active, starts_at, ends_at);
+
+ALTER TABLE public.campaigns ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated read access on campaigns"
+    ON public.campaigns FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE TRIGGER trigger_campaigns_updated_at
+    BEFORE UPDATE ON public.campaigns
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_updated_at();
+
+-- Attempt budget for a product right now: the most recently started running
+-- campaign that covers the product wins, otherwise the product's own budget
+CREATE OR REPLACE FUNCTION public.resolve_attempt_budget(
+    p_product public.products,
+    p_now TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+)
+RETURNS INTEGER AS $$
+    SELECT COALESCE(
+        (
+            SELECT c.max_attempts
+            FROM public.campaigns c
+            WHERE c.is_active
+              AND c.starts_at <= p_now
+              AND (c.ends_at IS NULL OR c.ends_at > p_now)
+              AND (c.product_skus IS NULL OR p_product.sku = ANY(c.product_skus))
+            ORDER BY c.starts_at DESC
+            LIMIT 1
+        ),
+        p_product.max_attempts
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Expose the resolved budget to shoppers
+CREATE OR REPLACE VIEW public.public_products AS
+SELECT
+    p.id,
+    p.sku,
+    p.name,
+    p.description,
+    p.price,
+    p.image,
+    p.created_at,
+    p.updated_at,
+    public.resolve_attempt_budget(p) AS attempt_budget
+FROM public.products p;
+
+-- Submit an offer for a product on behalf of a shopper session
+CREATE OR REPLACE FUNCTION public.submit_offer(
+    p_product_sku TEXT,
+    p_session_id TEXT,
+    p_offered_amount DECIMAL
+)
+RETURNS public.offer_logs AS $$
+DECLARE
+    v_product public.products%ROWTYPE;
+    v_last_offer public.offer_logs%ROWTYPE;
+    v_attempts INTEGER;
+    v_is_accepted BOOLEAN;
+    v_status TEXT;
+    v_counter_amount DECIMAL;
+    v_offer public.offer_logs%ROWTYPE;
+BEGIN
+    IF p_offered_amount IS NULL OR p_offered_amount < 0 THEN
+        RAISE EXCEPTION 'invalid_offer_amount';
+    END IF;
+
+    SELECT * INTO v_product FROM public.products WHERE sku = p_product_sku;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'product_not_found';
+    END IF;
+
+    -- Serialize concurrent offers from the same session on the same product
+    PERFORM pg_advisory_xact_lock(hashtext(p_session_id || ':' || p_product_sku));
+
+    v_attempts := public.resolve_attempt_budget(v_product);
+
+    SELECT * INTO v_last_offer
+    FROM public.offer_logs
+    WHERE session_id = p_session_id AND product_sku = p_product_sku
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    -- An accepted offer starts a fresh negotiation for the product
+    IF FOUND AND v_last_offer.offer_status <> 'accepted' THEN
+        v_attempts := v_last_offer.attempts_remaining;
+    END IF;
+
+    IF v_attempts <= 0 THEN
+        RAISE EXCEPTION 'no_attempts_remaining';
+    END IF;
+
+    v_is_accepted := public.evaluate_offer(v_product, p_offered_amount);
+
+    -- Counter while the shopper can still negotiate, reject on the last attempt
+    -- and offers too low to counter
+    IF NOT v_is_accepted AND v_attempts - 1 > 0 THEN
+        v_counter_amount := public.compute_counter_offer(v_product, p_offered_amount);
+    END IF;
+
+    v_status := CASE
+        WHEN v_is_accepted THEN 'accepted'
+        WHEN v_counter_amount IS NOT NULL THEN 'countered'
+        ELSE 'rejected'
+    END;
+
+    INSERT INTO public.offer_logs (
+        session_id,
+        product_sku,
+        product_name,
+        product_price,
+        product_max_discount_percentage,
+        offered_amount,
+        offer_status,
+        attempts_remaining,
+        acceptance_code,
+        counter_amount,
+        expires_at
+    ) VALUES (
+        p_session_id,
+        v_product.sku,
+        v_product.name,
+        v_product.price,
+        v_product.max_discount_percentage,
+        p_offered_amount,
+        v_status,
+        CASE WHEN v_is_accepted THEN v_attempts ELSE v_attempts - 1 END,
+        CASE WHEN v_is_accepted THEN public.generate_acceptance_code() ELSE NULL END,
+        v_counter_amount,
+        CASE WHEN v_is_accepted THEN NOW() + INTERVAL '1 hour' ELSE NULL END
+    )
+    RETURNING * INTO v_offer;
+
+    RETURN public.shopper_offer_log(v_offer);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Grant necessary permissions
+GRANT SELECT ON public.campaigns TO authenticated;
@@ -0,0 +1,98 @@
+-- Consolation offers
+-- When a shopper runs out of attempts the store offers a fixed discount on the
+-- product. accept_consolation_offer() records it as a real accepted offer log
+-- with an acceptance code, so it can be validated at checkout and shows up in
+-- the admin logs. Run after COUPON_LIFECYCLE_SETUP.sql.
+
+ALTER TABLE public.products
+    ADD COLUMN IF NOT EXISTS consolation_discount_percentage INTEGER NOT NULL DEFAULT 15
+        CHECK (consolation_discount_percentage BETWEEN 0 AND 100);
+
+ALTER TABLE public.offer_logs
+    ADD COLUMN IF NOT EXISTS offer_type TEXT NOT NULL DEFAULT 'negotiated'
+        CHECK (offer_type IN ('negotiated', 'consolation'));
+
+GRANT SELECT (offer_type) ON public.offer_logs TO anon, authenticated;
+
+-- Expose the consolation discount to shoppers
+CREATE OR REPLACE VIEW public.public_products AS
+SELECT
+    p.id,
+    p.sku,
+    p.name,
+    p.description,
+    p.price,
+    p.image,
+    p.created_at,
+    p.updated_at,
+    public.resolve_attempt_budget(p) AS attempt_budget,
+    public.resolve_coupon_ttl_minutes(p) AS coupon_ttl_minutes,
+    p.consolation_discount_percentage
+FROM public.products p;
+
+-- Accept the consolation discount once the shopper's attempts are used up
+CREATE OR REPLACE FUNCTION public.accept_consolation_offer(
+    p_product_sku TEXT,
+    p_session_id TEXT
+)
+RETURNS public.offer_logs AS $$
+DECLARE
+    v_product public.products%ROWTYPE;
+    v_last_offer public.offer_logs%ROWTYPE;
+    v_offer public.offer_logs%ROWTYPE;
+BEGIN
+    SELECT * INTO v_product FROM public.products WHERE sku = p_product_sku;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'product_not_found';
+    END IF;
+
+    -- Serialize with submit_offer() for the same session and product
+    PERFORM pg_advisory_xact_lock(hashtext(p_session_id || ':' || p_product_sku));
+
+    SELECT * INTO v_last_offer
+    FROM public.offer_logs
+    WHERE session_id = p_session_id AND product_sku = p_product_sku
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    -- Only available right after the final attempt was rejected
+    IF NOT FOUND OR v_last_offer.offer_status <> 'rejected' OR v_last_offer.attempts_remaining > 0 THEN
+        RAISE EXCEPTION 'consolation_offer_unavailable';
+    END IF;
+
+    INSERT INTO public.offer_logs (
+        session_id,
+        product_sku,
+        product_name,
+        product_price,
+        product_max_discount_percentage,
+        offered_amount,
+        offer_status,
+        offer_type,
+        attempts_remaining,
+        acceptance_code,
+        coupon_status,
+        expires_at
+    ) VALUES (
+        p_session_id,
+        v_product.sku,
+        v_product.name,
+        v_product.price,
+        v_product.max_discount_percentage,
+        ROUND(public.price_after_discount(v_product.price, v_product.consolation_discount_percentage)),
+        'accepted',
+        'consolation',
+        0,
+        public.generate_acceptance_code(),
+        'active',
+        public.coupon_expires_at(v_product)
+    )
+    RETURNING * INTO v_offer;
+
+    RETURN public.shopper_offer_log(v_offer);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.accept_consolation_offer(TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.accept_consolation_offer(TEXT, TEXT) TO anon;
+GRANT EXECUTE ON FUNCTION public.accept_consolation_offer(TEXT, TEXT) TO authenticated;
@@ -0,0 +1,191 @@
+-- Counter-offers
+-- When an offer falls short and the shopper still has attempts left, the store
+-- replies with a concrete counter price instead of a flat rejection. The
+-- shopper can take it with accept_counter_offer().
+-- Run after NEGOTIATION_STRATEGY_SETUP.sql.
+
+ALTER TABLE public.offer_logs
+    ADD COLUMN IF NOT EXISTS counter_amount DECIMAL(10,2); -- Only set if countered
+
+GRANT SELECT (counter_amount) ON public.offer_logs TO anon, authenticated;
+
+ALTER TABLE public.offer_logs DROP CONSTRAINT IF EXISTS offer_logs_offer_status_check;
+ALTER TABLE public.offer_logs ADD CONSTRAINT offer_logs_offer_status_check
+    CHECK (offer_status IN ('pending', 'accepted', 'rejected', 'countered'));
+
+-- Counter price for an offer: halfway between the offer and the list price,
+-- rounded up to the nearest 1000. Offers so low that halfway still falls short
+-- of what the strategy accepts get no counter (NULL), so a counter never
+-- gives away the floor.
+CREATE OR REPLACE FUNCTION public.compute_counter_offer(
+    p_product public.products,
+    p_offered_amount DECIMAL
+)
+RETURNS DECIMAL AS $$
+    SELECT CASE
+        WHEN p_offered_amount + (p_product.price - p_offered_amount) / 2 > public.negotiation_floor_price(p_product) THEN
+            LEAST(p_product.price, CEIL((p_offered_amount + (p_product.price - p_offered_amount) / 2) / 1000) * 1000)
+    END;
+$$ LANGUAGE sql STABLE;
+
+-- Submit an offer for a product on behalf of a shopper session
+CREATE OR REPLACE FUNCTION public.submit_offer(
+    p_product_sku TEXT,
+    p_session_id TEXT,
+    p_offered_amount DECIMAL
+)
+RETURNS public.offer_logs AS $$
+DECLARE
+    v_product public.products%ROWTYPE;
+    v_last_offer public.offer_logs%ROWTYPE;
+    v_attempts INTEGER := 3;
+    v_is_accepted BOOLEAN;
+    v_status TEXT;
+    v_counter_amount DECIMAL;
+    v_offer public.offer_logs%ROWTYPE;
+BEGIN
+    IF p_offered_amount IS NULL OR p_offered_amount < 0 THEN
+        RAISE EXCEPTION 'invalid_offer_amount';
+    END IF;
+
+    SELECT * INTO v_product FROM public.products WHERE sku = p_product_sku;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'product_not_found';
+    END IF;
+
+    -- Serialize concurrent offers from the same session on the same product
+    PERFORM pg_advisory_xact_lock(hashtext(p_session_id || ':' || p_product_sku));
+
+    SELECT * INTO v_last_offer
+    FROM public.offer_logs
+    WHERE session_id = p_session_id AND product_sku = p_product_sku
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    -- An accepted offer starts a fresh negotiation for the product
+    IF FOUND AND v_last_offer.offer_status <> 'accepted' THEN
+        v_attempts := v_last_offer.attempts_remaining;
+    END IF;
+
+    IF v_attempts <= 0 THEN
+        RAISE EXCEPTION 'no_attempts_remaining';
+    END IF;
+
+    v_is_accepted := public.evaluate_offer(v_product, p_offered_amount);
+
+    -- Counter while the shopper can still negotiate, reject on the last attempt
+    -- and offers too low to counter
+    IF NOT v_is_accepted AND v_attempts - 1 > 0 THEN
+        v_counter_amount := public.compute_counter_offer(v_product, p_offered_amount);
+    END IF;
+
+    v_status := CASE
+        WHEN v_is_accepted THEN 'accepted'
+        WHEN v_counter_amount IS NOT NULL THEN 'countered'
+        ELSE 'rejected'
+    END;
+
+    INSERT INTO public.offer_logs (
+        session_id,
+        product_sku,
+        product_name,
+        product_price,
+        product_max_discount_percentage,
+        offered_amount,
+        offer_status,
+        attempts_remaining,
+        acceptance_code,
+        counter_amount,
+        expires_at
+    ) VALUES (
+        p_session_id,
+        v_product.sku,
+        v_product.name,
+        v_product.price,
+        v_product.max_discount_percentage,
+        p_offered_amount,
+        v_status,
+        CASE WHEN v_is_accepted THEN v_attempts ELSE v_attempts - 1 END,
+        CASE WHEN v_is_accepted THEN public.generate_acceptance_code() ELSE NULL END,
+        v_counter_amount,
+        CASE WHEN v_is_accepted THEN NOW() + INTERVAL '1 hour' ELSE NULL END
+    )
+    RETURNING * INTO v_offer;
+
+    RETURN public.shopper_offer_log(v_offer);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Accept the store's counter price. Only the most recent offer of the session
+-- for that product can be accepted, so a newer offer supersedes the counter.
+CREATE OR REPLACE FUNCTION public.accept_counter_offer(
+    p_offer_id UUID,
+    p_session_id TEXT
+)
+RETURNS public.offer_logs AS $$
+DECLARE
+    v_countered public.offer_logs%ROWTYPE;
+    v_product public.products%ROWTYPE;
+    v_latest_id UUID;
+    v_offer public.offer_logs%ROWTYPE;
+BEGIN
+    SELECT * INTO v_countered
+    FROM public.offer_logs
+    WHERE id = p_offer_id AND session_id = p_session_id AND offer_status = 'countered';
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'counter_offer_not_found';
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext(p_session_id || ':' || v_countered.product_sku));
+
+    SELECT id INTO v_latest_id
+    FROM public.offer_logs
+    WHERE session_id = p_session_id AND product_sku = v_countered.product_sku
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    IF v_latest_id <> v_countered.id THEN
+        RAISE EXCEPTION 'counter_offer_unavailable';
+    END IF;
+
+    SELECT * INTO v_product FROM public.products WHERE sku = v_countered.product_sku;
+
+    -- The strategy's floor can move with the time of day or stock, so the
+    -- counter must still clear it
+    IF v_countered.counter_amount < public.negotiation_floor_price(v_product) THEN
+        RAISE EXCEPTION 'counter_offer_unavailable';
+    END IF;
+
+    INSERT INTO public.offer_logs (
+        session_id,
+        product_sku,
+        product_name,
+        product_price,
+        product_max_discount_percentage,
+        offered_amount,
+        offer_status,
+        attempts_remaining,
+        acceptance_code,
+        expires_at
+    ) VALUES (
+        v_countered.session_id,
+        v_countered.product_sku,
+        v_countered.product_name,
+        v_countered.product_price,
+        v_countered.product_max_discount_percentage,
+        v_countered.counter_amount,
+        'accepted',
+        v_countered.attempts_remaining,
+        public.generate_acceptance_code(),
+        NOW() + INTERVAL '1 hour'
+    )
+    RETURNING * INTO v_offer;
+
+    RETURN public.shopper_offer_log(v_offer);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.compute_counter_offer(public.products, DECIMAL) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.accept_counter_offer(UUID, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.accept_counter_offer(UUID, TEXT) TO anon;
+GRANT EXECUTE ON FUNCTION public.accept_counter_offer(UUID, TEXT) TO authenticated;
@@ -0,0 +1,296 @@
+-- Coupon lifecycle
+-- The database owns coupon expiry: accepted offers get expires_at from the
+-- product's coupon window (or the store default), and coupon_status records
+-- whether a coupon is active, redeemed, cancelled or expired. An active coupon
+-- is only pending until expires_at: redemption, stock reservations and the app
+-- all compare expires_at with the current time, so coupons expire on time
+-- whether or not expire_coupons() has recorded the 'expired' state yet.
+-- Run after ATTEMPT_BUDGET_SETUP.sql.
+
+ALTER TABLE public.products
+    ADD COLUMN IF NOT EXISTS coupon_ttl_minutes INTEGER CHECK (coupon_ttl_minutes > 0); -- NULL uses the store default
+
+ALTER TABLE public.offer_logs
+    ADD COLUMN IF NOT EXISTS coupon_status TEXT CHECK (coupon_status IN ('active', 'redeemed', 'cancelled', 'expired'));
+
+GRANT SELECT (coupon_status) ON public.offer_logs TO anon, authenticated;
+
+CREATE INDEX IF NOT EXISTS idx_offer_logs_coupon_status ON public.offer_logs(coupon_status);
+
+-- Create store settings table (one row per setting)
+CREATE TABLE IF NOT EXISTS public.store_settings (
+    key TEXT PRIMARY KEY,
+    value JSONB NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.store_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated read access on store_settings"
+    ON public.store_settings FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE TRIGGER trigger_store_settings_updated_at
+    BEFORE UPDATE ON public.store_settings
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_updated_at();
+
+INSERT INTO public.store_settings (key, value) VALUES
+    ('coupon_ttl_minutes', '30'::jsonb)
+ON CONFLICT (key) DO NOTHING;
+
+-- Backfill the state of existing coupons
+UPDATE public.offer_logs
+SET coupon_status = CASE
+    WHEN is_redeemed THEN 'redeemed'
+    WHEN expires_at IS NOT NULL AND expires_at <= NOW() THEN 'expired'
+    ELSE 'active'
+END
+WHERE offer_status = 'accepted' AND coupon_status IS NULL;
+
+-- Coupon window for a product: its own setting, else the store default
+CREATE OR REPLACE FUNCTION public.resolve_coupon_ttl_minutes(p_product public.products)
+RETURNS INTEGER AS $$
+    SELECT COALESCE(
+        p_product.coupon_ttl_minutes,
+        (SELECT (value #>> '{}')::INTEGER FROM public.store_settings WHERE key = 'coupon_ttl_minutes'),
+        30
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Expiry timestamp for a coupon issued now
+CREATE OR REPLACE FUNCTION public.coupon_expires_at(p_product public.products)
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+    SELECT NOW() + make_interval(mins => public.resolve_coupon_ttl_minutes(p_product));
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Record the 'expired' state of coupons whose window has passed. Run by
+-- pg_cron (or the service role) for reporting only; nothing relies on it.
+CREATE OR REPLACE FUNCTION public.expire_coupons()
+RETURNS INTEGER AS $$
+DECLARE
+    v_count INTEGER;
+BEGIN
+    UPDATE public.offer_logs
+    SET coupon_status = 'expired'
+    WHERE coupon_status = 'active' AND expires_at <= NOW();
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Keep coupon_status in step with redemption and stop reviving closed coupons
+CREATE OR REPLACE FUNCTION public.handle_coupon_status()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.coupon_status IN ('redeemed', 'cancelled', 'expired') AND NEW.coupon_status = 'active' THEN
+        RAISE EXCEPTION 'coupon_closed';
+    END IF;
+
+    IF NEW.is_redeemed AND NOT COALESCE(OLD.is_redeemed, FALSE) THEN
+        IF OLD.coupon_status IS DISTINCT FROM 'active' OR OLD.expires_at <= NOW() THEN
+            RAISE EXCEPTION 'coupon_not_redeemable';
+        END IF;
+        NEW.coupon_status := 'redeemed';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_offer_logs_coupon_status ON public.offer_logs;
+CREATE TRIGGER trigger_offer_logs_coupon_status
+    BEFORE UPDATE ON public.offer_logs
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_coupon_status();
+
+-- Expose each product's coupon window to shoppers
+CREATE OR REPLACE VIEW public.public_products AS
+SELECT
+    p.id,
+    p.sku,
+    p.name,
+    p.description,
+    p.price,
+    p.image,
+    p.created_at,
+    p.updated_at,
+    public.resolve_attempt_budget(p) AS attempt_budget,
+    public.resolve_coupon_ttl_minutes(p) AS coupon_ttl_minutes
+FROM public.products p;
+
+-- Submit an offer for a product on behalf of a shopper session
+CREATE OR REPLACE FUNCTION public.submit_offer(
+    p_product_sku TEXT,
+    p_session_id TEXT,
+    p_offered_amount DECIMAL
+)
+RETURNS public.offer_logs AS $$
+DECLARE
+    v_product public.products%ROWTYPE;
+    v_last_offer public.offer_logs%ROWTYPE;
+    v_attempts INTEGER;
+    v_is_accepted BOOLEAN;
+    v_status TEXT;
+    v_counter_amount DECIMAL;
+    v_offer public.offer_logs%ROWTYPE;
+BEGIN
+    IF p_offered_amount IS NULL OR p_offered_amount < 0 THEN
+        RAISE EXCEPTION 'invalid_offer_amount';
+    END IF;
+
+    SELECT * INTO v_product FROM public.products WHERE sku = p_product_sku;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'product_not_found';
+    END IF;
+
+    -- Serialize concurrent offers from the same session on the same product
+    PERFORM pg_advisory_xact_lock(hashtext(p_session_id || ':' || p_product_sku));
+
+    v_attempts := public.resolve_attempt_budget(v_product);
+
+    SELECT * INTO v_last_offer
+    FROM public.offer_logs
+    WHERE session_id = p_session_id AND product_sku = p_product_sku
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    -- An accepted offer starts a fresh negotiation for the product
+    IF FOUND AND v_last_offer.offer_status <> 'accepted' THEN
+        v_attempts := v_last_offer.attempts_remaining;
+    END IF;
+
+    IF v_attempts <= 0 THEN
+        RAISE EXCEPTION 'no_attempts_remaining';
+    END IF;
+
+    v_is_accepted := public.evaluate_offer(v_product, p_offered_amount);
+
+    -- Counter while the shopper can still negotiate, reject on the last attempt
+    -- and offers too low to counter
+    IF NOT v_is_accepted AND v_attempts - 1 > 0 THEN
+        v_counter_amount := public.compute_counter_offer(v_product, p_offered_amount);
+    END IF;
+
+    v_status := CASE
+        WHEN v_is_accepted THEN 'accepted'
+        WHEN v_counter_amount IS NOT NULL THEN 'countered'
+        ELSE 'rejected'
+    END;
+
+    INSERT INTO public.offer_logs (
+        session_id,
+        product_sku,
+        product_name,
+        product_price,
+        product_max_discount_percentage,
+        offered_amount,
+        offer_status,
+        attempts_remaining,
+        acceptance_code,
+        counter_amount,
+        coupon_status,
+        expires_at
+    ) VALUES (
+        p_session_id,
+        v_product.sku,
+        v_product.name,
+        v_product.price,
+        v_product.max_discount_percentage,
+        p_offered_amount,
+        v_status,
+        CASE WHEN v_is_accepted THEN v_attempts ELSE v_attempts - 1 END,
+        CASE WHEN v_is_accepted THEN public.generate_acceptance_code() ELSE NULL END,
+        v_counter_amount,
+        CASE WHEN v_is_accepted THEN 'active' ELSE NULL END,
+        CASE WHEN v_is_accepted THEN public.coupon_expires_at(v_product) ELSE NULL END
+    )
+    RETURNING * INTO v_offer;
+
+    RETURN public.shopper_offer_log(v_offer);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Accept the store's counter price. Only the most recent offer of the session
+-- for that product can be accepted, so a newer offer supersedes the counter.
+CREATE OR REPLACE FUNCTION public.accept_counter_offer(
+    p_offer_id UUID,
+    p_session_id TEXT
+)
+RETURNS public.offer_logs AS $$
+DECLARE
+    v_countered public.offer_logs%ROWTYPE;
+    v_product public.products%ROWTYPE;
+    v_latest_id UUID;
+    v_offer public.offer_logs%ROWTYPE;
+BEGIN
+    SELECT * INTO v_countered
+    FROM public.offer_logs
+    WHERE id = p_offer_id AND session_id = p_session_id AND offer_status = 'countered';
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'counter_offer_not_found';
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext(p_session_id || ':' || v_countered.product_sku));
+
+    SELECT id INTO v_latest_id
+    FROM public.offer_logs
+    WHERE session_id = p_session_id AND product_sku = v_countered.product_sku
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    IF v_latest_id <> v_countered.id THEN
+        RAISE EXCEPTION 'counter_offer_unavailable';
+    END IF;
+
+    SELECT * INTO v_product FROM public.products WHERE sku = v_countered.product_sku;
+
+    -- The strategy's floor can move with the time of day or stock, so the
+    -- counter must still clear it
+    IF v_countered.counter_amount < public.negotiation_floor_price(v_product) THEN
+        RAISE EXCEPTION 'counter_offer_unavailable';
+    END IF;
+
+    INSERT INTO public.offer_logs (
+        session_id,
+        product_sku,
+        product_name,
+        product_price,
+        product_max_discount_percentage,
+        offered_amount,
+        offer_status,
+        attempts_remaining,
+        acceptance_code,
+        coupon_status,
+        expires_at
+    ) VALUES (
+        v_countered.session_id,
+        v_countered.product_sku,
+        v_countered.product_name,
+        v_countered.product_price,
+        v_countered.product_max_discount_percentage,
+        v_countered.counter_amount,
+        'accepted',
+        v_countered.attempts_remaining,
+        public.generate_acceptance_code(),
+        'active',
+        public.coupon_expires_at(v_product)
+    )
+    RETURNING * INTO v_offer;
+
+    RETURN public.shopper_offer_log(v_offer);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.expire_coupons() FROM PUBLIC, anon, authenticated;
+
+-- Record expired coupons every minute when pg_cron is enabled (Database > Extensions)
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        PERFORM cron.schedule('expire-coupons', '* * * * *', 'SELECT public.expire_coupons()');
+    END IF;
+END;
+$$;
@@ -0,0 +1,116 @@
+-- Scannable coupons
+-- Each accepted coupon carries an HMAC signature of its acceptance code so the
+-- QR code on the shopper's coupon can't be forged by editing the code. The
+-- signing key lives in a private schema that API roles can't read.
+-- Run after REDEMPTION_SETUP.sql.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE SCHEMA IF NOT EXISTS private;
+REVOKE ALL ON SCHEMA private FROM PUBLIC;
+
+-- Create app secrets table (server-side only)
+CREATE TABLE IF NOT EXISTS private.app_secrets (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+REVOKE ALL ON private.app_secrets FROM PUBLIC;
+
+INSERT INTO private.app_secrets (key, value) VALUES
+    ('coupon_signing_key', encode(extensions.gen_random_bytes(32), 'hex'))
+ON CONFLICT (key) DO NOTHING;
+
+ALTER TABLE public.offer_logs
+    ADD COLUMN IF NOT EXISTS coupon_signature TEXT; -- Only set for accepted offers
+
+GRANT SELECT (coupon_signature) ON public.offer_logs TO anon, authenticated;
+
+-- HMAC-SHA256 of an acceptance code with the store's signing key
+CREATE OR REPLACE FUNCTION public.sign_acceptance_code(p_acceptance_code TEXT)
+RETURNS TEXT AS $$
+    SELECT encode(
+        extensions.hmac(p_acceptance_code, s.value, 'sha256'),
+        'hex'
+    )
+    FROM private.app_secrets s
+    WHERE s.key = 'coupon_signing_key';
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.sign_acceptance_code(TEXT) FROM PUBLIC;
+
+-- Sign acceptance codes as coupons are issued
+CREATE OR REPLACE FUNCTION public.handle_coupon_signature()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.acceptance_code IS NULL THEN
+        NEW.coupon_signature := NULL;
+    ELSIF TG_OP = 'INSERT' OR NEW.acceptance_code IS DISTINCT FROM OLD.acceptance_code THEN
+        NEW.coupon_signature := public.sign_acceptance_code(NEW.acceptance_code);
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_offer_logs_coupon_signature ON public.offer_logs;
+CREATE TRIGGER trigger_offer_logs_coupon_signature
+    BEFORE INSERT OR UPDATE ON public.offer_logs
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_coupon_signature();
+
+-- Sign coupons issued before this script
+UPDATE public.offer_logs
+SET coupon_signature = public.sign_acceptance_code(acceptance_code)
+WHERE acceptance_code IS NOT NULL AND coupon_signature IS NULL;
+
+-- Redeem the coupon with the given acceptance code. Scanned coupons also pass
+-- the signature from the QR code, which must match the code.
+DROP FUNCTION IF EXISTS public.redeem_coupon(TEXT);
+CREATE OR REPLACE FUNCTION public.redeem_coupon(
+    p_acceptance_code TEXT,
+    p_signature TEXT DEFAULT NULL
+)
+RETURNS public.offer_logs AS $$
+DECLARE
+    v_coupon public.offer_logs%ROWTYPE;
+BEGIN
+    SELECT * INTO v_coupon
+    FROM public.offer_logs
+    WHERE acceptance_code = UPPER(TRIM(p_acceptance_code)) AND offer_status = 'accepted'
+    ORDER BY created_at DESC
+    LIMIT 1
+    FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'coupon_not_found';
+    END IF;
+
+    IF p_signature IS NOT NULL AND LOWER(p_signature) IS DISTINCT FROM v_coupon.coupon_signature THEN
+        RAISE EXCEPTION 'coupon_signature_invalid';
+    END IF;
+
+    IF v_coupon.coupon_status = 'redeemed' OR v_coupon.is_redeemed THEN
+        RAISE EXCEPTION 'coupon_already_redeemed';
+    END IF;
+
+    IF v_coupon.coupon_status = 'cancelled' THEN
+        RAISE EXCEPTION 'coupon_cancelled';
+    END IF;
+
+    IF v_coupon.coupon_status = 'expired' OR v_coupon.expires_at <= NOW() THEN
+        RAISE EXCEPTION 'coupon_expired';
+    END IF;
+
+    UPDATE public.offer_logs
+    SET is_redeemed = TRUE
+    WHERE id = v_coupon.id
+    RETURNING * INTO v_coupon;
+
+    RETURN v_coupon;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.redeem_coupon(TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.redeem_coupon(TEXT, TEXT) TO anon;
+GRANT EXECUTE ON FUNCTION public.redeem_coupon(TEXT, TEXT) TO authenticated;
@@ -0,0 +1,193 @@
+-- Tamper-proof coupon codes
+-- Acceptance codes come from a cryptographic RNG and are unique across all
+-- coupons. Each coupon also gets a signed token carrying its code, SKU, agreed
+-- price and expiry, so the cashier screen can check a scanned coupon without
+-- a database round trip. Run after COUPON_QR_SETUP.sql.
+
+-- Random 8-character code, retried until it isn't already in use
+CREATE OR REPLACE FUNCTION public.generate_acceptance_code()
+RETURNS TEXT AS $$
+DECLARE
+    chars TEXT := 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+    result TEXT;
+    random_byte INTEGER;
+BEGIN
+    FOR attempt IN 1..10 LOOP
+        result := '';
+        WHILE length(result) < 8 LOOP
+            random_byte := get_byte(extensions.gen_random_bytes(1), 0);
+            -- Skip the top bytes so every character is equally likely
+            IF random_byte < 252 THEN
+                result := result || substr(chars, random_byte % 36 + 1, 1);
+            END IF;
+        END LOOP;
+
+        IF NOT EXISTS (SELECT 1 FROM public.offer_logs WHERE acceptance_code = result) THEN
+            RETURN result;
+        END IF;
+    END LOOP;
+
+    RAISE EXCEPTION 'acceptance_code_unavailable';
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.generate_acceptance_code() FROM PUBLIC;
+
+-- Give duplicated codes issued by the old generator a fresh code, keeping
+-- the oldest coupon's code as it is
+UPDATE public.offer_logs o
+SET acceptance_code = public.generate_acceptance_code()
+WHERE o.acceptance_code IS NOT NULL
+  AND EXISTS (
+      SELECT 1
+      FROM public.offer_logs older
+      WHERE older.acceptance_code = o.acceptance_code
+        AND (older.created_at, older.id) < (o.created_at, o.id)
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_offer_logs_acceptance_code_unique
+    ON public.offer_logs(acceptance_code)
+    WHERE acceptance_code IS NOT NULL;
+
+-- The unique index covers lookups by code
+DROP INDEX IF EXISTS public.idx_offer_logs_acceptance_code;
+
+-- Key used to sign coupon tokens. Cashier devices fetch it to verify tokens
+-- offline, so it is kept apart from the code signing key.
+INSERT INTO private.app_secrets (key, value) VALUES
+    ('coupon_token_key', encode(extensions.gen_random_bytes(32), 'hex'))
+ON CONFLICT (key) DO NOTHING;
+
+ALTER TABLE public.offer_logs
+    ADD COLUMN IF NOT EXISTS coupon_token TEXT; -- Only set for accepted offers
+
+GRANT SELECT (coupon_token) ON public.offer_logs TO anon, authenticated;
+
+-- URL-safe base64 without padding
+CREATE OR REPLACE FUNCTION public.base64url_encode(p_data BYTEA)
+RETURNS TEXT AS $$
+    SELECT translate(encode(p_data, 'base64'), E'+/=\n', '-_');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Signed coupon token: v1.<payload>.<signature>. The payload is JSON with the
+-- code (c), SKU (s), agreed price (p) and expiry in epoch seconds (e); the
+-- signature is HMAC-SHA256 over "v1.<payload>".
+CREATE OR REPLACE FUNCTION public.build_coupon_token(p_offer public.offer_logs)
+RETURNS TEXT AS $$
+DECLARE
+    v_key TEXT;
+    v_unsigned TEXT;
+BEGIN
+    SELECT value INTO v_key FROM private.app_secrets WHERE key = 'coupon_token_key';
+
+    v_unsigned := 'v1.' || public.base64url_encode(convert_to(
+        json_build_object(
+            'c', p_offer.acceptance_code,
+            's', p_offer.product_sku,
+            'p', p_offer.offered_amount,
+            'e', floor(extract(epoch FROM p_offer.expires_at))::BIGINT
+        )::TEXT,
+        'UTF8'
+    ));
+
+    RETURN v_unsigned || '.' || public.base64url_encode(
+        extensions.hmac(convert_to(v_unsigned, 'UTF8'), decode(v_key, 'hex'), 'sha256')
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.build_coupon_token(public.offer_logs) FROM PUBLIC;
+
+-- Sign acceptance codes and coupon tokens as coupons are issued or changed
+CREATE OR REPLACE FUNCTION public.handle_coupon_signature()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.acceptance_code IS NULL THEN
+        NEW.coupon_signature := NULL;
+        NEW.coupon_token := NULL;
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' OR NEW.acceptance_code IS DISTINCT FROM OLD.acceptance_code THEN
+        NEW.coupon_signature := public.sign_acceptance_code(NEW.acceptance_code);
+    END IF;
+
+    IF TG_OP = 'INSERT'
+        OR NEW.coupon_token IS NULL
+        OR NEW.acceptance_code IS DISTINCT FROM OLD.acceptance_code
+        OR NEW.product_sku IS DISTINCT FROM OLD.product_sku
+        OR NEW.offered_amount IS DISTINCT FROM OLD.offered_amount
+        OR NEW.expires_at IS DISTINCT FROM OLD.expires_at THEN
+        NEW.coupon_token := public.build_coupon_token(NEW);
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Issue tokens for coupons created before this script
+UPDATE public.offer_logs
+SET coupon_token = public.build_coupon_token(offer_logs)
+WHERE acceptance_code IS NOT NULL AND coupon_token IS NULL;
+
+-- Key for verifying coupon tokens on cashier devices
+CREATE OR REPLACE FUNCTION public.get_coupon_token_key()
+RETURNS TEXT AS $$
+    SELECT value FROM private.app_secrets WHERE key = 'coupon_token_key';
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.get_coupon_token_key() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_coupon_token_key() TO authenticated;
+
+-- Redeem the coupon with the given acceptance code. Scanned coupons also pass
+-- the signature or token from the QR code, which must match the coupon.
+DROP FUNCTION IF EXISTS public.redeem_coupon(TEXT, TEXT);
+CREATE OR REPLACE FUNCTION public.redeem_coupon(
+    p_acceptance_code TEXT,
+    p_signature TEXT DEFAULT NULL,
+    p_token TEXT DEFAULT NULL
+)
+RETURNS public.offer_logs AS $$
+DECLARE
+    v_coupon public.offer_logs%ROWTYPE;
+BEGIN
+    SELECT * INTO v_coupon
+    FROM public.offer_logs
+    WHERE acceptance_code = UPPER(TRIM(p_acceptance_code)) AND offer_status = 'accepted'
+    FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'coupon_not_found';
+    END IF;
+
+    IF p_signature IS NOT NULL AND LOWER(p_signature) IS DISTINCT FROM v_coupon.coupon_signature THEN
+        RAISE EXCEPTION 'coupon_signature_invalid';
+    END IF;
+
+    IF p_token IS NOT NULL AND p_token IS DISTINCT FROM v_coupon.coupon_token THEN
+        RAISE EXCEPTION 'coupon_signature_invalid';
+    END IF;
+
+    IF v_coupon.coupon_status = 'redeemed' OR v_coupon.is_redeemed THEN
+        RAISE EXCEPTION 'coupon_already_redeemed';
+    END IF;
+
+    IF v_coupon.coupon_status = 'cancelled' THEN
+        RAISE EXCEPTION 'coupon_cancelled';
+    END IF;
+
+    IF v_coupon.coupon_status = 'expired' OR v_coupon.expires_at <= NOW() THEN
+        RAISE EXCEPTION 'coupon_expired';
+    END IF;
+
+    UPDATE public.offer_logs
+    SET is_redeemed = TRUE
+    WHERE id = v_coupon.id
+    RETURNING * INTO v_coupon;
+
+    RETURN v_coupon;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.redeem_coupon(TEXT, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.redeem_coupon(TEXT, TEXT, TEXT) TO anon;
+GRANT EXECUTE ON FUNCTION public.redeem_coupon(TEXT, TEXT, TEXT) TO authenticated;
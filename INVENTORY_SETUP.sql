@@ -0,0 +1,131 @@
+-- Inventory
+-- products.stock_quantity counts the units on hand (NULL means the product's
+-- stock isn't tracked). Every pending coupon reserves one unit until it is
+-- redeemed, cancelled or expires; redeeming a coupon takes the unit out of
+-- stock. Shoppers can't negotiate once every unit is sold or reserved.
+-- Run after PRODUCT_VARIANTS_SETUP.sql.
+
+-- Speeds up counting the pending coupons of a product
+CREATE INDEX IF NOT EXISTS idx_offer_logs_active_coupons
+    ON public.offer_logs(product_sku)
+    WHERE coupon_status = 'active';
+
+-- Units held by the pending coupons of a product
+CREATE OR REPLACE FUNCTION public.reserved_stock(p_product_sku TEXT)
+RETURNS INTEGER AS $$
+    SELECT COUNT(*)::INTEGER
+    FROM public.offer_logs
+    WHERE product_sku = p_product_sku
+      AND coupon_status = 'active'
+      AND expires_at > NOW();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Units still available to shoppers, NULL when stock isn't tracked
+CREATE OR REPLACE FUNCTION public.available_stock(p_product public.products)
+RETURNS INTEGER AS $$
+    SELECT CASE
+        WHEN p_product.stock_quantity IS NULL THEN NULL
+        ELSE GREATEST(0, p_product.stock_quantity - public.reserved_stock(p_product.sku))
+    END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Refuse offers on sold-out products. Covers submit_offer(),
+-- accept_counter_offer() and accept_consolation_offer().
+CREATE OR REPLACE FUNCTION public.handle_offer_log_stock()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_product public.products%ROWTYPE;
+BEGIN
+    -- Lock the product so concurrent offers can't reserve the same unit
+    SELECT * INTO v_product
+    FROM public.products
+    WHERE sku = NEW.product_sku
+    FOR UPDATE;
+
+    IF FOUND AND public.available_stock(v_product) <= 0 THEN
+        RAISE EXCEPTION 'out_of_stock';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_offer_logs_stock ON public.offer_logs;
+CREATE TRIGGER trigger_offer_logs_stock
+    BEFORE INSERT ON public.offer_logs
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_offer_log_stock();
+
+-- Take a unit out of stock when its coupon is redeemed, from /redeem or the admin
+CREATE OR REPLACE FUNCTION public.handle_redemption_stock()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.is_redeemed AND NOT COALESCE(OLD.is_redeemed, FALSE) THEN
+        UPDATE public.products
+        SET stock_quantity = GREATEST(0, stock_quantity - 1)
+        WHERE sku = NEW.product_sku AND stock_quantity IS NOT NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_offer_logs_redemption_stock ON public.offer_logs;
+CREATE TRIGGER trigger_offer_logs_redemption_stock
+    AFTER UPDATE ON public.offer_logs
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_redemption_stock();
+
+-- Reservation counts stay server-side; the storefront views only need
+-- available_stock() to tell whether a product is sold out
+REVOKE ALL ON FUNCTION public.reserved_stock(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.available_stock(public.products) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.available_stock(public.products) TO authenticated;
+
+-- Tell shoppers whether a product is sold out, without exposing stock levels
+CREATE OR REPLACE VIEW public.public_products AS
+SELECT
+    p.id,
+    p.sku,
+    p.name,
+    p.description,
+    p.price,
+    p.image,
+    p.created_at,
+    p.updated_at,
+    public.resolve_attempt_budget(p) AS attempt_budget,
+    public.resolve_coupon_ttl_minutes(p) AS coupon_ttl_minutes,
+    p.consolation_discount_percentage,
+    p.style_id,
+    s.code AS style_code,
+    s.name AS style_name,
+    p.color,
+    p.size,
+    COALESCE(public.available_stock(p) > 0, TRUE) AS in_stock
+FROM public.products p
+LEFT JOIN public.product_styles s ON s.id = p.style_id
+WHERE p.archived_at IS NULL;
+
+-- Stock levels for the admin Products tab. Runs with the caller's rights, so
+-- only staff can read it, and counts the pending coupons staff can see.
+CREATE OR REPLACE VIEW public.product_stock
+WITH (security_invoker = true) AS
+SELECT
+    p.sku,
+    p.stock_quantity,
+    r.reserved_quantity,
+    CASE
+        WHEN p.stock_quantity IS NULL THEN NULL
+        ELSE GREATEST(0, p.stock_quantity - r.reserved_quantity)
+    END AS available_quantity
+FROM public.products p
+CROSS JOIN LATERAL (
+    SELECT COUNT(*)::INTEGER AS reserved_quantity
+    FROM public.offer_logs o
+    WHERE o.product_sku = p.sku
+      AND o.coupon_status = 'active'
+      AND o.expires_at > NOW()
+) r;
+
+REVOKE ALL ON public.product_stock FROM anon;
+GRANT SELECT ON public.product_stock TO authenticated;
@@ -0,0 +1,120 @@
+-- Server-side offer negotiation
+-- Decides whether an offer is accepted, decrements attempts and records the
+-- offer log in a single transaction, so the discount ceiling never has to be
+-- sent to the browser. Run after OFFER_LOG_SETUP.sql.
+
+-- Generate a random acceptance code for accepted offers
+CREATE OR REPLACE FUNCTION public.generate_acceptance_code()
+RETURNS TEXT AS $$
+DECLARE
+    chars TEXT := 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+    result TEXT := '';
+BEGIN
+    FOR i IN 1..8 LOOP
+        result := result || substr(chars, floor(random() * length(chars))::INTEGER + 1, 1);
+    END LOOP;
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql;
+
+-- The offer log as returned to shoppers, without the discount ceiling
+-- recorded on it
+CREATE OR REPLACE FUNCTION public.shopper_offer_log(p_offer public.offer_logs)
+RETURNS public.offer_logs AS $$
+DECLARE
+    v_offer public.offer_logs := p_offer;
+BEGIN
+    v_offer.product_max_discount_percentage := NULL;
+    RETURN v_offer;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Submit an offer for a product on behalf of a shopper session
+CREATE OR REPLACE FUNCTION public.submit_offer(
+    p_product_sku TEXT,
+    p_session_id TEXT,
+    p_offered_amount DECIMAL
+)
+RETURNS public.offer_logs AS $$
+DECLARE
+    v_product public.products%ROWTYPE;
+    v_last_offer public.offer_logs%ROWTYPE;
+    v_attempts INTEGER := 3;
+    v_min_price DECIMAL;
+    v_is_accepted BOOLEAN;
+    v_offer public.offer_logs%ROWTYPE;
+BEGIN
+    IF p_offered_amount IS NULL OR p_offered_amount < 0 THEN
+        RAISE EXCEPTION 'invalid_offer_amount';
+    END IF;
+
+    SELECT * INTO v_product FROM public.products WHERE sku = p_product_sku;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'product_not_found';
+    END IF;
+
+    -- Serialize concurrent offers from the same session on the same product
+    PERFORM pg_advisory_xact_lock(hashtext(p_session_id || ':' || p_product_sku));
+
+    SELECT * INTO v_last_offer
+    FROM public.offer_logs
+    WHERE session_id = p_session_id AND product_sku = p_product_sku
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    -- An accepted offer starts a fresh negotiation for the product
+    IF FOUND AND v_last_offer.offer_status <> 'accepted' THEN
+        v_attempts := v_last_offer.attempts_remaining;
+    END IF;
+
+    IF v_attempts <= 0 THEN
+        RAISE EXCEPTION 'no_attempts_remaining';
+    END IF;
+
+    v_min_price := v_product.price * (1 - v_product.max_discount_percentage / 100.0);
+    v_is_accepted := p_offered_amount >= v_min_price;
+
+    INSERT INTO public.offer_logs (
+        session_id,
+        product_sku,
+        product_name,
+        product_price,
+        product_max_discount_percentage,
+        offered_amount,
+        offer_status,
+        attempts_remaining,
+        acceptance_code,
+        expires_at
+    ) VALUES (
+        p_session_id,
+        v_product.sku,
+        v_product.name,
+        v_product.price,
+        v_product.max_discount_percentage,
+        p_offered_amount,
+        CASE WHEN v_is_accepted THEN 'accepted' ELSE 'rejected' END,
+        CASE WHEN v_is_accepted THEN v_attempts ELSE v_attempts - 1 END,
+        CASE WHEN v_is_accepted THEN public.generate_acceptance_code() ELSE NULL END,
+        CASE WHEN v_is_accepted THEN NOW() + INTERVAL '1 hour' ELSE NULL END
+    )
+    RETURNING * INTO v_offer;
+
+    RETURN public.shopper_offer_log(v_offer);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.submit_offer(TEXT, TEXT, DECIMAL) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.submit_offer(TEXT, TEXT, DECIMAL) TO anon;
+GRANT EXECUTE ON FUNCTION public.submit_offer(TEXT, TEXT, DECIMAL) TO authenticated;
+
+-- Offers can only be recorded through submit_offer() from now on
+REVOKE INSERT ON public.offer_logs FROM anon;
+REVOKE INSERT ON public.offer_logs FROM authenticated;
+
+-- Shoppers read their offer logs directly, so the discount ceiling column is
+-- left out of their grants. Select explicit columns from offer_logs.
+REVOKE SELECT ON public.offer_logs FROM anon, authenticated;
+GRANT SELECT (
+    id, session_id, product_sku, product_name, product_price, offered_amount, offer_status,
+    acceptance_code, attempts_remaining, is_redeemed, created_at, updated_at, expires_at
+) ON public.offer_logs TO anon, authenticated;
@@ -0,0 +1,171 @@
+-- Per-product negotiation strategies
+-- Each product carries a negotiation_strategy JSON document. evaluate_offer()
+-- applies it and submit_offer() delegates to it. It is the only implementation
+-- of the strategies; NEGOTIATION_STRATEGY_TEST.sql checks them.
+-- Run after PUBLIC_PRODUCTS_SETUP.sql.
+--
+-- Supported strategies:
+--   {"type": "fixed_floor"}
+--   {"type": "sliding_floor", "min_discount_percentage": 10, "full_stock_quantity": 50}
+--   {"type": "time_of_day", "timezone": "America/Argentina/Buenos_Aires",
+--    "windows": [{"start_hour": 9, "end_hour": 12, "max_discount_percentage": 20}]}
+--   {"type": "probabilistic", "certain_discount_percentage": 20}
+
+ALTER TABLE public.products
+    ADD COLUMN IF NOT EXISTS negotiation_strategy JSONB NOT NULL DEFAULT '{"type": "fixed_floor"}'::jsonb,
+    ADD COLUMN IF NOT EXISTS stock_quantity INTEGER; -- Units on hand, used by the sliding floor
+
+-- Price after applying a discount percentage (clamped to 0-100)
+CREATE OR REPLACE FUNCTION public.price_after_discount(p_price DECIMAL, p_discount_percentage DECIMAL)
+RETURNS DECIMAL AS $$
+    SELECT p_price * (1 - LEAST(100, GREATEST(0, p_discount_percentage)) / 100.0);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Lowest price the product's strategy could accept at a given moment
+CREATE OR REPLACE FUNCTION public.negotiation_floor_price(
+    p_product public.products,
+    p_now TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+)
+RETURNS DECIMAL AS $$
+DECLARE
+    v_strategy JSONB := COALESCE(p_product.negotiation_strategy, '{"type": "fixed_floor"}'::jsonb);
+    v_discount DECIMAL := p_product.max_discount_percentage;
+    v_full_stock DECIMAL;
+    v_min_discount DECIMAL;
+    v_hour INTEGER;
+    v_window JSONB;
+BEGIN
+    CASE v_strategy->>'type'
+        WHEN 'sliding_floor' THEN
+            v_full_stock := (v_strategy->>'full_stock_quantity')::DECIMAL;
+            v_min_discount := (v_strategy->>'min_discount_percentage')::DECIMAL;
+            IF p_product.stock_quantity IS NOT NULL AND v_full_stock > 0 AND v_min_discount IS NOT NULL THEN
+                v_discount := v_min_discount + (p_product.max_discount_percentage - v_min_discount)
+                    * LEAST(1, GREATEST(0, p_product.stock_quantity / v_full_stock));
+            END IF;
+
+        WHEN 'time_of_day' THEN
+            v_hour := EXTRACT(HOUR FROM p_now AT TIME ZONE COALESCE(v_strategy->>'timezone', 'UTC'));
+            SELECT w INTO v_window
+            FROM jsonb_array_elements(COALESCE(v_strategy->'windows', '[]'::jsonb)) AS w
+            WHERE v_hour >= (w->>'start_hour')::INTEGER AND v_hour < (w->>'end_hour')::INTEGER
+            LIMIT 1;
+            IF v_window IS NOT NULL THEN
+                v_discount := (v_window->>'max_discount_percentage')::DECIMAL;
+            END IF;
+
+        ELSE
+            -- fixed_floor, probabilistic and unknown strategies use the product ceiling
+            NULL;
+    END CASE;
+
+    RETURN public.price_after_discount(p_product.price, v_discount);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Decide whether an offer is accepted under the product's strategy
+CREATE OR REPLACE FUNCTION public.evaluate_offer(
+    p_product public.products,
+    p_offered_amount DECIMAL,
+    p_now TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    p_random DOUBLE PRECISION DEFAULT random()
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    v_strategy JSONB := COALESCE(p_product.negotiation_strategy, '{"type": "fixed_floor"}'::jsonb);
+    v_floor_price DECIMAL := public.negotiation_floor_price(p_product, p_now);
+    v_certain_price DECIMAL;
+BEGIN
+    IF p_offered_amount < v_floor_price THEN
+        RETURN FALSE;
+    END IF;
+
+    IF v_strategy->>'type' = 'probabilistic' AND v_strategy ? 'certain_discount_percentage' THEN
+        v_certain_price := GREATEST(
+            v_floor_price,
+            public.price_after_discount(p_product.price, (v_strategy->>'certain_discount_percentage')::DECIMAL)
+        );
+        IF p_offered_amount < v_certain_price THEN
+            RETURN p_random < (p_offered_amount - v_floor_price) / (v_certain_price - v_floor_price);
+        END IF;
+    END IF;
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql VOLATILE;
+
+-- Submit an offer for a product on behalf of a shopper session
+CREATE OR REPLACE FUNCTION public.submit_offer(
+    p_product_sku TEXT,
+    p_session_id TEXT,
+    p_offered_amount DECIMAL
+)
+RETURNS public.offer_logs AS $$
+DECLARE
+    v_product public.products%ROWTYPE;
+    v_last_offer public.offer_logs%ROWTYPE;
+    v_attempts INTEGER := 3;
+    v_is_accepted BOOLEAN;
+    v_offer public.offer_logs%ROWTYPE;
+BEGIN
+    IF p_offered_amount IS NULL OR p_offered_amount < 0 THEN
+        RAISE EXCEPTION 'invalid_offer_amount';
+    END IF;
+
+    SELECT * INTO v_product FROM public.products WHERE sku = p_product_sku;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'product_not_found';
+    END IF;
+
+    -- Serialize concurrent offers from the same session on the same product
+    PERFORM pg_advisory_xact_lock(hashtext(p_session_id || ':' || p_product_sku));
+
+    SELECT * INTO v_last_offer
+    FROM public.offer_logs
+    WHERE session_id = p_session_id AND product_sku = p_product_sku
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    -- An accepted offer starts a fresh negotiation for the product
+    IF FOUND AND v_last_offer.offer_status <> 'accepted' THEN
+        v_attempts := v_last_offer.attempts_remaining;
+    END IF;
+
+    IF v_attempts <= 0 THEN
+        RAISE EXCEPTION 'no_attempts_remaining';
+    END IF;
+
+    v_is_accepted := public.evaluate_offer(v_product, p_offered_amount);
+
+    INSERT INTO public.offer_logs (
+        session_id,
+        product_sku,
+        product_name,
+        product_price,
+        product_max_discount_percentage,
+        offered_amount,
+        offer_status,
+        attempts_remaining,
+        acceptance_code,
+        expires_at
+    ) VALUES (
+        p_session_id,
+        v_product.sku,
+        v_product.name,
+        v_product.price,
+        v_product.max_discount_percentage,
+        p_offered_amount,
+        CASE WHEN v_is_accepted THEN 'accepted' ELSE 'rejected' END,
+        CASE WHEN v_is_accepted THEN v_attempts ELSE v_attempts - 1 END,
+        CASE WHEN v_is_accepted THEN public.generate_acceptance_code() ELSE NULL END,
+        CASE WHEN v_is_accepted THEN NOW() + INTERVAL '1 hour' ELSE NULL END
+    )
+    RETURNING * INTO v_offer;
+
+    RETURN public.shopper_offer_log(v_offer);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Strategy internals are only callable from submit_offer()
+REVOKE ALL ON FUNCTION public.negotiation_floor_price(public.products, TIMESTAMP WITH TIME ZONE) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.evaluate_offer(public.products, DECIMAL, TIMESTAMP WITH TIME ZONE, DOUBLE PRECISION) FROM PUBLIC;
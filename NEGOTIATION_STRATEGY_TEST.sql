@@ -0,0 +1,130 @@
+-- Negotiation strategy checks
+-- Proves each strategy in evaluate_offer() accepts and rejects the right
+-- offers, with the product's own, its category's and a store's discount
+-- ceiling, and that counter-offers don't give away the floor. Everything
+-- runs in a transaction that is rolled back, so no data is left behind.
+-- Run after PRODUCT_CATEGORIES_SETUP.sql, from the SQL Editor or with
+--   psql "$DATABASE_URL" -v ON_ERROR_STOP=1 -f NEGOTIATION_STRATEGY_TEST.sql
+-- A failed check raises an exception starting with FAILED.
+
+BEGIN;
+
+INSERT INTO public.categories (slug, name, default_max_discount_percentage, tenant_id)
+SELECT 'strategy-test', 'Strategy test', 25, id
+FROM public.tenants WHERE slug = 'shuq';
+
+INSERT INTO public.stores (code, name, tenant_id)
+SELECT 'strategy-test', 'Strategy test store', id
+FROM public.tenants WHERE slug = 'shuq';
+
+INSERT INTO public.products (sku, name, price, image, max_discount_percentage, negotiation_strategy, stock_quantity, category_id, tenant_id)
+SELECT v.sku, v.sku, 10000, '', v.max_discount_percentage, v.strategy::jsonb, v.stock_quantity, c.id, t.id
+FROM public.tenants t
+JOIN public.categories c ON c.tenant_id = t.id AND c.slug = 'strategy-test'
+CROSS JOIN (VALUES
+    ('STRATEGY-FIXED', 20, '{"type": "fixed_floor"}', NULL),
+    ('STRATEGY-DEFAULT', NULL, '{"type": "fixed_floor"}', NULL),
+    ('STRATEGY-SLIDING', 30, '{"type": "sliding_floor", "min_discount_percentage": 10, "full_stock_quantity": 50}', 25),
+    ('STRATEGY-TIME', 10, '{"type": "time_of_day", "timezone": "UTC", "windows": [{"start_hour": 9, "end_hour": 12, "max_discount_percentage": 30}]}', NULL),
+    ('STRATEGY-RANDOM', 30, '{"type": "probabilistic", "certain_discount_percentage": 10}', NULL),
+    ('STRATEGY-UNKNOWN', 20, '{"type": "haggle"}', NULL)
+) AS v(sku, max_discount_percentage, strategy, stock_quantity)
+WHERE t.slug = 'shuq';
+
+INSERT INTO public.store_products (store_id, product_id, price_override, max_discount_percentage_override)
+SELECT s.id, p.id, 8000, 50
+FROM public.stores s, public.products p
+WHERE s.code = 'strategy-test' AND p.sku = 'STRATEGY-FIXED';
+
+DO $$
+DECLARE
+    v_product public.products%ROWTYPE;
+    v_store_id UUID := (SELECT id FROM public.stores WHERE code = 'strategy-test');
+    v_morning TIMESTAMP WITH TIME ZONE := '2025-06-02 10:00:00+00';
+    v_evening TIMESTAMP WITH TIME ZONE := '2025-06-02 19:00:00+00';
+BEGIN
+    -- Fixed floor: 20% off 10000
+    SELECT * INTO v_product FROM public.products WHERE sku = 'STRATEGY-FIXED';
+    v_product := public.apply_store_pricing(v_product, NULL);
+    IF public.negotiation_floor_price(v_product) <> 8000 THEN
+        RAISE EXCEPTION 'FAILED: fixed floor should be 8000, got %', public.negotiation_floor_price(v_product);
+    END IF;
+    IF NOT public.evaluate_offer(v_product, 8000) OR public.evaluate_offer(v_product, 7999) THEN
+        RAISE EXCEPTION 'FAILED: fixed floor should accept 8000 and reject 7999';
+    END IF;
+
+    -- Counters sit halfway to the list price, and only when halfway clears the floor
+    IF public.compute_counter_offer(v_product, 7000) IS DISTINCT FROM 9000 THEN
+        RAISE EXCEPTION 'FAILED: a 7000 offer should be countered at 9000, got %', public.compute_counter_offer(v_product, 7000);
+    END IF;
+    IF public.compute_counter_offer(v_product, 6000) IS NOT NULL OR public.compute_counter_offer(v_product, 1) IS NOT NULL THEN
+        RAISE EXCEPTION 'FAILED: offers too low to counter got a counter that reveals the floor';
+    END IF;
+
+    -- The store's price and ceiling replace the product's: 50% off 8000
+    SELECT * INTO v_product FROM public.products WHERE sku = 'STRATEGY-FIXED';
+    v_product := public.apply_store_pricing(v_product, v_store_id);
+    IF public.negotiation_floor_price(v_product) <> 4000 THEN
+        RAISE EXCEPTION 'FAILED: store floor should be 4000, got %', public.negotiation_floor_price(v_product);
+    END IF;
+
+    -- No ceiling of its own: the category's 25% applies
+    SELECT * INTO v_product FROM public.products WHERE sku = 'STRATEGY-DEFAULT';
+    v_product := public.apply_store_pricing(v_product, NULL);
+    IF public.negotiation_floor_price(v_product) <> 7500 THEN
+        RAISE EXCEPTION 'FAILED: category default floor should be 7500, got %', public.negotiation_floor_price(v_product);
+    END IF;
+    IF NOT public.evaluate_offer(v_product, 7500) OR public.evaluate_offer(v_product, 7499) THEN
+        RAISE EXCEPTION 'FAILED: category default floor should accept 7500 and reject 7499';
+    END IF;
+
+    -- Sliding floor: half the full stock left, so 10% + (30% - 10%) / 2 off
+    SELECT * INTO v_product FROM public.products WHERE sku = 'STRATEGY-SLIDING';
+    v_product := public.apply_store_pricing(v_product, NULL);
+    IF public.negotiation_floor_price(v_product) <> 8000 THEN
+        RAISE EXCEPTION 'FAILED: sliding floor at half stock should be 8000, got %', public.negotiation_floor_price(v_product);
+    END IF;
+    v_product.stock_quantity := 100;
+    IF public.negotiation_floor_price(v_product) <> 7000 THEN
+        RAISE EXCEPTION 'FAILED: sliding floor at full stock should be 7000, got %', public.negotiation_floor_price(v_product);
+    END IF;
+    v_product.stock_quantity := 0;
+    IF public.negotiation_floor_price(v_product) <> 9000 THEN
+        RAISE EXCEPTION 'FAILED: sliding floor without stock should be 9000, got %', public.negotiation_floor_price(v_product);
+    END IF;
+
+    -- Time of day: 30% inside the morning window, the product's 10% outside it
+    SELECT * INTO v_product FROM public.products WHERE sku = 'STRATEGY-TIME';
+    v_product := public.apply_store_pricing(v_product, NULL);
+    IF NOT public.evaluate_offer(v_product, 7000, v_morning) OR public.evaluate_offer(v_product, 6999, v_morning) THEN
+        RAISE EXCEPTION 'FAILED: morning window should accept 7000 and reject 6999';
+    END IF;
+    IF public.evaluate_offer(v_product, 8999, v_evening) OR NOT public.evaluate_offer(v_product, 9000, v_evening) THEN
+        RAISE EXCEPTION 'FAILED: outside the window should accept 9000 and reject 8999';
+    END IF;
+
+    -- Probabilistic: never below the 7000 floor, always from the 9000 certain
+    -- price, and halfway between them half of the time
+    SELECT * INTO v_product FROM public.products WHERE sku = 'STRATEGY-RANDOM';
+    v_product := public.apply_store_pricing(v_product, NULL);
+    IF public.evaluate_offer(v_product, 6999, NOW(), 0) THEN
+        RAISE EXCEPTION 'FAILED: probabilistic should reject offers below the floor';
+    END IF;
+    IF NOT public.evaluate_offer(v_product, 9000, NOW(), 0.999) THEN
+        RAISE EXCEPTION 'FAILED: probabilistic should accept the certain price';
+    END IF;
+    IF NOT public.evaluate_offer(v_product, 8000, NOW(), 0.49) OR public.evaluate_offer(v_product, 8000, NOW(), 0.51) THEN
+        RAISE EXCEPTION 'FAILED: probabilistic should accept halfway offers half of the time';
+    END IF;
+
+    -- Unknown strategies fall back to the fixed floor
+    SELECT * INTO v_product FROM public.products WHERE sku = 'STRATEGY-UNKNOWN';
+    v_product := public.apply_store_pricing(v_product, NULL);
+    IF NOT public.evaluate_offer(v_product, 8000) OR public.evaluate_offer(v_product, 7999) THEN
+        RAISE EXCEPTION 'FAILED: unknown strategies should use the fixed floor';
+    END IF;
+END $$;
+
+SELECT 'All negotiation strategy checks passed' AS result;
+
+ROLLBACK;
@@ -0,0 +1,42 @@
+-- Product barcodes
+-- Shoppers can scan a product's EAN-13 barcode, or type it or the SKU, when
+-- there is no readable QR code. EANs are unique within a tenant, since several
+-- retailers may sell the same manufacturer's product.
+-- Run after PRODUCT_QR_SETUP.sql.
+
+-- Whether a code is a 13-digit EAN with a valid check digit
+CREATE OR REPLACE FUNCTION public.is_valid_ean13(p_code TEXT)
+RETURNS BOOLEAN AS $$
+    SELECT CASE
+        WHEN p_code ~ '^[0-9]{13}$' THEN (
+            SELECT SUM(SUBSTR(p_code, i, 1)::INT * CASE WHEN i % 2 = 0 THEN 3 ELSE 1 END) % 10 = 0
+            FROM generate_series(1, 13) AS i
+        )
+        ELSE FALSE
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+ALTER TABLE public.products
+    ADD COLUMN IF NOT EXISTS ean TEXT;
+
+ALTER TABLE public.products
+    DROP CONSTRAINT IF EXISTS products_ean_check;
+
+ALTER TABLE public.products
+    ADD CONSTRAINT products_ean_check CHECK (ean IS NULL OR public.is_valid_ean13(ean));
+
+CREATE UNIQUE INDEX IF NOT EXISTS products_tenant_ean_key ON public.products (tenant_id, ean);
+
+-- SKU of the product on sale with this barcode, in the tenant's catalog when
+-- given. Null when no product matches, or when several tenants sell it and no
+-- tenant was given.
+CREATE OR REPLACE FUNCTION public.find_product_sku_by_ean(p_ean TEXT, p_tenant_id UUID DEFAULT NULL)
+RETURNS TEXT AS $$
+    SELECT CASE WHEN COUNT(*) = 1 THEN MIN(sku) END
+    FROM public.products
+    WHERE ean = p_ean
+      AND archived_at IS NULL
+      AND (p_tenant_id IS NULL OR tenant_id = p_tenant_id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.find_product_sku_by_ean(TEXT, UUID) TO anon, authenticated;
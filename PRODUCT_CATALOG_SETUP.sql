@@ -0,0 +1,159 @@
+-- Product catalog management
+-- Store managers create, edit and archive products from the admin Products
+-- tab and upload product images to the public "products" storage bucket.
+-- Archived products disappear from the storefront but keep their offer logs.
+-- Run after SHOPPER_ACCOUNT_SETUP.sql.
+
+ALTER TABLE public.products
+    ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP WITH TIME ZONE; -- NULL while the product is on sale
+
+-- Managers maintain the catalog; products are archived rather than deleted
+CREATE POLICY "Allow managers to insert products"
+    ON public.products FOR INSERT
+    TO authenticated
+    WITH CHECK (public.has_staff_role(ARRAY['owner', 'store_manager']));
+
+CREATE POLICY "Allow managers to update products"
+    ON public.products FOR UPDATE
+    TO authenticated
+    USING (public.has_staff_role(ARRAY['owner', 'store_manager']))
+    WITH CHECK (public.has_staff_role(ARRAY['owner', 'store_manager']));
+
+GRANT INSERT, UPDATE ON public.products TO authenticated;
+
+-- Hide archived products from shoppers
+CREATE OR REPLACE VIEW public.public_products AS
+SELECT
+    p.id,
+    p.sku,
+    p.name,
+    p.description,
+    p.price,
+    p.image,
+    p.created_at,
+    p.updated_at,
+    public.resolve_attempt_budget(p) AS attempt_budget,
+    public.resolve_coupon_ttl_minutes(p) AS coupon_ttl_minutes,
+    p.consolation_discount_percentage
+FROM public.products p
+WHERE p.archived_at IS NULL;
+
+-- Submit an offer for a product on behalf of a shopper session
+CREATE OR REPLACE FUNCTION public.submit_offer(
+    p_product_sku TEXT,
+    p_session_id TEXT,
+    p_offered_amount DECIMAL
+)
+RETURNS public.offer_logs AS $$
+DECLARE
+    v_product public.products%ROWTYPE;
+    v_last_offer public.offer_logs%ROWTYPE;
+    v_attempts INTEGER;
+    v_is_accepted BOOLEAN;
+    v_status TEXT;
+    v_counter_amount DECIMAL;
+    v_offer public.offer_logs%ROWTYPE;
+BEGIN
+    PERFORM public.assert_shopper_session(p_session_id);
+
+    IF p_offered_amount IS NULL OR p_offered_amount < 0 THEN
+        RAISE EXCEPTION 'invalid_offer_amount';
+    END IF;
+
+    SELECT * INTO v_product FROM public.products WHERE sku = p_product_sku AND archived_at IS NULL;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'product_not_found';
+    END IF;
+
+    -- Serialize concurrent offers from the same session on the same product
+    PERFORM pg_advisory_xact_lock(hashtext(p_session_id || ':' || p_product_sku));
+
+    v_attempts := public.resolve_attempt_budget(v_product);
+
+    SELECT * INTO v_last_offer
+    FROM public.offer_logs
+    WHERE session_id = p_session_id AND product_sku = p_product_sku
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    -- An accepted offer starts a fresh negotiation for the product
+    IF FOUND AND v_last_offer.offer_status <> 'accepted' THEN
+        v_attempts := v_last_offer.attempts_remaining;
+    END IF;
+
+    IF v_attempts <= 0 THEN
+        RAISE EXCEPTION 'no_attempts_remaining';
+    END IF;
+
+    v_is_accepted := public.evaluate_offer(v_product, p_offered_amount);
+
+    -- Counter while the shopper can still negotiate, reject on the last attempt
+    -- and offers too low to counter
+    IF NOT v_is_accepted AND v_attempts - 1 > 0 THEN
+        v_counter_amount := public.compute_counter_offer(v_product, p_offered_amount);
+    END IF;
+
+    v_status := CASE
+        WHEN v_is_accepted THEN 'accepted'
+        WHEN v_counter_amount IS NOT NULL THEN 'countered'
+        ELSE 'rejected'
+    END;
+
+    INSERT INTO public.offer_logs (
+        session_id,
+        product_sku,
+        product_name,
+        product_price,
+        product_max_discount_percentage,
+        offered_amount,
+        offer_status,
+        attempts_remaining,
+        acceptance_code,
+        counter_amount,
+        coupon_status,
+        expires_at
+    ) VALUES (
+        p_session_id,
+        v_product.sku,
+        v_product.name,
+        v_product.price,
+        v_product.max_discount_percentage,
+        p_offered_amount,
+        v_status,
+        CASE WHEN v_is_accepted THEN v_attempts ELSE v_attempts - 1 END,
+        CASE WHEN v_is_accepted THEN public.generate_acceptance_code() ELSE NULL END,
+        v_counter_amount,
+        CASE WHEN v_is_accepted THEN 'active' ELSE NULL END,
+        CASE WHEN v_is_accepted THEN public.coupon_expires_at(v_product) ELSE NULL END
+    )
+    RETURNING * INTO v_offer;
+
+    RETURN public.shopper_offer_log(v_offer);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Product images live in a public bucket as <sku>.<webp|jpg|png>
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('products', 'products', true)
+ON CONFLICT (id) DO NOTHING;
+
+-- Uploads overwrite the previous image, which needs the existing object
+CREATE POLICY "Allow managers to read product images"
+    ON storage.objects FOR SELECT
+    TO authenticated
+    USING (bucket_id = 'products' AND public.has_staff_role(ARRAY['owner', 'store_manager']));
+
+CREATE POLICY "Allow managers to upload product images"
+    ON storage.objects FOR INSERT
+    TO authenticated
+    WITH CHECK (bucket_id = 'products' AND public.has_staff_role(ARRAY['owner', 'store_manager']));
+
+CREATE POLICY "Allow managers to update product images"
+    ON storage.objects FOR UPDATE
+    TO authenticated
+    USING (bucket_id = 'products' AND public.has_staff_role(ARRAY['owner', 'store_manager']));
+
+CREATE POLICY "Allow managers to delete product images"
+    ON storage.objects FOR DELETE
+    TO authenticated
+    USING (bucket_id = 'products' AND public.has_staff_role(ARRAY['owner', 'store_manager']));
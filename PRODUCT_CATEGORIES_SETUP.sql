@@ -0,0 +1,487 @@
+-- Product categories and collections
+-- Each product belongs to at most one category (Sweaters, Buzos...), which
+-- sets the default discount ceiling and attempt budget of its products.
+-- Products with a NULL max_discount_percentage or max_attempts use their
+-- category's default, then 0% and 3 attempts. Collections (Invierno, Sale...)
+-- group any products across categories. Both are per tenant and managed from
+-- the admin Categories tab; shoppers browse them from the home screen,
+-- reading categories through the public_categories view, which leaves out the
+-- category's defaults.
+-- Replaces the free text category of PRODUCT_SEARCH_SETUP.sql: existing
+-- categories are moved over, and products named after the demo catalog's
+-- conventions (SWEATER GAEL..., BUZO ...) are grouped by their first word.
+-- Run after PRODUCT_SEARCH_SETUP.sql.
+
+-- Create categories table
+CREATE TABLE IF NOT EXISTS public.categories (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    tenant_id UUID NOT NULL DEFAULT public.current_tenant_id() REFERENCES public.tenants(id),
+    slug TEXT NOT NULL CHECK (slug ~ '^[a-z0-9-]+$'), -- Used in storefront filters
+    name TEXT NOT NULL,
+    default_max_discount_percentage INTEGER CHECK (default_max_discount_percentage BETWEEN 0 AND 100),
+    default_max_attempts INTEGER CHECK (default_max_attempts > 0),
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (tenant_id, slug)
+);
+
+CREATE TRIGGER trigger_categories_updated_at
+    BEFORE UPDATE ON public.categories
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_updated_at();
+
+-- Create collections table
+CREATE TABLE IF NOT EXISTS public.collections (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    tenant_id UUID NOT NULL DEFAULT public.current_tenant_id() REFERENCES public.tenants(id),
+    slug TEXT NOT NULL CHECK (slug ~ '^[a-z0-9-]+$'),
+    name TEXT NOT NULL,
+    description TEXT,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (tenant_id, slug)
+);
+
+CREATE TRIGGER trigger_collections_updated_at
+    BEFORE UPDATE ON public.collections
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE TABLE IF NOT EXISTS public.collection_products (
+    collection_id UUID NOT NULL REFERENCES public.collections(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (collection_id, product_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_collection_products_product_id ON public.collection_products(product_id);
+
+ALTER TABLE public.products
+    ADD COLUMN IF NOT EXISTS category_id UUID REFERENCES public.categories(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_products_category_id ON public.products(category_id);
+
+-- Products and their category or collections must belong to the same tenant
+CREATE OR REPLACE FUNCTION public.handle_product_category_tenant()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.category_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.categories WHERE id = NEW.category_id AND tenant_id = NEW.tenant_id
+    ) THEN
+        RAISE EXCEPTION 'category_not_found';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_products_category_tenant ON public.products;
+CREATE TRIGGER trigger_products_category_tenant
+    BEFORE INSERT OR UPDATE OF category_id, tenant_id ON public.products
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_product_category_tenant();
+
+CREATE OR REPLACE FUNCTION public.handle_collection_product_tenant()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM public.collections c
+        JOIN public.products p ON p.tenant_id = c.tenant_id
+        WHERE c.id = NEW.collection_id AND p.id = NEW.product_id
+    ) THEN
+        RAISE EXCEPTION 'collection_not_found';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_collection_products_tenant ON public.collection_products;
+CREATE TRIGGER trigger_collection_products_tenant
+    BEFORE INSERT OR UPDATE ON public.collection_products
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_collection_product_tenant();
+
+-- Move the free text categories over
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public' AND table_name = 'products' AND column_name = 'category'
+    ) THEN
+        INSERT INTO public.categories (tenant_id, slug, name)
+        SELECT DISTINCT ON (tenant_id, slug) tenant_id, slug, name
+        FROM (
+            SELECT
+                tenant_id,
+                TRIM(category) AS name,
+                TRIM(BOTH '-' FROM REGEXP_REPLACE(
+                    TRANSLATE(LOWER(TRIM(category)), 'áéíóúüñ', 'aeiouun'),
+                    '[^a-z0-9]+', '-', 'g'
+                )) AS slug
+            FROM public.products
+            WHERE TRIM(COALESCE(category, '')) <> ''
+        ) named
+        WHERE slug <> ''
+        ORDER BY tenant_id, slug, name
+        ON CONFLICT (tenant_id, slug) DO NOTHING;
+
+        UPDATE public.products p
+        SET category_id = c.id
+        FROM public.categories c
+        WHERE p.category_id IS NULL
+          AND c.tenant_id = p.tenant_id
+          AND c.slug = TRIM(BOTH '-' FROM REGEXP_REPLACE(
+              TRANSLATE(LOWER(TRIM(p.category)), 'áéíóúüñ', 'aeiouun'),
+              '[^a-z0-9]+', '-', 'g'
+          ));
+    END IF;
+END;
+$$;
+
+-- Group the remaining products by the naming convention of the demo catalog
+INSERT INTO public.categories (tenant_id, slug, name)
+SELECT DISTINCT p.tenant_id, c.slug, c.name
+FROM public.products p
+JOIN (VALUES
+    ('SWEATER', 'sweaters', 'Sweaters'),
+    ('BUZO', 'buzos', 'Buzos'),
+    ('CAMISA', 'camisas', 'Camisas'),
+    ('CHOMBA', 'chombas', 'Chombas'),
+    ('JEAN', 'jeans', 'Jeans'),
+    ('PANTALON', 'pantalones', 'Pantalones'),
+    ('REMERA', 'remeras', 'Remeras')
+) AS c(prefix, slug, name) ON UPPER(SPLIT_PART(p.name, ' ', 1)) = c.prefix
+WHERE p.category_id IS NULL
+ON CONFLICT (tenant_id, slug) DO NOTHING;
+
+UPDATE public.products p
+SET category_id = cat.id
+FROM (VALUES
+    ('SWEATER', 'sweaters'),
+    ('BUZO', 'buzos'),
+    ('CAMISA', 'camisas'),
+    ('CHOMBA', 'chombas'),
+    ('JEAN', 'jeans'),
+    ('PANTALON', 'pantalones'),
+    ('REMERA', 'remeras')
+) AS c(prefix, slug), public.categories cat
+WHERE p.category_id IS NULL
+  AND UPPER(SPLIT_PART(p.name, ' ', 1)) = c.prefix
+  AND cat.tenant_id = p.tenant_id
+  AND cat.slug = c.slug;
+
+-- Products without their own discount ceiling or attempt budget use their category's
+ALTER TABLE public.products
+    ALTER COLUMN max_discount_percentage DROP NOT NULL,
+    ALTER COLUMN max_discount_percentage DROP DEFAULT,
+    ALTER COLUMN max_attempts DROP NOT NULL,
+    ALTER COLUMN max_attempts DROP DEFAULT;
+
+-- A product with its category's defaults filled in where it has no value of its own
+CREATE OR REPLACE FUNCTION public.apply_category_defaults(p_product public.products)
+RETURNS public.products AS $$
+DECLARE
+    v_product public.products := p_product;
+    v_category public.categories%ROWTYPE;
+BEGIN
+    SELECT * INTO v_category FROM public.categories WHERE id = p_product.category_id;
+
+    v_product.max_discount_percentage := COALESCE(
+        v_product.max_discount_percentage,
+        v_category.default_max_discount_percentage,
+        0
+    );
+    v_product.max_attempts := COALESCE(v_product.max_attempts, v_category.default_max_attempts, 3);
+
+    RETURN v_product;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Store pricing on top of the category defaults. Covers submit_offer() and
+-- accept_consolation_offer().
+CREATE OR REPLACE FUNCTION public.apply_store_pricing(p_product public.products, p_store_id UUID)
+RETURNS public.products AS $$
+DECLARE
+    v_product public.products := public.apply_category_defaults(p_product);
+    v_overrides public.store_products%ROWTYPE;
+BEGIN
+    IF p_store_id IS NULL THEN
+        RETURN v_product;
+    END IF;
+
+    SELECT * INTO v_overrides
+    FROM public.store_products
+    WHERE store_id = p_store_id AND product_id = p_product.id;
+
+    IF FOUND THEN
+        v_product.price := COALESCE(v_overrides.price_override, v_product.price);
+        v_product.max_discount_percentage := COALESCE(v_overrides.max_discount_percentage_override, v_product.max_discount_percentage);
+    END IF;
+
+    RETURN v_product;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Attempt budget for a product right now: the most recently started running
+-- campaign of the product's tenant that covers the product wins, otherwise
+-- the product's own budget, then its category's
+CREATE OR REPLACE FUNCTION public.resolve_attempt_budget(
+    p_product public.products,
+    p_now TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+)
+RETURNS INTEGER AS $$
+    SELECT COALESCE(
+        (
+            SELECT c.max_attempts
+            FROM public.campaigns c
+            WHERE c.tenant_id = p_product.tenant_id
+              AND c.is_active
+              AND c.starts_at <= p_now
+              AND (c.ends_at IS NULL OR c.ends_at > p_now)
+              AND (c.product_skus IS NULL OR p_product.sku = ANY(c.product_skus))
+            ORDER BY c.starts_at DESC
+            LIMIT 1
+        ),
+        (public.apply_category_defaults(p_product)).max_attempts
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.apply_category_defaults(public.products) FROM PUBLIC;
+
+-- The storefront filters by category and collection slugs; category is now the category's name
+DROP FUNCTION IF EXISTS public.search_product_listings(UUID, TEXT, TEXT, TEXT, NUMERIC, NUMERIC, TEXT, INTEGER, INTEGER);
+DROP FUNCTION IF EXISTS public.get_product_categories(UUID);
+
+CREATE OR REPLACE VIEW public.public_products AS
+SELECT
+    p.id,
+    p.sku,
+    p.name,
+    p.description,
+    p.price,
+    p.image,
+    p.created_at,
+    p.updated_at,
+    public.resolve_attempt_budget(p) AS attempt_budget,
+    public.resolve_coupon_ttl_minutes(p) AS coupon_ttl_minutes,
+    p.consolation_discount_percentage,
+    p.style_id,
+    s.code AS style_code,
+    s.name AS style_name,
+    p.color,
+    p.size,
+    COALESCE(public.available_stock(p) > 0, TRUE) AS in_stock,
+    p.tenant_id,
+    c.name AS category,
+    p.category_id,
+    c.slug AS category_slug
+FROM public.products p
+LEFT JOIN public.product_styles s ON s.id = p.style_id
+LEFT JOIN public.categories c ON c.id = p.category_id AND c.is_active
+WHERE p.archived_at IS NULL;
+
+CREATE OR REPLACE VIEW public.public_store_products AS
+SELECT
+    pp.id,
+    pp.sku,
+    pp.name,
+    pp.description,
+    COALESCE(sp.price_override, pp.price) AS price,
+    pp.image,
+    pp.created_at,
+    pp.updated_at,
+    pp.attempt_budget,
+    pp.coupon_ttl_minutes,
+    pp.consolation_discount_percentage,
+    pp.style_id,
+    pp.style_code,
+    pp.style_name,
+    pp.color,
+    pp.size,
+    COALESCE(public.store_in_stock(s.id, pp.sku), pp.in_stock) AS in_stock,
+    s.id AS store_id,
+    s.code AS store_code,
+    s.name AS store_name,
+    pp.tenant_id,
+    pp.category,
+    pp.category_id,
+    pp.category_slug
+FROM public.public_products pp
+JOIN public.stores s ON s.tenant_id = pp.tenant_id
+LEFT JOIN public.store_products sp ON sp.store_id = s.id AND sp.product_id = pp.id
+WHERE s.is_active;
+
+ALTER TABLE public.products DROP COLUMN IF EXISTS category;
+
+-- One page of the storefront's product list, at the store's prices when a
+-- store is given. Filters apply to each color and size, so a style is listed
+-- with the prices of its matching variants. total_count is the number of
+-- listings on all pages.
+CREATE OR REPLACE FUNCTION public.search_product_listings(
+    p_tenant_id UUID DEFAULT NULL,
+    p_store_code TEXT DEFAULT NULL,
+    p_query TEXT DEFAULT NULL,
+    p_category_slug TEXT DEFAULT NULL,
+    p_collection_slug TEXT DEFAULT NULL,
+    p_min_price NUMERIC DEFAULT NULL,
+    p_max_price NUMERIC DEFAULT NULL,
+    p_sort TEXT DEFAULT 'name',
+    p_limit INTEGER DEFAULT 20,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    sku TEXT,
+    name TEXT,
+    category TEXT,
+    min_price NUMERIC,
+    max_price NUMERIC,
+    in_stock BOOLEAN,
+    total_count BIGINT
+) AS $$
+    WITH priced AS (
+        SELECT pp.id, pp.sku, pp.name, pp.price, pp.style_id, pp.style_name,
+               pp.in_stock, pp.category, pp.category_slug, pp.created_at, pp.tenant_id
+        FROM public.public_products pp
+        WHERE p_store_code IS NULL
+        UNION ALL
+        SELECT sp.id, sp.sku, sp.name, sp.price, sp.style_id, sp.style_name,
+               sp.in_stock, sp.category, sp.category_slug, sp.created_at, sp.tenant_id
+        FROM public.public_store_products sp
+        WHERE sp.store_code = LOWER(p_store_code)
+    ),
+    search AS (
+        -- Match the query literally, not as a LIKE pattern
+        SELECT '%' || REPLACE(REPLACE(REPLACE(TRIM(p_query), '\', '\\'), '%', '\%'), '_', '\_') || '%' AS pattern
+    ),
+    listings AS (
+        SELECT
+            (ARRAY_AGG(p.sku ORDER BY p.name, p.sku))[1] AS sku,
+            COALESCE(MIN(p.style_name), MIN(p.name)) AS name,
+            MIN(p.category) AS category,
+            MIN(p.price) AS min_price,
+            MAX(p.price) AS max_price,
+            BOOL_OR(p.in_stock) AS in_stock,
+            MAX(p.created_at) AS created_at
+        FROM priced p, search
+        WHERE (p_tenant_id IS NULL OR p.tenant_id = p_tenant_id)
+          AND (
+              COALESCE(TRIM(p_query), '') = ''
+              OR p.name ILIKE search.pattern
+              OR p.sku ILIKE search.pattern
+              OR p.style_name ILIKE search.pattern
+          )
+          AND (p_category_slug IS NULL OR p.category_slug = p_category_slug)
+          AND (p_collection_slug IS NULL OR EXISTS (
+              SELECT 1
+              FROM public.collection_products cp
+              JOIN public.collections c ON c.id = cp.collection_id
+              WHERE cp.product_id = p.id
+                AND c.slug = p_collection_slug
+                AND c.tenant_id = p.tenant_id
+                AND c.is_active
+          ))
+          AND (p_min_price IS NULL OR p.price >= p_min_price)
+          AND (p_max_price IS NULL OR p.price <= p_max_price)
+        GROUP BY COALESCE(p.style_id, p.id)
+    )
+    SELECT l.sku, l.name, l.category, l.min_price, l.max_price, l.in_stock,
+           COUNT(*) OVER () AS total_count
+    FROM listings l
+    ORDER BY
+        CASE WHEN p_sort = 'price_asc' THEN l.min_price END ASC,
+        CASE WHEN p_sort = 'price_desc' THEN l.min_price END DESC,
+        CASE WHEN p_sort = 'newest' THEN l.created_at END DESC,
+        l.name,
+        l.sku
+    LIMIT LEAST(GREATEST(p_limit, 1), 100)
+    OFFSET GREATEST(p_offset, 0);
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.search_product_listings(UUID, TEXT, TEXT, TEXT, TEXT, NUMERIC, NUMERIC, TEXT, INTEGER, INTEGER) TO anon, authenticated;
+
+ALTER TABLE public.categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.collections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.collection_products ENABLE ROW LEVEL SECURITY;
+
+-- Shopper-facing projection of active categories (runs with the owner's privileges)
+CREATE OR REPLACE VIEW public.public_categories AS
+SELECT
+    id,
+    tenant_id,
+    slug,
+    name,
+    sort_order,
+    is_active
+FROM public.categories
+WHERE is_active;
+
+-- Shoppers browse active categories through public_categories and active
+-- collections directly; staff also see inactive ones and categories' defaults
+CREATE POLICY "Allow staff read access on categories"
+    ON public.categories FOR SELECT
+    TO authenticated
+    USING (public.is_tenant_staff(tenant_id, ARRAY['owner', 'store_manager', 'cashier']));
+
+CREATE POLICY "Allow managers to insert categories"
+    ON public.categories FOR INSERT
+    TO authenticated
+    WITH CHECK (public.is_tenant_staff(tenant_id, ARRAY['owner', 'store_manager']));
+
+CREATE POLICY "Allow managers to update categories"
+    ON public.categories FOR UPDATE
+    TO authenticated
+    USING (public.is_tenant_staff(tenant_id, ARRAY['owner', 'store_manager']))
+    WITH CHECK (public.is_tenant_staff(tenant_id, ARRAY['owner', 'store_manager']));
+
+CREATE POLICY "Allow public read access on active collections"
+    ON public.collections FOR SELECT
+    TO anon, authenticated
+    USING (is_active);
+
+CREATE POLICY "Allow staff read access on collections"
+    ON public.collections FOR SELECT
+    TO authenticated
+    USING (public.is_tenant_staff(tenant_id, ARRAY['owner', 'store_manager', 'cashier']));
+
+CREATE POLICY "Allow managers to insert collections"
+    ON public.collections FOR INSERT
+    TO authenticated
+    WITH CHECK (public.is_tenant_staff(tenant_id, ARRAY['owner', 'store_manager']));
+
+CREATE POLICY "Allow managers to update collections"
+    ON public.collections FOR UPDATE
+    TO authenticated
+    USING (public.is_tenant_staff(tenant_id, ARRAY['owner', 'store_manager']))
+    WITH CHECK (public.is_tenant_staff(tenant_id, ARRAY['owner', 'store_manager']));
+
+-- Which products are in a collection is public, like the products themselves
+CREATE POLICY "Allow public read access on collection_products"
+    ON public.collection_products FOR SELECT
+    TO anon, authenticated
+    USING (true);
+
+CREATE POLICY "Allow managers to manage collection_products"
+    ON public.collection_products FOR ALL
+    TO authenticated
+    USING (EXISTS (
+        SELECT 1 FROM public.collections
+        WHERE id = collection_id AND public.is_tenant_staff(tenant_id, ARRAY['owner', 'store_manager'])
+    ))
+    WITH CHECK (EXISTS (
+        SELECT 1 FROM public.collections
+        WHERE id = collection_id AND public.is_tenant_staff(tenant_id, ARRAY['owner', 'store_manager'])
+    ));
+
+REVOKE SELECT ON public.categories FROM anon;
+GRANT SELECT, INSERT, UPDATE ON public.categories TO authenticated;
+GRANT SELECT ON public.public_categories TO anon, authenticated;
+GRANT SELECT ON public.collections TO anon;
+GRANT SELECT, INSERT, UPDATE ON public.collections TO authenticated;
+GRANT SELECT ON public.collection_products TO anon;
+GRANT SELECT, INSERT, DELETE ON public.collection_products TO authenticated;
@@ -0,0 +1,131 @@
+-- Product details
+-- Shoppers see a product's detail page before making an offer: a gallery of
+-- images, its composition and care instructions, and its category's size
+-- guide. The product image (<sku>.<ext>) comes first in the gallery; the
+-- other images are stored as <product id>/<name>.<ext> in the "products"
+-- bucket, so renaming a SKU doesn't orphan them, and
+-- listed in product_images in display order.
+-- Size guides are JSON: {"columns": ["Pecho", "Largo"],
+-- "rows": [{"size": "M", "values": ["52", "70"]}]}, with measurements in cm.
+-- Run after PRODUCT_CATEGORIES_SETUP.sql.
+
+ALTER TABLE public.products
+    ADD COLUMN IF NOT EXISTS composition TEXT, -- e.g. "80% algodón, 20% poliéster"
+    ADD COLUMN IF NOT EXISTS care_instructions TEXT; -- One instruction per line
+
+ALTER TABLE public.categories
+    ADD COLUMN IF NOT EXISTS size_guide JSONB;
+
+-- Create product_images table
+CREATE TABLE IF NOT EXISTS public.product_images (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+    path TEXT NOT NULL, -- Object name in the products bucket
+    alt_text TEXT,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (path)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_images_product_id_sort_order ON public.product_images(product_id, sort_order);
+
+-- Gallery images (<product id>/<name>.<ext>) can be changed by the product's tenant too,
+-- like product images (<sku>.<ext>) of an SKU no other tenant uses
+CREATE OR REPLACE FUNCTION public.can_manage_product_image(p_name TEXT)
+RETURNS BOOLEAN AS $$
+    SELECT COALESCE(bool_and(public.is_tenant_staff(tenant_id, ARRAY['owner', 'store_manager'])), FALSE)
+    FROM public.products
+    WHERE CASE
+            WHEN p_name LIKE '%/%' THEN id::TEXT = split_part(p_name, '/', 1)
+            ELSE sku = regexp_replace(p_name, '\.[^.]+$', '')
+        END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Expose the details to the storefront
+CREATE OR REPLACE VIEW public.public_products AS
+SELECT
+    p.id,
+    p.sku,
+    p.name,
+    p.description,
+    p.price,
+    p.image,
+    p.created_at,
+    p.updated_at,
+    public.resolve_attempt_budget(p) AS attempt_budget,
+    public.resolve_coupon_ttl_minutes(p) AS coupon_ttl_minutes,
+    p.consolation_discount_percentage,
+    p.style_id,
+    s.code AS style_code,
+    s.name AS style_name,
+    p.color,
+    p.size,
+    COALESCE(public.available_stock(p) > 0, TRUE) AS in_stock,
+    p.tenant_id,
+    c.name AS category,
+    p.category_id,
+    c.slug AS category_slug,
+    p.composition,
+    p.care_instructions,
+    c.size_guide
+FROM public.products p
+LEFT JOIN public.product_styles s ON s.id = p.style_id
+LEFT JOIN public.categories c ON c.id = p.category_id AND c.is_active
+WHERE p.archived_at IS NULL;
+
+CREATE OR REPLACE VIEW public.public_store_products AS
+SELECT
+    pp.id,
+    pp.sku,
+    pp.name,
+    pp.description,
+    COALESCE(sp.price_override, pp.price) AS price,
+    pp.image,
+    pp.created_at,
+    pp.updated_at,
+    pp.attempt_budget,
+    pp.coupon_ttl_minutes,
+    pp.consolation_discount_percentage,
+    pp.style_id,
+    pp.style_code,
+    pp.style_name,
+    pp.color,
+    pp.size,
+    COALESCE(public.store_in_stock(s.id, pp.sku), pp.in_stock) AS in_stock,
+    s.id AS store_id,
+    s.code AS store_code,
+    s.name AS store_name,
+    pp.tenant_id,
+    pp.category,
+    pp.category_id,
+    pp.category_slug,
+    pp.composition,
+    pp.care_instructions,
+    pp.size_guide
+FROM public.public_products pp
+JOIN public.stores s ON s.tenant_id = pp.tenant_id
+LEFT JOIN public.store_products sp ON sp.store_id = s.id AND sp.product_id = pp.id
+WHERE s.is_active;
+
+ALTER TABLE public.product_images ENABLE ROW LEVEL SECURITY;
+
+-- Images are public like the products bucket itself
+CREATE POLICY "Allow public read access on product_images"
+    ON public.product_images FOR SELECT
+    TO anon, authenticated
+    USING (true);
+
+CREATE POLICY "Allow managers to manage product_images"
+    ON public.product_images FOR ALL
+    TO authenticated
+    USING (EXISTS (
+        SELECT 1 FROM public.products
+        WHERE id = product_id AND public.is_tenant_staff(tenant_id, ARRAY['owner', 'store_manager'])
+    ))
+    WITH CHECK (EXISTS (
+        SELECT 1 FROM public.products
+        WHERE id = product_id AND public.is_tenant_staff(tenant_id, ARRAY['owner', 'store_manager'])
+    ));
+
+GRANT SELECT ON public.product_images TO anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.product_images TO authenticated;
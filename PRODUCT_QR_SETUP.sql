@@ -0,0 +1,212 @@
+-- Signed product QR codes
+-- Product QR codes are URLs, so phone camera apps open them too:
+--   https://<storefront>/products/<sku>?v=1&tenant=<slug>&store=<code>&sig=<signature>
+-- The signature is an HMAC of "v1:<tenant>:<store>:<sku>" with a key that API
+-- roles can't read, so the app can reject labels whose SKU, tenant or store was
+-- edited. Managers sign codes when printing labels; anyone can check them.
+-- Every label is signed, so the app rejects unsigned codes that name a tenant
+-- or store; only a bare SKU may be typed in or scanned unsigned.
+-- Shoppers only get a store's prices after entering it with a signed code:
+-- the store is remembered for their session, per tenant, until they scan
+-- another store's code, and follows them when they sign in.
+-- Run after TENANTS_SETUP.sql.
+
+INSERT INTO private.app_secrets (key, value) VALUES
+    ('product_qr_signing_key', encode(extensions.gen_random_bytes(32), 'hex'))
+ON CONFLICT (key) DO NOTHING;
+
+-- HMAC-SHA256 of a product QR code's contents, shortened to 32 hex characters
+-- to keep printed codes easy to scan
+CREATE OR REPLACE FUNCTION public.product_qr_signature(p_tenant_slug TEXT, p_store_code TEXT, p_sku TEXT)
+RETURNS TEXT AS $$
+    SELECT LEFT(encode(
+        extensions.hmac(
+            'v1:' || LOWER(p_tenant_slug) || ':' || LOWER(COALESCE(p_store_code, '')) || ':' || p_sku,
+            s.value,
+            'sha256'
+        ),
+        'hex'
+    ), 32)
+    FROM private.app_secrets s
+    WHERE s.key = 'product_qr_signing_key';
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.product_qr_signature(TEXT, TEXT, TEXT) FROM PUBLIC;
+
+-- Signature for a product's QR code, optionally for one of its tenant's stores (managers only)
+CREATE OR REPLACE FUNCTION public.sign_product_qr(p_product_sku TEXT, p_store_code TEXT DEFAULT NULL)
+RETURNS TEXT AS $$
+DECLARE
+    v_tenant public.tenants%ROWTYPE;
+BEGIN
+    IF NOT public.has_staff_role(ARRAY['owner', 'store_manager']) THEN
+        RAISE EXCEPTION 'not_authorized';
+    END IF;
+
+    SELECT t.* INTO v_tenant
+    FROM public.products p
+    JOIN public.tenants t ON t.id = p.tenant_id
+    WHERE p.sku = p_product_sku AND p.tenant_id = public.current_tenant_id();
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'product_not_found';
+    END IF;
+
+    IF p_store_code IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.stores WHERE code = LOWER(p_store_code) AND tenant_id = v_tenant.id
+    ) THEN
+        RAISE EXCEPTION 'store_not_found';
+    END IF;
+
+    RETURN public.product_qr_signature(v_tenant.slug, p_store_code, p_product_sku);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Whether a scanned product QR code's signature matches its contents
+CREATE OR REPLACE FUNCTION public.verify_product_qr(
+    p_tenant_slug TEXT,
+    p_store_code TEXT,
+    p_product_sku TEXT,
+    p_signature TEXT
+)
+RETURNS BOOLEAN AS $$
+    SELECT COALESCE(
+        LOWER(p_signature) = public.product_qr_signature(p_tenant_slug, p_store_code, p_product_sku),
+        FALSE
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.sign_product_qr(TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.sign_product_qr(TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.verify_product_qr(TEXT, TEXT, TEXT, TEXT) TO anon, authenticated;
+
+-- Store each shopper session is in, per tenant (server-side only)
+CREATE TABLE IF NOT EXISTS private.shopper_stores (
+    session_id TEXT NOT NULL,
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (session_id, tenant_id)
+);
+
+REVOKE ALL ON private.shopper_stores FROM PUBLIC;
+
+-- Enter the store of a signed product QR code. Returns the store code, or
+-- NULL when the code is unsigned, tampered with or for a closed store.
+CREATE OR REPLACE FUNCTION public.enter_store(
+    p_tenant_slug TEXT,
+    p_store_code TEXT,
+    p_product_sku TEXT,
+    p_signature TEXT
+)
+RETURNS TEXT AS $$
+DECLARE
+    v_store public.stores%ROWTYPE;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'session_mismatch';
+    END IF;
+
+    IF NOT public.verify_product_qr(p_tenant_slug, p_store_code, p_product_sku, p_signature) THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT s.* INTO v_store
+    FROM public.stores s
+    JOIN public.tenants t ON t.id = s.tenant_id
+    WHERE s.code = LOWER(p_store_code) AND s.is_active AND t.slug = LOWER(p_tenant_slug);
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO private.shopper_stores (session_id, tenant_id, store_id)
+    VALUES (auth.uid()::TEXT, v_store.tenant_id, v_store.id)
+    ON CONFLICT (session_id, tenant_id) DO UPDATE
+    SET store_id = EXCLUDED.store_id, updated_at = NOW();
+
+    RETURN v_store.code;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Code of the active store the caller last entered for a tenant, NULL when none
+CREATE OR REPLACE FUNCTION public.current_store_code(p_tenant_id UUID)
+RETURNS TEXT AS $$
+    SELECT s.code
+    FROM private.shopper_stores ss
+    JOIN public.stores s ON s.id = ss.store_id
+    WHERE ss.session_id = auth.uid()::TEXT
+      AND ss.tenant_id = p_tenant_id
+      AND s.is_active;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Id of the tenant's store an offer is made in, NULL when no store is given.
+-- Only a store the shopper entered with a signed QR code gets its prices.
+CREATE OR REPLACE FUNCTION public.resolve_store_id(p_tenant_id UUID, p_store_code TEXT)
+RETURNS UUID AS $$
+DECLARE
+    v_store_id UUID;
+BEGIN
+    IF p_store_code IS NULL OR p_store_code = '' THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT s.id INTO v_store_id
+    FROM private.shopper_stores ss
+    JOIN public.stores s ON s.id = ss.store_id
+    WHERE ss.session_id = auth.uid()::TEXT
+      AND ss.tenant_id = p_tenant_id
+      AND s.code = LOWER(p_store_code)
+      AND s.is_active;
+
+    IF v_store_id IS NULL THEN
+        RAISE EXCEPTION 'store_not_found';
+    END IF;
+
+    RETURN v_store_id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Move the offer logs and stores of a claimed session to the signed-in
+-- account (replaces the version in SHOPPER_ACCOUNT_SETUP.sql)
+CREATE OR REPLACE FUNCTION public.claim_session(p_token TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+    v_session_id TEXT;
+    v_count INTEGER;
+BEGIN
+    IF auth.uid() IS NULL OR COALESCE((auth.jwt() ->> 'is_anonymous')::BOOLEAN, FALSE) THEN
+        RAISE EXCEPTION 'account_required';
+    END IF;
+
+    DELETE FROM private.session_claims
+    WHERE token_hash = encode(extensions.digest(p_token, 'sha256'), 'hex')
+      AND expires_at > NOW()
+    RETURNING session_id INTO v_session_id;
+
+    IF v_session_id IS NULL THEN
+        RAISE EXCEPTION 'session_claim_invalid';
+    END IF;
+
+    UPDATE public.offer_logs
+    SET session_id = auth.uid()::TEXT
+    WHERE session_id = v_session_id;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+    -- The stores the shopper entered before signing in are the latest ones
+    INSERT INTO private.shopper_stores (session_id, tenant_id, store_id, updated_at)
+    SELECT auth.uid()::TEXT, tenant_id, store_id, updated_at
+    FROM private.shopper_stores
+    WHERE session_id = v_session_id
+    ON CONFLICT (session_id, tenant_id) DO UPDATE
+    SET store_id = EXCLUDED.store_id, updated_at = EXCLUDED.updated_at;
+
+    DELETE FROM private.shopper_stores WHERE session_id = v_session_id;
+
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.enter_store(TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.current_store_code(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.enter_store(TEXT, TEXT, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.current_store_code(UUID) TO authenticated;
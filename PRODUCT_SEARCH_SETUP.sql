@@ -0,0 +1,153 @@
+-- Product search
+-- The storefront's product list is searched, filtered, sorted and paginated in
+-- the database, one entry per style (see PRODUCT_VARIANTS_SETUP.sql) so
+-- shoppers pick the color and size on the offer screen. Products get a free
+-- text category managers set from the admin Products tab.
+-- Run after PRODUCT_BARCODE_SETUP.sql.
+
+ALTER TABLE public.products
+    ADD COLUMN IF NOT EXISTS category TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_products_tenant_category ON public.products (tenant_id, category);
+
+-- Expose the category to the storefront
+CREATE OR REPLACE VIEW public.public_products AS
+SELECT
+    p.id,
+    p.sku,
+    p.name,
+    p.description,
+    p.price,
+    p.image,
+    p.created_at,
+    p.updated_at,
+    public.resolve_attempt_budget(p) AS attempt_budget,
+    public.resolve_coupon_ttl_minutes(p) AS coupon_ttl_minutes,
+    p.consolation_discount_percentage,
+    p.style_id,
+    s.code AS style_code,
+    s.name AS style_name,
+    p.color,
+    p.size,
+    COALESCE(public.available_stock(p) > 0, TRUE) AS in_stock,
+    p.tenant_id,
+    p.category
+FROM public.products p
+LEFT JOIN public.product_styles s ON s.id = p.style_id
+WHERE p.archived_at IS NULL;
+
+CREATE OR REPLACE VIEW public.public_store_products AS
+SELECT
+    pp.id,
+    pp.sku,
+    pp.name,
+    pp.description,
+    COALESCE(sp.price_override, pp.price) AS price,
+    pp.image,
+    pp.created_at,
+    pp.updated_at,
+    pp.attempt_budget,
+    pp.coupon_ttl_minutes,
+    pp.consolation_discount_percentage,
+    pp.style_id,
+    pp.style_code,
+    pp.style_name,
+    pp.color,
+    pp.size,
+    COALESCE(public.store_in_stock(s.id, pp.sku), pp.in_stock) AS in_stock,
+    s.id AS store_id,
+    s.code AS store_code,
+    s.name AS store_name,
+    pp.tenant_id,
+    pp.category
+FROM public.public_products pp
+JOIN public.stores s ON s.tenant_id = pp.tenant_id
+LEFT JOIN public.store_products sp ON sp.store_id = s.id AND sp.product_id = pp.id
+WHERE s.is_active;
+
+-- One page of the storefront's product list, at the store's prices when a
+-- store is given. Filters apply to each color and size, so a style is listed
+-- with the prices of its matching variants. total_count is the number of
+-- listings on all pages.
+CREATE OR REPLACE FUNCTION public.search_product_listings(
+    p_tenant_id UUID DEFAULT NULL,
+    p_store_code TEXT DEFAULT NULL,
+    p_query TEXT DEFAULT NULL,
+    p_category TEXT DEFAULT NULL,
+    p_min_price NUMERIC DEFAULT NULL,
+    p_max_price NUMERIC DEFAULT NULL,
+    p_sort TEXT DEFAULT 'name',
+    p_limit INTEGER DEFAULT 20,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    sku TEXT,
+    name TEXT,
+    category TEXT,
+    min_price NUMERIC,
+    max_price NUMERIC,
+    in_stock BOOLEAN,
+    total_count BIGINT
+) AS $$
+    WITH priced AS (
+        SELECT pp.id, pp.sku, pp.name, pp.price, pp.style_id, pp.style_name,
+               pp.in_stock, pp.category, pp.created_at, pp.tenant_id
+        FROM public.public_products pp
+        WHERE p_store_code IS NULL
+        UNION ALL
+        SELECT sp.id, sp.sku, sp.name, sp.price, sp.style_id, sp.style_name,
+               sp.in_stock, sp.category, sp.created_at, sp.tenant_id
+        FROM public.public_store_products sp
+        WHERE sp.store_code = LOWER(p_store_code)
+    ),
+    search AS (
+        -- Match the query literally, not as a LIKE pattern
+        SELECT '%' || REPLACE(REPLACE(REPLACE(TRIM(p_query), '\', '\\'), '%', '\%'), '_', '\_') || '%' AS pattern
+    ),
+    listings AS (
+        SELECT
+            (ARRAY_AGG(p.sku ORDER BY p.name, p.sku))[1] AS sku,
+            COALESCE(MIN(p.style_name), MIN(p.name)) AS name,
+            MIN(p.category) AS category,
+            MIN(p.price) AS min_price,
+            MAX(p.price) AS max_price,
+            BOOL_OR(p.in_stock) AS in_stock,
+            MAX(p.created_at) AS created_at
+        FROM priced p, search
+        WHERE (p_tenant_id IS NULL OR p.tenant_id = p_tenant_id)
+          AND (
+              COALESCE(TRIM(p_query), '') = ''
+              OR p.name ILIKE search.pattern
+              OR p.sku ILIKE search.pattern
+              OR p.style_name ILIKE search.pattern
+          )
+          AND (p_category IS NULL OR p.category = p_category)
+          AND (p_min_price IS NULL OR p.price >= p_min_price)
+          AND (p_max_price IS NULL OR p.price <= p_max_price)
+        GROUP BY COALESCE(p.style_id, p.id)
+    )
+    SELECT l.sku, l.name, l.category, l.min_price, l.max_price, l.in_stock,
+           COUNT(*) OVER () AS total_count
+    FROM listings l
+    ORDER BY
+        CASE WHEN p_sort = 'price_asc' THEN l.min_price END ASC,
+        CASE WHEN p_sort = 'price_desc' THEN l.min_price END DESC,
+        CASE WHEN p_sort = 'newest' THEN l.created_at END DESC,
+        l.name,
+        l.sku
+    LIMIT LEAST(GREATEST(p_limit, 1), 100)
+    OFFSET GREATEST(p_offset, 0);
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Categories with products on sale, for the storefront's category filter
+CREATE OR REPLACE FUNCTION public.get_product_categories(p_tenant_id UUID DEFAULT NULL)
+RETURNS SETOF TEXT AS $$
+    SELECT DISTINCT pp.category
+    FROM public.public_products pp
+    WHERE pp.category IS NOT NULL
+      AND (p_tenant_id IS NULL OR pp.tenant_id = p_tenant_id)
+    ORDER BY pp.category;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.search_product_listings(UUID, TEXT, TEXT, TEXT, NUMERIC, NUMERIC, TEXT, INTEGER, INTEGER) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_product_categories(UUID) TO anon, authenticated;
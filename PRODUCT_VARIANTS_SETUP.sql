@@ -0,0 +1,418 @@
+-- Product variants
+-- A product style (e.g. SWEATER MOKA) groups the products that only differ in
+-- color or size. Each variant keeps its own product row, SKU and coupons, but
+-- a shopper's attempts are counted per style, across all of its variants. The
+-- variant's price follows the style price unless it has its own
+-- price_override. Offer logs record the style, color and size of the variant
+-- that was negotiated.
+-- Run after PRODUCT_CATALOG_SETUP.sql.
+--
+-- Group existing one-SKU-per-color products into a style, for example:
+--   INSERT INTO public.product_styles (code, name, description, price)
+--   VALUES ('MOKA', 'SWEATER MOKA', 'Sweater Escote redondo de punto Jersey.', 89990);
+--
+--   UPDATE public.products p
+--   SET style_id = s.id,
+--       color = v.color
+--   FROM public.product_styles s,
+--        (VALUES ('5210NE', 'NEGRO'), ('5210AM', 'AMARILLO'), ('5210HA', 'HABANO')) AS v(sku, color)
+--   WHERE s.code = 'MOKA' AND p.sku = v.sku;
+
+-- Create product styles table (the parent of a group of variants)
+CREATE TABLE IF NOT EXISTS public.product_styles (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    code VARCHAR(50) UNIQUE NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    price DECIMAL(10,2) NOT NULL CHECK (price > 0), -- Price of variants without an override
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER trigger_product_styles_updated_at
+    BEFORE UPDATE ON public.product_styles
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.product_styles ENABLE ROW LEVEL SECURITY;
+
+-- Shoppers see styles through public_products; staff read and managers edit them
+CREATE POLICY "Allow staff read access on product_styles"
+    ON public.product_styles FOR SELECT
+    TO authenticated
+    USING (public.has_staff_role(ARRAY['owner', 'store_manager', 'cashier']));
+
+CREATE POLICY "Allow managers to insert product_styles"
+    ON public.product_styles FOR INSERT
+    TO authenticated
+    WITH CHECK (public.has_staff_role(ARRAY['owner', 'store_manager']));
+
+CREATE POLICY "Allow managers to update product_styles"
+    ON public.product_styles FOR UPDATE
+    TO authenticated
+    USING (public.has_staff_role(ARRAY['owner', 'store_manager']))
+    WITH CHECK (public.has_staff_role(ARRAY['owner', 'store_manager']));
+
+REVOKE ALL ON public.product_styles FROM anon;
+GRANT SELECT, INSERT, UPDATE ON public.product_styles TO authenticated;
+
+-- Variant attributes on products
+ALTER TABLE public.products
+    ADD COLUMN IF NOT EXISTS style_id UUID REFERENCES public.product_styles(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS color VARCHAR(50),
+    ADD COLUMN IF NOT EXISTS size VARCHAR(20),
+    ADD COLUMN IF NOT EXISTS price_override DECIMAL(10,2) CHECK (price_override > 0); -- NULL to use the style price
+
+CREATE INDEX IF NOT EXISTS idx_products_style_id ON public.products(style_id);
+
+-- Keep a variant's price in sync with its style, so the negotiation engine and
+-- offer logs keep reading products.price. Editing a variant's price directly
+-- (e.g. from the admin Products tab) sets its override.
+CREATE OR REPLACE FUNCTION public.handle_variant_price()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE'
+       AND pg_trigger_depth() = 1
+       AND NEW.style_id IS NOT NULL
+       AND NEW.style_id IS NOT DISTINCT FROM OLD.style_id
+       AND NEW.price IS DISTINCT FROM OLD.price
+       AND NEW.price_override IS NOT DISTINCT FROM OLD.price_override THEN
+        NEW.price_override := NEW.price;
+    END IF;
+
+    IF NEW.style_id IS NOT NULL THEN
+        SELECT COALESCE(NEW.price_override, s.price) INTO NEW.price
+        FROM public.product_styles s
+        WHERE s.id = NEW.style_id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_products_variant_price ON public.products;
+CREATE TRIGGER trigger_products_variant_price
+    BEFORE INSERT OR UPDATE ON public.products
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_variant_price();
+
+-- Reprice variants without an override when the style price changes
+CREATE OR REPLACE FUNCTION public.handle_style_price()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.price IS DISTINCT FROM OLD.price THEN
+        UPDATE public.products
+        SET price = NEW.price
+        WHERE style_id = NEW.id AND price_override IS NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_product_styles_price ON public.product_styles;
+CREATE TRIGGER trigger_product_styles_price
+    AFTER UPDATE ON public.product_styles
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_style_price();
+
+-- Expose the style and variant attributes to shoppers
+CREATE OR REPLACE VIEW public.public_products AS
+SELECT
+    p.id,
+    p.sku,
+    p.name,
+    p.description,
+    p.price,
+    p.image,
+    p.created_at,
+    p.updated_at,
+    public.resolve_attempt_budget(p) AS attempt_budget,
+    public.resolve_coupon_ttl_minutes(p) AS coupon_ttl_minutes,
+    p.consolation_discount_percentage,
+    p.style_id,
+    s.code AS style_code,
+    s.name AS style_name,
+    p.color,
+    p.size
+FROM public.products p
+LEFT JOIN public.product_styles s ON s.id = p.style_id
+WHERE p.archived_at IS NULL;
+
+-- Record which variant each offer was made on
+ALTER TABLE public.offer_logs
+    ADD COLUMN IF NOT EXISTS product_style_code VARCHAR(50),
+    ADD COLUMN IF NOT EXISTS variant_color VARCHAR(50),
+    ADD COLUMN IF NOT EXISTS variant_size VARCHAR(20);
+
+GRANT SELECT (product_style_code, variant_color, variant_size) ON public.offer_logs TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.handle_offer_log_variant()
+RETURNS TRIGGER AS $$
+BEGIN
+    SELECT s.code, p.color, p.size
+    INTO NEW.product_style_code, NEW.variant_color, NEW.variant_size
+    FROM public.products p
+    LEFT JOIN public.product_styles s ON s.id = p.style_id
+    WHERE p.sku = NEW.product_sku;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_offer_logs_variant ON public.offer_logs;
+CREATE TRIGGER trigger_offer_logs_variant
+    BEFORE INSERT ON public.offer_logs
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_offer_log_variant();
+
+-- Offers on any variant of a style share one negotiation: attempts, counters
+-- and the consolation offer count across its colors and sizes, so switching
+-- variant doesn't give a shopper new attempts. Style code of a product, NULL
+-- when it has no style.
+CREATE OR REPLACE FUNCTION public.negotiation_style_code(p_product public.products)
+RETURNS VARCHAR AS $$
+    SELECT code FROM public.product_styles WHERE id = p_product.style_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Submit an offer for a product on behalf of a shopper session
+CREATE OR REPLACE FUNCTION public.submit_offer(
+    p_product_sku TEXT,
+    p_session_id TEXT,
+    p_offered_amount DECIMAL
+)
+RETURNS public.offer_logs AS $$
+DECLARE
+    v_product public.products%ROWTYPE;
+    v_style_code VARCHAR;
+    v_last_offer public.offer_logs%ROWTYPE;
+    v_attempts INTEGER;
+    v_is_accepted BOOLEAN;
+    v_status TEXT;
+    v_counter_amount DECIMAL;
+    v_offer public.offer_logs%ROWTYPE;
+BEGIN
+    PERFORM public.assert_shopper_session(p_session_id);
+
+    IF p_offered_amount IS NULL OR p_offered_amount < 0 THEN
+        RAISE EXCEPTION 'invalid_offer_amount';
+    END IF;
+
+    SELECT * INTO v_product FROM public.products WHERE sku = p_product_sku AND archived_at IS NULL;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'product_not_found';
+    END IF;
+
+    -- Variants of a style share one negotiation
+    v_style_code := public.negotiation_style_code(v_product);
+
+    -- Serialize concurrent offers from the same session on the same product or style
+    PERFORM pg_advisory_xact_lock(hashtext(p_session_id || ':' || COALESCE(v_style_code, p_product_sku)));
+
+    v_attempts := public.resolve_attempt_budget(v_product);
+
+    SELECT * INTO v_last_offer
+    FROM public.offer_logs
+    WHERE session_id = p_session_id AND (product_sku = p_product_sku OR product_style_code = v_style_code)
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    -- An accepted offer starts a fresh negotiation for the product or style
+    IF FOUND AND v_last_offer.offer_status <> 'accepted' THEN
+        v_attempts := v_last_offer.attempts_remaining;
+    END IF;
+
+    IF v_attempts <= 0 THEN
+        RAISE EXCEPTION 'no_attempts_remaining';
+    END IF;
+
+    v_is_accepted := public.evaluate_offer(v_product, p_offered_amount);
+
+    -- Counter while the shopper can still negotiate, reject on the last attempt
+    -- and offers too low to counter
+    IF NOT v_is_accepted AND v_attempts - 1 > 0 THEN
+        v_counter_amount := public.compute_counter_offer(v_product, p_offered_amount);
+    END IF;
+
+    v_status := CASE
+        WHEN v_is_accepted THEN 'accepted'
+        WHEN v_counter_amount IS NOT NULL THEN 'countered'
+        ELSE 'rejected'
+    END;
+
+    INSERT INTO public.offer_logs (
+        session_id,
+        product_sku,
+        product_name,
+        product_price,
+        product_max_discount_percentage,
+        offered_amount,
+        offer_status,
+        attempts_remaining,
+        acceptance_code,
+        counter_amount,
+        coupon_status,
+        expires_at
+    ) VALUES (
+        p_session_id,
+        v_product.sku,
+        v_product.name,
+        v_product.price,
+        v_product.max_discount_percentage,
+        p_offered_amount,
+        v_status,
+        CASE WHEN v_is_accepted THEN v_attempts ELSE v_attempts - 1 END,
+        CASE WHEN v_is_accepted THEN public.generate_acceptance_code() ELSE NULL END,
+        v_counter_amount,
+        CASE WHEN v_is_accepted THEN 'active' ELSE NULL END,
+        CASE WHEN v_is_accepted THEN public.coupon_expires_at(v_product) ELSE NULL END
+    )
+    RETURNING * INTO v_offer;
+
+    RETURN public.shopper_offer_log(v_offer);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Accept the store's counter price. Only the most recent offer of the session
+-- for that product or style can be accepted, so a newer offer on any of its
+-- variants supersedes the counter.
+CREATE OR REPLACE FUNCTION public.accept_counter_offer(
+    p_offer_id UUID,
+    p_session_id TEXT
+)
+RETURNS public.offer_logs AS $$
+DECLARE
+    v_countered public.offer_logs%ROWTYPE;
+    v_product public.products%ROWTYPE;
+    v_latest_id UUID;
+    v_offer public.offer_logs%ROWTYPE;
+BEGIN
+    PERFORM public.assert_shopper_session(p_session_id);
+
+    SELECT * INTO v_countered
+    FROM public.offer_logs
+    WHERE id = p_offer_id AND session_id = p_session_id AND offer_status = 'countered';
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'counter_offer_not_found';
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext(p_session_id || ':' || COALESCE(v_countered.product_style_code, v_countered.product_sku)));
+
+    SELECT id INTO v_latest_id
+    FROM public.offer_logs
+    WHERE session_id = p_session_id
+      AND (product_sku = v_countered.product_sku OR product_style_code = v_countered.product_style_code)
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    IF v_latest_id <> v_countered.id THEN
+        RAISE EXCEPTION 'counter_offer_unavailable';
+    END IF;
+
+    SELECT * INTO v_product FROM public.products WHERE sku = v_countered.product_sku;
+
+    -- The strategy's floor can move with the time of day or stock, so the
+    -- counter must still clear it
+    IF v_countered.counter_amount < public.negotiation_floor_price(v_product) THEN
+        RAISE EXCEPTION 'counter_offer_unavailable';
+    END IF;
+
+    INSERT INTO public.offer_logs (
+        session_id,
+        product_sku,
+        product_name,
+        product_price,
+        product_max_discount_percentage,
+        offered_amount,
+        offer_status,
+        attempts_remaining,
+        acceptance_code,
+        coupon_status,
+        expires_at
+    ) VALUES (
+        v_countered.session_id,
+        v_countered.product_sku,
+        v_countered.product_name,
+        v_countered.product_price,
+        v_countered.product_max_discount_percentage,
+        v_countered.counter_amount,
+        'accepted',
+        v_countered.attempts_remaining,
+        public.generate_acceptance_code(),
+        'active',
+        public.coupon_expires_at(v_product)
+    )
+    RETURNING * INTO v_offer;
+
+    RETURN public.shopper_offer_log(v_offer);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Accept the consolation discount once the shopper's attempts are used up
+CREATE OR REPLACE FUNCTION public.accept_consolation_offer(
+    p_product_sku TEXT,
+    p_session_id TEXT
+)
+RETURNS public.offer_logs AS $$
+DECLARE
+    v_product public.products%ROWTYPE;
+    v_style_code VARCHAR;
+    v_last_offer public.offer_logs%ROWTYPE;
+    v_offer public.offer_logs%ROWTYPE;
+BEGIN
+    PERFORM public.assert_shopper_session(p_session_id);
+
+    SELECT * INTO v_product FROM public.products WHERE sku = p_product_sku AND archived_at IS NULL;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'product_not_found';
+    END IF;
+
+    -- Attempts run out for the whole style, so any of its variants qualifies
+    v_style_code := public.negotiation_style_code(v_product);
+
+    -- Serialize with submit_offer() for the same session and product or style
+    PERFORM pg_advisory_xact_lock(hashtext(p_session_id || ':' || COALESCE(v_style_code, p_product_sku)));
+
+    SELECT * INTO v_last_offer
+    FROM public.offer_logs
+    WHERE session_id = p_session_id AND (product_sku = p_product_sku OR product_style_code = v_style_code)
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    -- Only available right after the final attempt was rejected
+    IF NOT FOUND OR v_last_offer.offer_status <> 'rejected' OR v_last_offer.attempts_remaining > 0 THEN
+        RAISE EXCEPTION 'consolation_offer_unavailable';
+    END IF;
+
+    INSERT INTO public.offer_logs (
+        session_id,
+        product_sku,
+        product_name,
+        product_price,
+        product_max_discount_percentage,
+        offered_amount,
+        offer_status,
+        offer_type,
+        attempts_remaining,
+        acceptance_code,
+        coupon_status,
+        expires_at
+    ) VALUES (
+        p_session_id,
+        v_product.sku,
+        v_product.name,
+        v_product.price,
+        v_product.max_discount_percentage,
+        ROUND(public.price_after_discount(v_product.price, v_product.consolation_discount_percentage)),
+        'accepted',
+        'consolation',
+        0,
+        public.generate_acceptance_code(),
+        'active',
+        public.coupon_expires_at(v_product)
+    )
+    RETURNING * INTO v_offer;
+
+    RETURN public.shopper_offer_log(v_offer);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,31 @@
+-- Public product projection
+-- Shoppers read products through the public_products view, which leaves out
+-- pricing rules such as max_discount_percentage. The products table itself is
+-- only readable by authenticated staff and by submit_offer().
+-- Run after NEGOTIATION_SETUP.sql.
+
+-- Create the shopper-facing view (runs with the owner's privileges)
+CREATE OR REPLACE VIEW public.public_products AS
+SELECT
+    id,
+    sku,
+    name,
+    description,
+    price,
+    image,
+    created_at,
+    updated_at
+FROM public.products;
+
+-- Stop exposing the full products table to anonymous shoppers
+DROP POLICY IF EXISTS "Allow public read access on products" ON public.products;
+REVOKE SELECT ON public.products FROM anon;
+
+CREATE POLICY "Allow authenticated read access on products"
+    ON public.products FOR SELECT
+    TO authenticated
+    USING (true);
+
+-- Grant read access on the public view
+GRANT SELECT ON public.public_products TO anon;
+GRANT SELECT ON public.public_products TO authenticated;
@@ -0,0 +1,48 @@
+-- Coupon redemption at the till
+-- Cashiers look up a coupon by its acceptance code and redeem it in one step.
+-- redeem_coupon() checks the coupon under a row lock so the same code can't
+-- be redeemed twice, and reports why a code can't be used.
+-- Run after CONSOLATION_OFFER_SETUP.sql.
+
+CREATE INDEX IF NOT EXISTS idx_offer_logs_acceptance_code ON public.offer_logs(acceptance_code);
+
+-- Redeem the coupon with the given acceptance code
+CREATE OR REPLACE FUNCTION public.redeem_coupon(p_acceptance_code TEXT)
+RETURNS public.offer_logs AS $$
+DECLARE
+    v_coupon public.offer_logs%ROWTYPE;
+BEGIN
+    SELECT * INTO v_coupon
+    FROM public.offer_logs
+    WHERE acceptance_code = UPPER(TRIM(p_acceptance_code)) AND offer_status = 'accepted'
+    ORDER BY created_at DESC
+    LIMIT 1
+    FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'coupon_not_found';
+    END IF;
+
+    IF v_coupon.coupon_status = 'redeemed' OR v_coupon.is_redeemed THEN
+        RAISE EXCEPTION 'coupon_already_redeemed';
+    END IF;
+
+    IF v_coupon.coupon_status = 'cancelled' THEN
+        RAISE EXCEPTION 'coupon_cancelled';
+    END IF;
+
+    IF v_coupon.coupon_status = 'expired' OR v_coupon.expires_at <= NOW() THEN
+        RAISE EXCEPTION 'coupon_expired';
+    END IF;
+
+    UPDATE public.offer_logs
+    SET is_redeemed = TRUE
+    WHERE id = v_coupon.id
+    RETURNING * INTO v_coupon;
+
+    RETURN v_coupon;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.redeem_coupon(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.redeem_coupon(TEXT) TO anon;
+GRANT EXECUTE ON FUNCTION public.redeem_coupon(TEXT) TO authenticated;
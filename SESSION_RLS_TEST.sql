@@ -0,0 +1,312 @@
+-- Session isolation checks
+-- Proves one shopper can't read, change or act on another shopper's offer
+-- logs, that shoppers only get a store's prices after entering it with a
+-- signed QR code and keep that store when signing in, that tenants sharing
+-- an SKU and store code keep their offers, campaigns and coupon token keys
+-- apart, that categories' pricing defaults stay with staff, and that
+-- signed-out visitors can't reach offer logs at all.
+-- Everything runs in a transaction that is rolled back, so no data is left
+-- behind.
+-- Run after PRODUCT_CATEGORIES_SETUP.sql, from the SQL Editor or with
+--   psql "$DATABASE_URL" -v ON_ERROR_STOP=1 -f SESSION_RLS_TEST.sql
+-- A failed check raises an exception starting with FAILED.
+
+BEGIN;
+
+INSERT INTO public.products (sku, name, description, price, image, max_discount_percentage, tenant_id)
+SELECT 'RLS-TEST', 'RLS test product', 'Session isolation test', 10000, '', 20, id
+FROM public.tenants WHERE slug = 'shuq';
+
+INSERT INTO public.stores (code, name, tenant_id)
+SELECT 'rls-test', 'RLS test store', id
+FROM public.tenants WHERE slug = 'shuq';
+
+SELECT set_config('rls_test.tenant_id', id::TEXT, true) FROM public.tenants WHERE slug = 'shuq';
+SELECT set_config('rls_test.store_signature', public.product_qr_signature('shuq', 'rls-test', 'RLS-TEST'), true);
+
+-- Shopper A: one countered offer, then one accepted offer
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-4000-a000-00000000000a", "role": "authenticated"}', true);
+SET LOCAL ROLE authenticated;
+
+SELECT set_config('rls_test.countered_id', (public.submit_offer(current_setting('rls_test.tenant_id')::UUID, 'RLS-TEST', '00000000-0000-4000-a000-00000000000a', 7000)).id::TEXT, true);
+SELECT set_config('rls_test.acceptance_code', (public.submit_offer(current_setting('rls_test.tenant_id')::UUID, 'RLS-TEST', '00000000-0000-4000-a000-00000000000a', 10000)).acceptance_code, true);
+
+DO $$
+DECLARE
+    v_count INTEGER;
+BEGIN
+    SELECT count(*) INTO v_count FROM public.offer_logs;
+    IF v_count <> 2 THEN
+        RAISE EXCEPTION 'FAILED: shopper A should see exactly their 2 offer logs, saw %', v_count;
+    END IF;
+
+    -- Discount ceilings stay server-side
+    BEGIN
+        PERFORM product_max_discount_percentage FROM public.offer_logs;
+        RAISE EXCEPTION 'FAILED: shopper A can read the discount ceiling of their offer logs';
+    EXCEPTION WHEN insufficient_privilege THEN
+        NULL;
+    END;
+
+    IF (public.submit_offer(current_setting('rls_test.tenant_id')::UUID, 'RLS-TEST', '00000000-0000-4000-a000-00000000000a', 10000)).product_max_discount_percentage IS NOT NULL THEN
+        RAISE EXCEPTION 'FAILED: submit_offer() returned the discount ceiling';
+    END IF;
+END $$;
+
+RESET ROLE;
+
+-- A coupon from a pre-auth localStorage session that isn't shopper B's
+INSERT INTO public.offer_logs (session_id, product_sku, product_name, product_price, product_max_discount_percentage, offered_amount, offer_status, acceptance_code, coupon_status, expires_at)
+VALUES ('session_1700000000000_legacy', 'RLS-TEST', 'RLS test product', 10000, 20, 10000, 'accepted', 'RLSLEGACY', 'active', NOW() + INTERVAL '30 minutes');
+
+-- Shopper B tries to reach shopper A's offers
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-4000-b000-00000000000b", "role": "authenticated"}', true);
+SET LOCAL ROLE authenticated;
+
+DO $$
+DECLARE
+    v_count INTEGER;
+BEGIN
+    SELECT count(*) INTO v_count FROM public.offer_logs;
+    IF v_count <> 0 THEN
+        RAISE EXCEPTION 'FAILED: shopper B can read % of shopper A''s offer logs', v_count;
+    END IF;
+
+    UPDATE public.offer_logs SET is_redeemed = TRUE
+    WHERE session_id = '00000000-0000-4000-a000-00000000000a';
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    IF v_count <> 0 THEN
+        RAISE EXCEPTION 'FAILED: shopper B updated % of shopper A''s offer logs', v_count;
+    END IF;
+
+    BEGIN
+        PERFORM public.submit_offer(current_setting('rls_test.tenant_id')::UUID, 'RLS-TEST', '00000000-0000-4000-a000-00000000000a', 10000);
+        RAISE EXCEPTION 'FAILED: shopper B submitted an offer for shopper A';
+    EXCEPTION WHEN OTHERS THEN
+        IF SQLERRM <> 'session_mismatch' THEN RAISE; END IF;
+    END;
+
+    BEGIN
+        PERFORM public.accept_counter_offer(current_setting('rls_test.countered_id')::UUID, '00000000-0000-4000-a000-00000000000a');
+        RAISE EXCEPTION 'FAILED: shopper B accepted shopper A''s counter-offer';
+    EXCEPTION WHEN OTHERS THEN
+        IF SQLERRM <> 'session_mismatch' THEN RAISE; END IF;
+    END;
+
+    BEGIN
+        PERFORM public.accept_counter_offer(current_setting('rls_test.countered_id')::UUID, '00000000-0000-4000-b000-00000000000b');
+        RAISE EXCEPTION 'FAILED: shopper B accepted shopper A''s counter-offer as their own';
+    EXCEPTION WHEN OTHERS THEN
+        IF SQLERRM <> 'counter_offer_not_found' THEN RAISE; END IF;
+    END;
+
+    BEGIN
+        PERFORM public.accept_consolation_offer(current_setting('rls_test.tenant_id')::UUID, 'RLS-TEST', '00000000-0000-4000-a000-00000000000a');
+        RAISE EXCEPTION 'FAILED: shopper B took a consolation offer for shopper A';
+    EXCEPTION WHEN OTHERS THEN
+        IF SQLERRM <> 'session_mismatch' THEN RAISE; END IF;
+    END;
+
+    BEGIN
+        PERFORM public.expire_coupons();
+        RAISE EXCEPTION 'FAILED: shopper B ran expire_coupons()';
+    EXCEPTION WHEN insufficient_privilege THEN
+        NULL;
+    END;
+
+    BEGIN
+        PERFORM public.claim_legacy_session('session_1700000000000_legacy');
+        RAISE EXCEPTION 'FAILED: shopper B claimed a legacy session that isn''t theirs';
+    EXCEPTION WHEN undefined_function THEN
+        NULL;
+    END;
+
+    UPDATE public.offer_logs SET session_id = auth.uid()::TEXT
+    WHERE session_id = 'session_1700000000000_legacy';
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    IF v_count <> 0 THEN
+        RAISE EXCEPTION 'FAILED: shopper B moved % offer logs of a legacy session to their own', v_count;
+    END IF;
+
+    BEGIN
+        PERFORM public.submit_offer(current_setting('rls_test.tenant_id')::UUID, 'RLS-TEST', 'session_1700000000000_legacy', 10000);
+        RAISE EXCEPTION 'FAILED: shopper B submitted an offer for a legacy session';
+    EXCEPTION WHEN OTHERS THEN
+        IF SQLERRM <> 'session_mismatch' THEN RAISE; END IF;
+    END;
+
+    -- Store prices need the store's signed QR code
+    BEGIN
+        PERFORM public.submit_offer(current_setting('rls_test.tenant_id')::UUID, 'RLS-TEST', '00000000-0000-4000-b000-00000000000b', 10000, 'rls-test');
+        RAISE EXCEPTION 'FAILED: shopper B got store prices without entering the store';
+    EXCEPTION WHEN OTHERS THEN
+        IF SQLERRM <> 'store_not_found' THEN RAISE; END IF;
+    END;
+
+    IF public.enter_store('shuq', 'rls-test', 'RLS-TEST', '00000000000000000000000000000000') IS NOT NULL THEN
+        RAISE EXCEPTION 'FAILED: shopper B entered a store with a forged QR code';
+    END IF;
+
+    IF public.enter_store('shuq', 'rls-test', 'RLS-TEST', current_setting('rls_test.store_signature')) IS DISTINCT FROM 'rls-test' THEN
+        RAISE EXCEPTION 'FAILED: shopper B could not enter a store with its signed QR code';
+    END IF;
+
+    IF (public.submit_offer(current_setting('rls_test.tenant_id')::UUID, 'RLS-TEST', '00000000-0000-4000-b000-00000000000b', 10000, 'rls-test')).store_id IS NULL THEN
+        RAISE EXCEPTION 'FAILED: shopper B''s offer in the store they entered has no store';
+    END IF;
+
+    SELECT count(*) INTO v_count FROM public.categories;
+    IF v_count <> 0 THEN
+        RAISE EXCEPTION 'FAILED: shopper B can read the pricing defaults of % categories', v_count;
+    END IF;
+
+    BEGIN
+        PERFORM public.redeem_coupon(current_setting('rls_test.acceptance_code'));
+        RAISE EXCEPTION 'FAILED: shopper B redeemed shopper A''s coupon';
+    EXCEPTION WHEN OTHERS THEN
+        IF SQLERRM <> 'not_authorized' THEN RAISE; END IF;
+    END;
+END $$;
+
+RESET ROLE;
+
+-- Shopper C enters the store anonymously, then signs in
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-4000-c000-00000000000c", "role": "authenticated", "is_anonymous": true}', true);
+SET LOCAL ROLE authenticated;
+
+SELECT public.enter_store('shuq', 'rls-test', 'RLS-TEST', current_setting('rls_test.store_signature'));
+SELECT set_config('rls_test.claim_token', public.create_session_claim(), true);
+
+RESET ROLE;
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-4000-d000-00000000000d", "role": "authenticated", "is_anonymous": false}', true);
+SET LOCAL ROLE authenticated;
+
+DO $$
+BEGIN
+    PERFORM public.claim_session(current_setting('rls_test.claim_token'));
+
+    IF public.current_store_code((SELECT id FROM public.tenants WHERE slug = 'shuq')) IS DISTINCT FROM 'rls-test' THEN
+        RAISE EXCEPTION 'FAILED: shopper C left the store they entered when signing in';
+    END IF;
+
+    IF (public.submit_offer(current_setting('rls_test.tenant_id')::UUID, 'RLS-TEST', '00000000-0000-4000-d000-00000000000d', 10000, 'rls-test')).store_id IS NULL THEN
+        RAISE EXCEPTION 'FAILED: shopper C''s offer after signing in has no store';
+    END IF;
+END $$;
+
+RESET ROLE;
+
+-- Another tenant can use the same SKU and store code, and its offers,
+-- campaigns and coupon token key stay apart
+INSERT INTO public.tenants (slug, name) VALUES ('rls-other', 'RLS other tenant');
+
+INSERT INTO public.products (sku, name, description, price, image, max_discount_percentage, tenant_id)
+SELECT 'RLS-TEST', 'RLS other product', 'Session isolation test', 5000, '', 20, id
+FROM public.tenants WHERE slug = 'rls-other';
+
+INSERT INTO public.stores (code, name, tenant_id)
+SELECT 'rls-test', 'RLS other store', id
+FROM public.tenants WHERE slug = 'rls-other';
+
+INSERT INTO public.campaigns (name, max_attempts, tenant_id)
+SELECT 'RLS test campaign', 1, id
+FROM public.tenants WHERE slug = 'rls-other';
+
+DO $$
+DECLARE
+    v_other_id UUID := (SELECT id FROM public.tenants WHERE slug = 'rls-other');
+BEGIN
+    IF (SELECT public.resolve_attempt_budget(p) FROM public.products p
+        WHERE sku = 'RLS-TEST' AND tenant_id = current_setting('rls_test.tenant_id')::UUID) = 1 THEN
+        RAISE EXCEPTION 'FAILED: another tenant''s campaign set the attempt budget';
+    END IF;
+
+    IF (SELECT public.resolve_attempt_budget(p) FROM public.products p
+        WHERE sku = 'RLS-TEST' AND tenant_id = v_other_id) <> 1 THEN
+        RAISE EXCEPTION 'FAILED: the tenant''s campaign didn''t set the attempt budget';
+    END IF;
+
+    IF (SELECT value FROM private.coupon_token_keys WHERE tenant_id = v_other_id)
+        = (SELECT value FROM private.coupon_token_keys WHERE tenant_id = current_setting('rls_test.tenant_id')::UUID) THEN
+        RAISE EXCEPTION 'FAILED: tenants share a coupon token key';
+    END IF;
+END $$;
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-4000-a000-00000000000a", "role": "authenticated"}', true);
+SET LOCAL ROLE authenticated;
+
+DO $$
+DECLARE
+    v_offer public.offer_logs%ROWTYPE;
+BEGIN
+    v_offer := public.submit_offer(
+        (SELECT id FROM public.tenants WHERE slug = 'rls-other'),
+        'RLS-TEST',
+        '00000000-0000-4000-a000-00000000000a',
+        5000
+    );
+
+    IF v_offer.tenant_id IS DISTINCT FROM (SELECT id FROM public.tenants WHERE slug = 'rls-other')
+        OR v_offer.product_price <> 5000 THEN
+        RAISE EXCEPTION 'FAILED: the offer went to the other tenant''s product';
+    END IF;
+END $$;
+
+RESET ROLE;
+
+-- Signed-out visitors get nothing
+SELECT set_config('request.jwt.claims', '{"role": "anon"}', true);
+SET LOCAL ROLE anon;
+
+DO $$
+BEGIN
+    BEGIN
+        PERFORM count(*) FROM public.offer_logs;
+        RAISE EXCEPTION 'FAILED: anon can read offer logs';
+    EXCEPTION WHEN insufficient_privilege THEN
+        NULL;
+    END;
+
+    BEGIN
+        PERFORM public.submit_offer(current_setting('rls_test.tenant_id')::UUID, 'RLS-TEST', '00000000-0000-4000-a000-00000000000a', 10000);
+        RAISE EXCEPTION 'FAILED: anon submitted an offer';
+    EXCEPTION WHEN insufficient_privilege THEN
+        NULL;
+    END;
+
+    BEGIN
+        PERFORM default_max_discount_percentage FROM public.categories;
+        RAISE EXCEPTION 'FAILED: anon can read categories'' discount defaults';
+    EXCEPTION WHEN insufficient_privilege THEN
+        NULL;
+    END;
+
+    IF NOT EXISTS (SELECT 1 FROM public.public_categories) THEN
+        RAISE EXCEPTION 'FAILED: anon can''t browse active categories';
+    END IF;
+END $$;
+
+RESET ROLE;
+
+-- Shopper A's and the legacy session's offers are untouched
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM public.offer_logs
+        WHERE session_id = '00000000-0000-4000-a000-00000000000a' AND is_redeemed
+    ) THEN
+        RAISE EXCEPTION 'FAILED: shopper A''s coupon was redeemed by someone else';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.offer_logs
+        WHERE session_id = 'session_1700000000000_legacy' AND acceptance_code = 'RLSLEGACY'
+    ) THEN
+        RAISE EXCEPTION 'FAILED: the legacy session''s coupon was taken over';
+    END IF;
+END $$;
+
+SELECT 'All session isolation checks passed' AS result;
+
+ROLLBACK;
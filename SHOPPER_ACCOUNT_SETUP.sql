@@ -0,0 +1,72 @@
+-- Shopper accounts
+-- Shoppers can sign in with an email code to keep their coupons across
+-- devices. Before signing in, the anonymous session asks for a one-time claim
+-- token; once signed in, claim_session() moves that session's offer logs to
+-- the account. Enable the Email provider and add {{ .Token }} to the Magic
+-- Link email template. Run after SHOPPER_SESSION_SETUP.sql.
+
+-- Create session claims table (server-side only, tokens are stored hashed)
+CREATE TABLE IF NOT EXISTS private.session_claims (
+    token_hash TEXT PRIMARY KEY,
+    session_id TEXT NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW() + INTERVAL '1 hour',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+REVOKE ALL ON private.session_claims FROM PUBLIC;
+
+-- Issue a claim token for the caller's current session
+CREATE OR REPLACE FUNCTION public.create_session_claim()
+RETURNS TEXT AS $$
+DECLARE
+    v_token TEXT;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'session_mismatch';
+    END IF;
+
+    -- Drop claims nobody used in time
+    DELETE FROM private.session_claims WHERE expires_at <= NOW();
+
+    v_token := encode(extensions.gen_random_bytes(24), 'hex');
+
+    INSERT INTO private.session_claims (token_hash, session_id)
+    VALUES (encode(extensions.digest(v_token, 'sha256'), 'hex'), auth.uid()::TEXT);
+
+    RETURN v_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Move the offer logs of a claimed session to the signed-in account
+CREATE OR REPLACE FUNCTION public.claim_session(p_token TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+    v_session_id TEXT;
+    v_count INTEGER;
+BEGIN
+    IF auth.uid() IS NULL OR COALESCE((auth.jwt() ->> 'is_anonymous')::BOOLEAN, FALSE) THEN
+        RAISE EXCEPTION 'account_required';
+    END IF;
+
+    DELETE FROM private.session_claims
+    WHERE token_hash = encode(extensions.digest(p_token, 'sha256'), 'hex')
+      AND expires_at > NOW()
+    RETURNING session_id INTO v_session_id;
+
+    IF v_session_id IS NULL THEN
+        RAISE EXCEPTION 'session_claim_invalid';
+    END IF;
+
+    UPDATE public.offer_logs
+    SET session_id = auth.uid()::TEXT
+    WHERE session_id = v_session_id;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.create_session_claim() FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.claim_session(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.create_session_claim() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_session(TEXT) TO authenticated;
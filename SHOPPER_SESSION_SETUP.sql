@@ -0,0 +1,268 @@
+-- Shopper sessions
+-- Shoppers get an anonymous Supabase Auth user and their offer logs are keyed
+-- by its id, so RLS can limit each shopper to their own rows. The offer
+-- functions refuse to act for any session but the caller's.
+-- Enable anonymous sign-ins first (Authentication > Sign In / Providers).
+-- Run after STAFF_AUTH_SETUP.sql.
+
+-- Make sure the caller owns the shopper session an offer function acts for
+CREATE OR REPLACE FUNCTION public.assert_shopper_session(p_session_id TEXT)
+RETURNS VOID AS $$
+BEGIN
+    IF auth.uid() IS NULL OR p_session_id IS DISTINCT FROM auth.uid()::TEXT THEN
+        RAISE EXCEPTION 'session_mismatch';
+    END IF;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Submit an offer for a product on behalf of a shopper session
+CREATE OR REPLACE FUNCTION public.submit_offer(
+    p_product_sku TEXT,
+    p_session_id TEXT,
+    p_offered_amount DECIMAL
+)
+RETURNS public.offer_logs AS $$
+DECLARE
+    v_product public.products%ROWTYPE;
+    v_last_offer public.offer_logs%ROWTYPE;
+    v_attempts INTEGER;
+    v_is_accepted BOOLEAN;
+    v_status TEXT;
+    v_counter_amount DECIMAL;
+    v_offer public.offer_logs%ROWTYPE;
+BEGIN
+    PERFORM public.assert_shopper_session(p_session_id);
+
+    IF p_offered_amount IS NULL OR p_offered_amount < 0 THEN
+        RAISE EXCEPTION 'invalid_offer_amount';
+    END IF;
+
+    SELECT * INTO v_product FROM public.products WHERE sku = p_product_sku;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'product_not_found';
+    END IF;
+
+    -- Serialize concurrent offers from the same session on the same product
+    PERFORM pg_advisory_xact_lock(hashtext(p_session_id || ':' || p_product_sku));
+
+    v_attempts := public.resolve_attempt_budget(v_product);
+
+    SELECT * INTO v_last_offer
+    FROM public.offer_logs
+    WHERE session_id = p_session_id AND product_sku = p_product_sku
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    -- An accepted offer starts a fresh negotiation for the product
+    IF FOUND AND v_last_offer.offer_status <> 'accepted' THEN
+        v_attempts := v_last_offer.attempts_remaining;
+    END IF;
+
+    IF v_attempts <= 0 THEN
+        RAISE EXCEPTION 'no_attempts_remaining';
+    END IF;
+
+    v_is_accepted := public.evaluate_offer(v_product, p_offered_amount);
+
+    -- Counter while the shopper can still negotiate, reject on the last attempt
+    -- and offers too low to counter
+    IF NOT v_is_accepted AND v_attempts - 1 > 0 THEN
+        v_counter_amount := public.compute_counter_offer(v_product, p_offered_amount);
+    END IF;
+
+    v_status := CASE
+        WHEN v_is_accepted THEN 'accepted'
+        WHEN v_counter_amount IS NOT NULL THEN 'countered'
+        ELSE 'rejected'
+    END;
+
+    INSERT INTO public.offer_logs (
+        session_id,
+        product_sku,
+        product_name,
+        product_price,
+        product_max_discount_percentage,
+        offered_amount,
+        offer_status,
+        attempts_remaining,
+        acceptance_code,
+        counter_amount,
+        coupon_status,
+        expires_at
+    ) VALUES (
+        p_session_id,
+        v_product.sku,
+        v_product.name,
+        v_product.price,
+        v_product.max_discount_percentage,
+        p_offered_amount,
+        v_status,
+        CASE WHEN v_is_accepted THEN v_attempts ELSE v_attempts - 1 END,
+        CASE WHEN v_is_accepted THEN public.generate_acceptance_code() ELSE NULL END,
+        v_counter_amount,
+        CASE WHEN v_is_accepted THEN 'active' ELSE NULL END,
+        CASE WHEN v_is_accepted THEN public.coupon_expires_at(v_product) ELSE NULL END
+    )
+    RETURNING * INTO v_offer;
+
+    RETURN public.shopper_offer_log(v_offer);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Accept the store's counter price. Only the most recent offer of the session
+-- for that product can be accepted, so a newer offer supersedes the counter.
+CREATE OR REPLACE FUNCTION public.accept_counter_offer(
+    p_offer_id UUID,
+    p_session_id TEXT
+)
+RETURNS public.offer_logs AS $$
+DECLARE
+    v_countered public.offer_logs%ROWTYPE;
+    v_product public.products%ROWTYPE;
+    v_latest_id UUID;
+    v_offer public.offer_logs%ROWTYPE;
+BEGIN
+    PERFORM public.assert_shopper_session(p_session_id);
+
+    SELECT * INTO v_countered
+    FROM public.offer_logs
+    WHERE id = p_offer_id AND session_id = p_session_id AND offer_status = 'countered';
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'counter_offer_not_found';
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext(p_session_id || ':' || v_countered.product_sku));
+
+    SELECT id INTO v_latest_id
+    FROM public.offer_logs
+    WHERE session_id = p_session_id AND product_sku = v_countered.product_sku
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    IF v_latest_id <> v_countered.id THEN
+        RAISE EXCEPTION 'counter_offer_unavailable';
+    END IF;
+
+    SELECT * INTO v_product FROM public.products WHERE sku = v_countered.product_sku;
+
+    -- The strategy's floor can move with the time of day or stock, so the
+    -- counter must still clear it
+    IF v_countered.counter_amount < public.negotiation_floor_price(v_product) THEN
+        RAISE EXCEPTION 'counter_offer_unavailable';
+    END IF;
+
+    INSERT INTO public.offer_logs (
+        session_id,
+        product_sku,
+        product_name,
+        product_price,
+        product_max_discount_percentage,
+        offered_amount,
+        offer_status,
+        attempts_remaining,
+        acceptance_code,
+        coupon_status,
+        expires_at
+    ) VALUES (
+        v_countered.session_id,
+        v_countered.product_sku,
+        v_countered.product_name,
+        v_countered.product_price,
+        v_countered.product_max_discount_percentage,
+        v_countered.counter_amount,
+        'accepted',
+        v_countered.attempts_remaining,
+        public.generate_acceptance_code(),
+        'active',
+        public.coupon_expires_at(v_product)
+    )
+    RETURNING * INTO v_offer;
+
+    RETURN public.shopper_offer_log(v_offer);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Accept the consolation discount once the shopper's attempts are used up
+CREATE OR REPLACE FUNCTION public.accept_consolation_offer(
+    p_product_sku TEXT,
+    p_session_id TEXT
+)
+RETURNS public.offer_logs AS $$
+DECLARE
+    v_product public.products%ROWTYPE;
+    v_last_offer public.offer_logs%ROWTYPE;
+    v_offer public.offer_logs%ROWTYPE;
+BEGIN
+    PERFORM public.assert_shopper_session(p_session_id);
+
+    SELECT * INTO v_product FROM public.products WHERE sku = p_product_sku;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'product_not_found';
+    END IF;
+
+    -- Serialize with submit_offer() for the same session and product
+    PERFORM pg_advisory_xact_lock(hashtext(p_session_id || ':' || p_product_sku));
+
+    SELECT * INTO v_last_offer
+    FROM public.offer_logs
+    WHERE session_id = p_session_id AND product_sku = p_product_sku
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    -- Only available right after the final attempt was rejected
+    IF NOT FOUND OR v_last_offer.offer_status <> 'rejected' OR v_last_offer.attempts_remaining > 0 THEN
+        RAISE EXCEPTION 'consolation_offer_unavailable';
+    END IF;
+
+    INSERT INTO public.offer_logs (
+        session_id,
+        product_sku,
+        product_name,
+        product_price,
+        product_max_discount_percentage,
+        offered_amount,
+        offer_status,
+        offer_type,
+        attempts_remaining,
+        acceptance_code,
+        coupon_status,
+        expires_at
+    ) VALUES (
+        p_session_id,
+        v_product.sku,
+        v_product.name,
+        v_product.price,
+        v_product.max_discount_percentage,
+        ROUND(public.price_after_discount(v_product.price, v_product.consolation_discount_percentage)),
+        'accepted',
+        'consolation',
+        0,
+        public.generate_acceptance_code(),
+        'active',
+        public.coupon_expires_at(v_product)
+    )
+    RETURNING * INTO v_offer;
+
+    RETURN public.shopper_offer_log(v_offer);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Offer logs of the pre-auth localStorage sessions (session_<timestamp>_<random>)
+-- stay where they are: those ids were readable by anyone, so they can't prove
+-- which shopper a session belongs to. Staff still see them in the dashboard.
+DROP FUNCTION IF EXISTS public.claim_legacy_session(TEXT);
+
+-- Offer logs: shoppers only see their own session, staff keep their policy
+DROP POLICY IF EXISTS "Allow shopper read access on offer_logs" ON public.offer_logs;
+
+CREATE POLICY "Allow shoppers to read their own offer_logs"
+    ON public.offer_logs FOR SELECT
+    TO authenticated
+    USING (session_id = auth.uid()::TEXT);
+
+REVOKE ALL ON public.offer_logs FROM anon;
+
+-- Offer functions need a signed-in (possibly anonymous) shopper
+REVOKE EXECUTE ON FUNCTION public.submit_offer(TEXT, TEXT, DECIMAL) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.accept_counter_offer(UUID, TEXT) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.accept_consolation_offer(TEXT, TEXT) FROM anon;
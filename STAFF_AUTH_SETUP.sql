@@ -0,0 +1,158 @@
+-- Staff accounts and roles
+-- Back-office users sign in with Supabase Auth and get a role in
+-- staff_members: owners and store managers use the admin dashboard, cashiers
+-- redeem coupons. Offer logs can only be changed by staff from now on.
+-- Run after COUPON_TOKEN_SETUP.sql.
+--
+-- Add the first owner after creating their user under Authentication > Users:
+--   INSERT INTO public.staff_members (user_id, role)
+--   SELECT id, 'owner' FROM auth.users WHERE email = 'owner@example.com';
+
+-- Create staff members table (one row per back-office user)
+CREATE TABLE IF NOT EXISTS public.staff_members (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    role TEXT NOT NULL CHECK (role IN ('owner', 'store_manager', 'cashier')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER trigger_staff_members_updated_at
+    BEFORE UPDATE ON public.staff_members
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_updated_at();
+
+-- Role of the signed-in user, NULL for shoppers
+CREATE OR REPLACE FUNCTION public.current_staff_role()
+RETURNS TEXT AS $$
+    SELECT role FROM public.staff_members WHERE user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Whether the signed-in user has one of the given staff roles
+CREATE OR REPLACE FUNCTION public.has_staff_role(p_roles TEXT[])
+RETURNS BOOLEAN AS $$
+    SELECT COALESCE(public.current_staff_role() = ANY(p_roles), FALSE);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE public.staff_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow staff to read their own membership"
+    ON public.staff_members FOR SELECT
+    TO authenticated
+    USING (user_id = auth.uid() OR public.has_staff_role(ARRAY['owner']));
+
+CREATE POLICY "Allow owners to manage staff"
+    ON public.staff_members FOR ALL
+    TO authenticated
+    USING (public.has_staff_role(ARRAY['owner']))
+    WITH CHECK (public.has_staff_role(ARRAY['owner']));
+
+-- Offer logs: only staff can read everything through their own policy and
+-- only managers can change coupons directly. Signed-out visitors can't read
+-- offer logs at all; SHOPPER_SESSION_SETUP.sql lets each shopper read their own.
+DROP POLICY IF EXISTS "Allow all operations on offer_logs" ON public.offer_logs;
+
+CREATE POLICY "Allow staff read access on offer_logs"
+    ON public.offer_logs FOR SELECT
+    TO authenticated
+    USING (public.has_staff_role(ARRAY['owner', 'store_manager', 'cashier']));
+
+CREATE POLICY "Allow managers to update offer_logs"
+    ON public.offer_logs FOR UPDATE
+    TO authenticated
+    USING (public.has_staff_role(ARRAY['owner', 'store_manager']))
+    WITH CHECK (public.has_staff_role(ARRAY['owner', 'store_manager']));
+
+REVOKE SELECT, UPDATE, DELETE, TRUNCATE ON public.offer_logs FROM anon;
+REVOKE DELETE, TRUNCATE ON public.offer_logs FROM authenticated;
+
+-- Back-office tables are for staff only
+DROP POLICY IF EXISTS "Allow authenticated read access on products" ON public.products;
+CREATE POLICY "Allow staff read access on products"
+    ON public.products FOR SELECT
+    TO authenticated
+    USING (public.has_staff_role(ARRAY['owner', 'store_manager', 'cashier']));
+
+DROP POLICY IF EXISTS "Allow authenticated read access on campaigns" ON public.campaigns;
+CREATE POLICY "Allow staff read access on campaigns"
+    ON public.campaigns FOR SELECT
+    TO authenticated
+    USING (public.has_staff_role(ARRAY['owner', 'store_manager']));
+
+DROP POLICY IF EXISTS "Allow authenticated read access on store_settings" ON public.store_settings;
+CREATE POLICY "Allow staff read access on store_settings"
+    ON public.store_settings FOR SELECT
+    TO authenticated
+    USING (public.has_staff_role(ARRAY['owner', 'store_manager']));
+
+-- Redeem the coupon with the given acceptance code (staff only). Scanned
+-- coupons also pass the signature or token from the QR code, which must match
+-- the coupon.
+CREATE OR REPLACE FUNCTION public.redeem_coupon(
+    p_acceptance_code TEXT,
+    p_signature TEXT DEFAULT NULL,
+    p_token TEXT DEFAULT NULL
+)
+RETURNS public.offer_logs AS $$
+DECLARE
+    v_coupon public.offer_logs%ROWTYPE;
+BEGIN
+    IF NOT public.has_staff_role(ARRAY['owner', 'store_manager', 'cashier']) THEN
+        RAISE EXCEPTION 'not_authorized';
+    END IF;
+
+    SELECT * INTO v_coupon
+    FROM public.offer_logs
+    WHERE acceptance_code = UPPER(TRIM(p_acceptance_code)) AND offer_status = 'accepted'
+    FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'coupon_not_found';
+    END IF;
+
+    IF p_signature IS NOT NULL AND LOWER(p_signature) IS DISTINCT FROM v_coupon.coupon_signature THEN
+        RAISE EXCEPTION 'coupon_signature_invalid';
+    END IF;
+
+    IF p_token IS NOT NULL AND p_token IS DISTINCT FROM v_coupon.coupon_token THEN
+        RAISE EXCEPTION 'coupon_signature_invalid';
+    END IF;
+
+    IF v_coupon.coupon_status = 'redeemed' OR v_coupon.is_redeemed THEN
+        RAISE EXCEPTION 'coupon_already_redeemed';
+    END IF;
+
+    IF v_coupon.coupon_status = 'cancelled' THEN
+        RAISE EXCEPTION 'coupon_cancelled';
+    END IF;
+
+    IF v_coupon.coupon_status = 'expired' OR v_coupon.expires_at <= NOW() THEN
+        RAISE EXCEPTION 'coupon_expired';
+    END IF;
+
+    UPDATE public.offer_logs
+    SET is_redeemed = TRUE
+    WHERE id = v_coupon.id
+    RETURNING * INTO v_coupon;
+
+    RETURN v_coupon;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.redeem_coupon(TEXT, TEXT, TEXT) FROM anon;
+
+-- Key for verifying coupon tokens on cashier devices (staff only)
+CREATE OR REPLACE FUNCTION public.get_coupon_token_key()
+RETURNS TEXT AS $$
+BEGIN
+    IF NOT public.has_staff_role(ARRAY['owner', 'store_manager', 'cashier']) THEN
+        RAISE EXCEPTION 'not_authorized';
+    END IF;
+
+    RETURN (SELECT value FROM private.app_secrets WHERE key = 'coupon_token_key');
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Grant necessary permissions
+GRANT SELECT ON public.staff_members TO authenticated;
+GRANT INSERT, UPDATE, DELETE ON public.staff_members TO authenticated;
+GRANT EXECUTE ON FUNCTION public.current_staff_role() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.has_staff_role(TEXT[]) TO authenticated;
@@ -0,0 +1,578 @@
+-- Stores
+-- Each branch is a store with its own code. Product QR codes carry the store
+-- code (/products/<sku>?store=<code>), stores can override a product's price
+-- and discount ceiling in store_products and keep their own stock of it, and
+-- offer logs record the store the offer was made in. Offers without a store
+-- use the product's own pricing and stock.
+-- Run after INVENTORY_SETUP.sql.
+--
+-- Add a store with a price override and its own stock, for example:
+--   INSERT INTO public.stores (code, name, address)
+--   VALUES ('palermo', 'Palermo', 'Honduras 4800, CABA');
+--
+--   INSERT INTO public.store_products (store_id, product_id, price_override, max_discount_percentage_override, stock_quantity)
+--   SELECT s.id, p.id, 84990, 25, 12
+--   FROM public.stores s, public.products p
+--   WHERE s.code = 'palermo' AND p.sku = '5208GT';
+
+-- Create stores table
+CREATE TABLE IF NOT EXISTS public.stores (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    code VARCHAR(50) UNIQUE NOT NULL CHECK (code ~ '^[a-z0-9-]+$'), -- Used in QR code URLs
+    name VARCHAR(255) NOT NULL,
+    address TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER trigger_stores_updated_at
+    BEFORE UPDATE ON public.stores
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_updated_at();
+
+-- Create store products table (per-store pricing rules and stock, NULL keeps the product's)
+CREATE TABLE IF NOT EXISTS public.store_products (
+    store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+    price_override DECIMAL(10,2) CHECK (price_override > 0),
+    max_discount_percentage_override INTEGER CHECK (max_discount_percentage_override BETWEEN 0 AND 100),
+    stock_quantity INTEGER CHECK (stock_quantity >= 0), -- Units on hand in the store, NULL draws on the product's stock
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (store_id, product_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_store_products_product_id ON public.store_products(product_id);
+
+CREATE TRIGGER trigger_store_products_updated_at
+    BEFORE UPDATE ON public.store_products
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.stores ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.store_products ENABLE ROW LEVEL SECURITY;
+
+-- Store names are public; pricing rules are for staff only
+CREATE POLICY "Allow public read access on active stores"
+    ON public.stores FOR SELECT
+    TO anon, authenticated
+    USING (is_active);
+
+CREATE POLICY "Allow staff read access on stores"
+    ON public.stores FOR SELECT
+    TO authenticated
+    USING (public.has_staff_role(ARRAY['owner', 'store_manager', 'cashier']));
+
+CREATE POLICY "Allow owners to insert stores"
+    ON public.stores FOR INSERT
+    TO authenticated
+    WITH CHECK (public.has_staff_role(ARRAY['owner']));
+
+CREATE POLICY "Allow owners to update stores"
+    ON public.stores FOR UPDATE
+    TO authenticated
+    USING (public.has_staff_role(ARRAY['owner']))
+    WITH CHECK (public.has_staff_role(ARRAY['owner']));
+
+CREATE POLICY "Allow staff read access on store_products"
+    ON public.store_products FOR SELECT
+    TO authenticated
+    USING (public.has_staff_role(ARRAY['owner', 'store_manager', 'cashier']));
+
+CREATE POLICY "Allow managers to manage store_products"
+    ON public.store_products FOR ALL
+    TO authenticated
+    USING (public.has_staff_role(ARRAY['owner', 'store_manager']))
+    WITH CHECK (public.has_staff_role(ARRAY['owner', 'store_manager']));
+
+GRANT SELECT ON public.stores TO anon;
+GRANT SELECT, INSERT, UPDATE ON public.stores TO authenticated;
+REVOKE ALL ON public.store_products FROM anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.store_products TO authenticated;
+
+-- Tag offer logs with the store
+ALTER TABLE public.offer_logs
+    ADD COLUMN IF NOT EXISTS store_id UUID REFERENCES public.stores(id) ON DELETE SET NULL;
+
+GRANT SELECT (store_id) ON public.offer_logs TO authenticated;
+
+CREATE INDEX IF NOT EXISTS idx_offer_logs_store_id ON public.offer_logs(store_id);
+
+-- Units a store keeps of a product, NULL when it draws on the product's stock
+CREATE OR REPLACE FUNCTION public.store_stock_quantity(p_store_id UUID, p_product_sku TEXT)
+RETURNS INTEGER AS $$
+    SELECT sp.stock_quantity
+    FROM public.store_products sp
+    JOIN public.products p ON p.id = sp.product_id
+    WHERE sp.store_id = p_store_id AND p.sku = p_product_sku;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Units of the product's own stock held by pending coupons: those issued
+-- without a store or in stores that don't keep their own stock of it
+CREATE OR REPLACE FUNCTION public.reserved_stock(p_product_sku TEXT)
+RETURNS INTEGER AS $$
+    SELECT COUNT(*)::INTEGER
+    FROM public.offer_logs
+    WHERE product_sku = p_product_sku
+      AND coupon_status = 'active'
+      AND expires_at > NOW()
+      AND public.store_stock_quantity(store_id, p_product_sku) IS NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Units of a store's own stock held by its pending coupons
+CREATE OR REPLACE FUNCTION public.reserved_store_stock(p_store_id UUID, p_product_sku TEXT)
+RETURNS INTEGER AS $$
+    SELECT COUNT(*)::INTEGER
+    FROM public.offer_logs
+    WHERE product_sku = p_product_sku
+      AND store_id = p_store_id
+      AND coupon_status = 'active'
+      AND expires_at > NOW();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Whether a store that keeps its own stock still has units for shoppers, NULL
+-- when it draws on the product's stock
+CREATE OR REPLACE FUNCTION public.store_in_stock(p_store_id UUID, p_product_sku TEXT)
+RETURNS BOOLEAN AS $$
+    SELECT public.store_stock_quantity(p_store_id, p_product_sku)
+        - public.reserved_store_stock(p_store_id, p_product_sku) > 0;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Refuse offers on products sold out in the store the offer is made in, or
+-- everywhere when the store draws on the product's stock
+CREATE OR REPLACE FUNCTION public.handle_offer_log_stock()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_product public.products%ROWTYPE;
+    v_store_stock INTEGER;
+BEGIN
+    -- Lock the product so concurrent offers can't reserve the same unit
+    SELECT * INTO v_product
+    FROM public.products
+    WHERE sku = NEW.product_sku
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN NEW;
+    END IF;
+
+    v_store_stock := public.store_stock_quantity(NEW.store_id, NEW.product_sku);
+
+    IF v_store_stock IS NOT NULL THEN
+        IF v_store_stock - public.reserved_store_stock(NEW.store_id, NEW.product_sku) <= 0 THEN
+            RAISE EXCEPTION 'out_of_stock';
+        END IF;
+    ELSIF public.available_stock(v_product) <= 0 THEN
+        RAISE EXCEPTION 'out_of_stock';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Take a redeemed unit out of the store's stock, or the product's when the
+-- store draws on it
+CREATE OR REPLACE FUNCTION public.handle_redemption_stock()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.is_redeemed AND NOT COALESCE(OLD.is_redeemed, FALSE) THEN
+        UPDATE public.store_products sp
+        SET stock_quantity = GREATEST(0, sp.stock_quantity - 1)
+        FROM public.products p
+        WHERE p.id = sp.product_id
+          AND p.sku = NEW.product_sku
+          AND sp.store_id = NEW.store_id
+          AND sp.stock_quantity IS NOT NULL;
+
+        IF NOT FOUND THEN
+            UPDATE public.products
+            SET stock_quantity = GREATEST(0, stock_quantity - 1)
+            WHERE sku = NEW.product_sku AND stock_quantity IS NOT NULL;
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Stock levels of the product's own stock for the admin Products tab, leaving
+-- out coupons held against a store's own stock
+CREATE OR REPLACE VIEW public.product_stock
+WITH (security_invoker = true) AS
+SELECT
+    p.sku,
+    p.stock_quantity,
+    r.reserved_quantity,
+    CASE
+        WHEN p.stock_quantity IS NULL THEN NULL
+        ELSE GREATEST(0, p.stock_quantity - r.reserved_quantity)
+    END AS available_quantity
+FROM public.products p
+CROSS JOIN LATERAL (
+    SELECT COUNT(*)::INTEGER AS reserved_quantity
+    FROM public.offer_logs o
+    WHERE o.product_sku = p.sku
+      AND o.coupon_status = 'active'
+      AND o.expires_at > NOW()
+      AND NOT EXISTS (
+          SELECT 1 FROM public.store_products sp
+          WHERE sp.store_id = o.store_id AND sp.product_id = p.id AND sp.stock_quantity IS NOT NULL
+      )
+) r;
+
+REVOKE ALL ON FUNCTION public.store_stock_quantity(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.reserved_store_stock(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.store_in_stock(UUID, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.store_in_stock(UUID, TEXT) TO anon, authenticated;
+
+-- Id of the active store with the given code, NULL when no store is given
+CREATE OR REPLACE FUNCTION public.resolve_store_id(p_store_code TEXT)
+RETURNS UUID AS $$
+DECLARE
+    v_store_id UUID;
+BEGIN
+    IF p_store_code IS NULL OR p_store_code = '' THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT id INTO v_store_id
+    FROM public.stores
+    WHERE code = LOWER(p_store_code) AND is_active;
+
+    IF v_store_id IS NULL THEN
+        RAISE EXCEPTION 'store_not_found';
+    END IF;
+
+    RETURN v_store_id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The product with the store's price and discount ceiling applied, so the
+-- negotiation engine and offer logs work with the store's pricing
+CREATE OR REPLACE FUNCTION public.apply_store_pricing(p_product public.products, p_store_id UUID)
+RETURNS public.products AS $$
+DECLARE
+    v_product public.products := p_product;
+    v_overrides public.store_products%ROWTYPE;
+BEGIN
+    IF p_store_id IS NULL THEN
+        RETURN v_product;
+    END IF;
+
+    SELECT * INTO v_overrides
+    FROM public.store_products
+    WHERE store_id = p_store_id AND product_id = p_product.id;
+
+    IF FOUND THEN
+        v_product.price := COALESCE(v_overrides.price_override, v_product.price);
+        v_product.max_discount_percentage := COALESCE(v_overrides.max_discount_percentage_override, v_product.max_discount_percentage);
+    END IF;
+
+    RETURN v_product;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.resolve_store_id(TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.apply_store_pricing(public.products, UUID) FROM PUBLIC;
+
+-- Submit an offer for a product on behalf of a shopper session, at the
+-- prices of the store the shopper scanned the product in
+DROP FUNCTION IF EXISTS public.submit_offer(TEXT, TEXT, DECIMAL);
+CREATE OR REPLACE FUNCTION public.submit_offer(
+    p_product_sku TEXT,
+    p_session_id TEXT,
+    p_offered_amount DECIMAL,
+    p_store_code TEXT DEFAULT NULL
+)
+RETURNS public.offer_logs AS $$
+DECLARE
+    v_product public.products%ROWTYPE;
+    v_style_code VARCHAR;
+    v_store_id UUID;
+    v_last_offer public.offer_logs%ROWTYPE;
+    v_attempts INTEGER;
+    v_is_accepted BOOLEAN;
+    v_status TEXT;
+    v_counter_amount DECIMAL;
+    v_offer public.offer_logs%ROWTYPE;
+BEGIN
+    PERFORM public.assert_shopper_session(p_session_id);
+
+    IF p_offered_amount IS NULL OR p_offered_amount < 0 THEN
+        RAISE EXCEPTION 'invalid_offer_amount';
+    END IF;
+
+    SELECT * INTO v_product FROM public.products WHERE sku = p_product_sku AND archived_at IS NULL;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'product_not_found';
+    END IF;
+
+    v_store_id := public.resolve_store_id(p_store_code);
+    v_product := public.apply_store_pricing(v_product, v_store_id);
+
+    -- Variants of a style share one negotiation
+    v_style_code := public.negotiation_style_code(v_product);
+
+    -- Serialize concurrent offers from the same session on the same product or style
+    PERFORM pg_advisory_xact_lock(hashtext(p_session_id || ':' || COALESCE(v_style_code, p_product_sku)));
+
+    v_attempts := public.resolve_attempt_budget(v_product);
+
+    SELECT * INTO v_last_offer
+    FROM public.offer_logs
+    WHERE session_id = p_session_id AND (product_sku = p_product_sku OR product_style_code = v_style_code)
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    -- An accepted offer starts a fresh negotiation for the product or style
+    IF FOUND AND v_last_offer.offer_status <> 'accepted' THEN
+        v_attempts := v_last_offer.attempts_remaining;
+    END IF;
+
+    IF v_attempts <= 0 THEN
+        RAISE EXCEPTION 'no_attempts_remaining';
+    END IF;
+
+    v_is_accepted := public.evaluate_offer(v_product, p_offered_amount);
+
+    -- Counter while the shopper can still negotiate, reject on the last attempt
+    -- and offers too low to counter
+    IF NOT v_is_accepted AND v_attempts - 1 > 0 THEN
+        v_counter_amount := public.compute_counter_offer(v_product, p_offered_amount);
+    END IF;
+
+    v_status := CASE
+        WHEN v_is_accepted THEN 'accepted'
+        WHEN v_counter_amount IS NOT NULL THEN 'countered'
+        ELSE 'rejected'
+    END;
+
+    INSERT INTO public.offer_logs (
+        session_id,
+        product_sku,
+        product_name,
+        product_price,
+        product_max_discount_percentage,
+        offered_amount,
+        offer_status,
+        attempts_remaining,
+        acceptance_code,
+        counter_amount,
+        coupon_status,
+        expires_at,
+        store_id
+    ) VALUES (
+        p_session_id,
+        v_product.sku,
+        v_product.name,
+        v_product.price,
+        v_product.max_discount_percentage,
+        p_offered_amount,
+        v_status,
+        CASE WHEN v_is_accepted THEN v_attempts ELSE v_attempts - 1 END,
+        CASE WHEN v_is_accepted THEN public.generate_acceptance_code() ELSE NULL END,
+        v_counter_amount,
+        CASE WHEN v_is_accepted THEN 'active' ELSE NULL END,
+        CASE WHEN v_is_accepted THEN public.coupon_expires_at(v_product) ELSE NULL END,
+        v_store_id
+    )
+    RETURNING * INTO v_offer;
+
+    RETURN public.shopper_offer_log(v_offer);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Accept the store's counter price. Only the most recent offer of the session
+-- for that product or style can be accepted, so a newer offer on any of its
+-- variants supersedes the counter.
+-- The coupon belongs to the store the counter-offer was made in.
+CREATE OR REPLACE FUNCTION public.accept_counter_offer(
+    p_offer_id UUID,
+    p_session_id TEXT
+)
+RETURNS public.offer_logs AS $$
+DECLARE
+    v_countered public.offer_logs%ROWTYPE;
+    v_product public.products%ROWTYPE;
+    v_latest_id UUID;
+    v_offer public.offer_logs%ROWTYPE;
+BEGIN
+    PERFORM public.assert_shopper_session(p_session_id);
+
+    SELECT * INTO v_countered
+    FROM public.offer_logs
+    WHERE id = p_offer_id AND session_id = p_session_id AND offer_status = 'countered';
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'counter_offer_not_found';
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext(p_session_id || ':' || COALESCE(v_countered.product_style_code, v_countered.product_sku)));
+
+    SELECT id INTO v_latest_id
+    FROM public.offer_logs
+    WHERE session_id = p_session_id
+      AND (product_sku = v_countered.product_sku OR product_style_code = v_countered.product_style_code)
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    IF v_latest_id <> v_countered.id THEN
+        RAISE EXCEPTION 'counter_offer_unavailable';
+    END IF;
+
+    SELECT * INTO v_product FROM public.products WHERE sku = v_countered.product_sku;
+    v_product := public.apply_store_pricing(v_product, v_countered.store_id);
+
+    -- The strategy's floor can move with the time of day or stock, so the
+    -- counter must still clear it
+    IF v_countered.counter_amount < public.negotiation_floor_price(v_product) THEN
+        RAISE EXCEPTION 'counter_offer_unavailable';
+    END IF;
+
+    INSERT INTO public.offer_logs (
+        session_id,
+        product_sku,
+        product_name,
+        product_price,
+        product_max_discount_percentage,
+        offered_amount,
+        offer_status,
+        attempts_remaining,
+        acceptance_code,
+        coupon_status,
+        expires_at,
+        store_id
+    ) VALUES (
+        v_countered.session_id,
+        v_countered.product_sku,
+        v_countered.product_name,
+        v_countered.product_price,
+        v_countered.product_max_discount_percentage,
+        v_countered.counter_amount,
+        'accepted',
+        v_countered.attempts_remaining,
+        public.generate_acceptance_code(),
+        'active',
+        public.coupon_expires_at(v_product),
+        v_countered.store_id
+    )
+    RETURNING * INTO v_offer;
+
+    RETURN public.shopper_offer_log(v_offer);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Accept the consolation discount once the shopper's attempts are used up,
+-- off the price of the store the shopper is in
+DROP FUNCTION IF EXISTS public.accept_consolation_offer(TEXT, TEXT);
+CREATE OR REPLACE FUNCTION public.accept_consolation_offer(
+    p_product_sku TEXT,
+    p_session_id TEXT,
+    p_store_code TEXT DEFAULT NULL
+)
+RETURNS public.offer_logs AS $$
+DECLARE
+    v_product public.products%ROWTYPE;
+    v_style_code VARCHAR;
+    v_store_id UUID;
+    v_last_offer public.offer_logs%ROWTYPE;
+    v_offer public.offer_logs%ROWTYPE;
+BEGIN
+    PERFORM public.assert_shopper_session(p_session_id);
+
+    SELECT * INTO v_product FROM public.products WHERE sku = p_product_sku AND archived_at IS NULL;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'product_not_found';
+    END IF;
+
+    v_store_id := public.resolve_store_id(p_store_code);
+    v_product := public.apply_store_pricing(v_product, v_store_id);
+
+    -- Attempts run out for the whole style, so any of its variants qualifies
+    v_style_code := public.negotiation_style_code(v_product);
+
+    -- Serialize with submit_offer() for the same session and product or style
+    PERFORM pg_advisory_xact_lock(hashtext(p_session_id || ':' || COALESCE(v_style_code, p_product_sku)));
+
+    SELECT * INTO v_last_offer
+    FROM public.offer_logs
+    WHERE session_id = p_session_id AND (product_sku = p_product_sku OR product_style_code = v_style_code)
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    -- Only available right after the final attempt was rejected
+    IF NOT FOUND OR v_last_offer.offer_status <> 'rejected' OR v_last_offer.attempts_remaining > 0 THEN
+        RAISE EXCEPTION 'consolation_offer_unavailable';
+    END IF;
+
+    INSERT INTO public.offer_logs (
+        session_id,
+        product_sku,
+        product_name,
+        product_price,
+        product_max_discount_percentage,
+        offered_amount,
+        offer_status,
+        offer_type,
+        attempts_remaining,
+        acceptance_code,
+        coupon_status,
+        expires_at,
+        store_id
+    ) VALUES (
+        p_session_id,
+        v_product.sku,
+        v_product.name,
+        v_product.price,
+        v_product.max_discount_percentage,
+        ROUND(public.price_after_discount(v_product.price, v_product.consolation_discount_percentage)),
+        'accepted',
+        'consolation',
+        0,
+        public.generate_acceptance_code(),
+        'active',
+        public.coupon_expires_at(v_product),
+        v_store_id
+    )
+    RETURNING * INTO v_offer;
+
+    RETURN public.shopper_offer_log(v_offer);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Offer functions need a signed-in (possibly anonymous) shopper
+REVOKE ALL ON FUNCTION public.submit_offer(TEXT, TEXT, DECIMAL, TEXT) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.accept_consolation_offer(TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.submit_offer(TEXT, TEXT, DECIMAL, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.accept_consolation_offer(TEXT, TEXT, TEXT) TO authenticated;
+
+-- Products at a store's prices, for shoppers who scanned a store's QR code
+CREATE OR REPLACE VIEW public.public_store_products AS
+SELECT
+    pp.id,
+    pp.sku,
+    pp.name,
+    pp.description,
+    COALESCE(sp.price_override, pp.price) AS price,
+    pp.image,
+    pp.created_at,
+    pp.updated_at,
+    pp.attempt_budget,
+    pp.coupon_ttl_minutes,
+    pp.consolation_discount_percentage,
+    pp.style_id,
+    pp.style_code,
+    pp.style_name,
+    pp.color,
+    pp.size,
+    COALESCE(public.store_in_stock(s.id, pp.sku), pp.in_stock) AS in_stock,
+    s.id AS store_id,
+    s.code AS store_code,
+    s.name AS store_name
+FROM public.public_products pp
+CROSS JOIN public.stores s
+LEFT JOIN public.store_products sp ON sp.store_id = s.id AND sp.product_id = pp.id
+WHERE s.is_active;
+
+GRANT SELECT ON public.public_store_products TO anon;
+GRANT SELECT ON public.public_store_products TO authenticated;
@@ -0,0 +1,1023 @@
+-- Tenants
+-- Each retailer (brand) is a tenant that owns its products, styles, stores,
+-- staff and offer logs. Staff only see and manage their own tenant's rows, and
+-- the storefront shows the tenant resolved from the URL (?tenant=<slug>), the
+-- tenant's custom domain or its subdomain (<slug>.<app domain>), with the
+-- tenant's logo and palette. Existing rows move to the default "shuq" tenant.
+-- SKUs, style codes and store codes only need to be unique within a tenant.
+-- Campaigns, store settings and the key that signs coupon tokens belong to a
+-- tenant too. Product images are still named after the SKU, so a tenant can't
+-- upload an image for an SKU that another tenant also uses.
+-- Rows added from the SQL Editor need an explicit tenant_id; rows added from
+-- the admin dashboard default to the staff member's tenant.
+-- Run after STORES_SETUP.sql.
+--
+-- Onboard a retailer and its first owner, for example:
+--   INSERT INTO public.tenants (slug, name, domain, logo_url, theme)
+--   VALUES ('ceroestres', 'Cero Estres', 'shop.ceroestres.com', 'https://ceroestres.com/logo.svg',
+--           '{"primaryColor": "#FFD84D", "accentColor": "#1F2937"}');
+--
+--   INSERT INTO public.staff_members (user_id, role, tenant_id)
+--   SELECT u.id, 'owner', t.id
+--   FROM auth.users u, public.tenants t
+--   WHERE u.email = 'owner@ceroestres.com' AND t.slug = 'ceroestres';
+
+-- Create tenants table
+CREATE TABLE IF NOT EXISTS public.tenants (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    slug VARCHAR(50) UNIQUE NOT NULL CHECK (slug ~ '^[a-z0-9-]+$'), -- Used in URLs and subdomains
+    name VARCHAR(255) NOT NULL,
+    domain VARCHAR(255) UNIQUE, -- Custom storefront hostname, e.g. shop.example.com
+    logo_url TEXT,
+    theme JSONB NOT NULL DEFAULT '{}'::jsonb, -- Storefront palette, see src/lib/tenants.ts
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER trigger_tenants_updated_at
+    BEFORE UPDATE ON public.tenants
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_updated_at();
+
+-- Default tenant for the rows created before tenants existed
+INSERT INTO public.tenants (slug, name, theme)
+VALUES ('shuq', 'ShuQ', '{"primaryColor": "#B5FFA3", "accentColor": "#8069FF"}')
+ON CONFLICT (slug) DO NOTHING;
+
+-- Add the owning tenant to back-office tables
+ALTER TABLE public.staff_members ADD COLUMN IF NOT EXISTS tenant_id UUID REFERENCES public.tenants(id);
+ALTER TABLE public.products ADD COLUMN IF NOT EXISTS tenant_id UUID REFERENCES public.tenants(id);
+ALTER TABLE public.product_styles ADD COLUMN IF NOT EXISTS tenant_id UUID REFERENCES public.tenants(id);
+ALTER TABLE public.stores ADD COLUMN IF NOT EXISTS tenant_id UUID REFERENCES public.tenants(id);
+ALTER TABLE public.offer_logs ADD COLUMN IF NOT EXISTS tenant_id UUID REFERENCES public.tenants(id);
+
+-- Tenant of the signed-in staff member, NULL for shoppers
+CREATE OR REPLACE FUNCTION public.current_tenant_id()
+RETURNS UUID AS $$
+    SELECT tenant_id FROM public.staff_members WHERE user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+UPDATE public.staff_members SET tenant_id = (SELECT id FROM public.tenants WHERE slug = 'shuq') WHERE tenant_id IS NULL;
+UPDATE public.products SET tenant_id = (SELECT id FROM public.tenants WHERE slug = 'shuq') WHERE tenant_id IS NULL;
+UPDATE public.product_styles SET tenant_id = (SELECT id FROM public.tenants WHERE slug = 'shuq') WHERE tenant_id IS NULL;
+UPDATE public.stores SET tenant_id = (SELECT id FROM public.tenants WHERE slug = 'shuq') WHERE tenant_id IS NULL;
+UPDATE public.offer_logs SET tenant_id = (SELECT id FROM public.tenants WHERE slug = 'shuq') WHERE tenant_id IS NULL;
+
+ALTER TABLE public.staff_members
+    ALTER COLUMN tenant_id SET DEFAULT public.current_tenant_id(),
+    ALTER COLUMN tenant_id SET NOT NULL;
+ALTER TABLE public.products
+    ALTER COLUMN tenant_id SET DEFAULT public.current_tenant_id(),
+    ALTER COLUMN tenant_id SET NOT NULL;
+ALTER TABLE public.product_styles
+    ALTER COLUMN tenant_id SET DEFAULT public.current_tenant_id(),
+    ALTER COLUMN tenant_id SET NOT NULL;
+ALTER TABLE public.stores
+    ALTER COLUMN tenant_id SET DEFAULT public.current_tenant_id(),
+    ALTER COLUMN tenant_id SET NOT NULL;
+ALTER TABLE public.offer_logs
+    ALTER COLUMN tenant_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_staff_members_tenant_id ON public.staff_members(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_products_tenant_id ON public.products(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_product_styles_tenant_id ON public.product_styles(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_stores_tenant_id ON public.stores(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_offer_logs_tenant_id ON public.offer_logs(tenant_id);
+
+GRANT SELECT (tenant_id) ON public.offer_logs TO authenticated;
+
+-- Whether the signed-in user is staff of the given tenant with one of the given roles
+CREATE OR REPLACE FUNCTION public.is_tenant_staff(p_tenant_id UUID, p_roles TEXT[])
+RETURNS BOOLEAN AS $$
+    SELECT public.has_staff_role(p_roles) AND p_tenant_id = public.current_tenant_id();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.current_tenant_id() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_tenant_staff(UUID, TEXT[]) TO authenticated;
+
+-- Codes are unique per tenant, so offer logs point at their product by tenant and SKU
+ALTER TABLE public.offer_logs DROP CONSTRAINT IF EXISTS fk_product_sku;
+ALTER TABLE public.products DROP CONSTRAINT IF EXISTS products_sku_key;
+ALTER TABLE public.product_styles DROP CONSTRAINT IF EXISTS product_styles_code_key;
+ALTER TABLE public.stores DROP CONSTRAINT IF EXISTS stores_code_key;
+
+ALTER TABLE public.products ADD CONSTRAINT products_tenant_id_sku_key UNIQUE (tenant_id, sku);
+ALTER TABLE public.product_styles ADD CONSTRAINT product_styles_tenant_id_code_key UNIQUE (tenant_id, code);
+ALTER TABLE public.stores ADD CONSTRAINT stores_tenant_id_code_key UNIQUE (tenant_id, code);
+ALTER TABLE public.offer_logs ADD CONSTRAINT fk_offer_logs_product
+    FOREIGN KEY (tenant_id, product_sku) REFERENCES public.products(tenant_id, sku);
+
+-- Offer logs belong to the product's tenant, which the offer functions pass
+-- in. Rows added without one need an SKU no other tenant uses. The store must
+-- be one of the tenant's stores.
+CREATE OR REPLACE FUNCTION public.handle_offer_log_tenant()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.tenant_id IS NULL THEN
+        IF (SELECT COUNT(*) FROM public.products WHERE sku = NEW.product_sku) <> 1 THEN
+            RAISE EXCEPTION 'product_not_found';
+        END IF;
+
+        SELECT tenant_id INTO NEW.tenant_id
+        FROM public.products
+        WHERE sku = NEW.product_sku;
+    END IF;
+
+    IF NEW.store_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.stores WHERE id = NEW.store_id AND tenant_id = NEW.tenant_id
+    ) THEN
+        RAISE EXCEPTION 'store_not_found';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Named to run before the other offer_logs triggers (they fire in name order),
+-- which look the product up by tenant
+DROP TRIGGER IF EXISTS trigger_offer_logs_tenant ON public.offer_logs;
+DROP TRIGGER IF EXISTS trigger_offer_logs_a_tenant ON public.offer_logs;
+CREATE TRIGGER trigger_offer_logs_a_tenant
+    BEFORE INSERT ON public.offer_logs
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_offer_log_tenant();
+
+ALTER TABLE public.tenants ENABLE ROW LEVEL SECURITY;
+
+-- Branding is public; owners edit their own tenant, new tenants are added here
+CREATE POLICY "Allow public read access on active tenants"
+    ON public.tenants FOR SELECT
+    TO anon, authenticated
+    USING (is_active);
+
+CREATE POLICY "Allow staff read access on their tenant"
+    ON public.tenants FOR SELECT
+    TO authenticated
+    USING (id = public.current_tenant_id());
+
+CREATE POLICY "Allow owners to update their tenant"
+    ON public.tenants FOR UPDATE
+    TO authenticated
+    USING (public.is_tenant_staff(id, ARRAY['owner']))
+    WITH CHECK (public.is_tenant_staff(id, ARRAY['owner']));
+
+GRANT SELECT ON public.tenants TO anon;
+GRANT SELECT, UPDATE ON public.tenants TO authenticated;
+
+-- Scope the staff policies to the staff member's tenant
+DROP POLICY IF EXISTS "Allow staff to read their own membership" ON public.staff_members;
+DROP POLICY IF EXISTS "Allow owners to manage staff" ON public.staff_members;
+
+CREATE POLICY "Allow staff to read their own membership"
+    ON public.staff_members FOR SELECT
+    TO authenticated
+    USING (user_id = auth.uid() OR public.is_tenant_staff(tenant_id, ARRAY['owner']));
+
+CREATE POLICY "Allow owners to manage staff"
+    ON public.staff_members FOR ALL
+    TO authenticated
+    USING (public.is_tenant_staff(tenant_id, ARRAY['owner']))
+    WITH CHECK (public.is_tenant_staff(tenant_id, ARRAY['owner']));
+
+DROP POLICY IF EXISTS "Allow staff read access on offer_logs" ON public.offer_logs;
+DROP POLICY IF EXISTS "Allow managers to update offer_logs" ON public.offer_logs;
+
+CREATE POLICY "Allow staff read access on offer_logs"
+    ON public.offer_logs FOR SELECT
+    TO authenticated
+    USING (public.is_tenant_staff(tenant_id, ARRAY['owner', 'store_manager', 'cashier']));
+
+CREATE POLICY "Allow managers to update offer_logs"
+    ON public.offer_logs FOR UPDATE
+    TO authenticated
+    USING (public.is_tenant_staff(tenant_id, ARRAY['owner', 'store_manager']))
+    WITH CHECK (public.is_tenant_staff(tenant_id, ARRAY['owner', 'store_manager']));
+
+DROP POLICY IF EXISTS "Allow staff read access on products" ON public.products;
+DROP POLICY IF EXISTS "Allow managers to insert products" ON public.products;
+DROP POLICY IF EXISTS "Allow managers to update products" ON public.products;
+
+CREATE POLICY "Allow staff read access on products"
+    ON public.products FOR SELECT
+    TO authenticated
+    USING (public.is_tenant_staff(tenant_id, ARRAY['owner', 'store_manager', 'cashier']));
+
+CREATE POLICY "Allow managers to insert products"
+    ON public.products FOR INSERT
+    TO authenticated
+    WITH CHECK (public.is_tenant_staff(tenant_id, ARRAY['owner', 'store_manager']));
+
+CREATE POLICY "Allow managers to update products"
+    ON public.products FOR UPDATE
+    TO authenticated
+    USING (public.is_tenant_staff(tenant_id, ARRAY['owner', 'store_manager']))
+    WITH CHECK (public.is_tenant_staff(tenant_id, ARRAY['owner', 'store_manager']));
+
+DROP POLICY IF EXISTS "Allow staff read access on product_styles" ON public.product_styles;
+DROP POLICY IF EXISTS "Allow managers to insert product_styles" ON public.product_styles;
+DROP POLICY IF EXISTS "Allow managers to update product_styles" ON public.product_styles;
+
+CREATE POLICY "Allow staff read access on product_styles"
+    ON public.product_styles FOR SELECT
+    TO authenticated
+    USING (public.is_tenant_staff(tenant_id, ARRAY['owner', 'store_manager', 'cashier']));
+
+CREATE POLICY "Allow managers to insert product_styles"
+    ON public.product_styles FOR INSERT
+    TO authenticated
+    WITH CHECK (public.is_tenant_staff(tenant_id, ARRAY['owner', 'store_manager']));
+
+CREATE POLICY "Allow managers to update product_styles"
+    ON public.product_styles FOR UPDATE
+    TO authenticated
+    USING (public.is_tenant_staff(tenant_id, ARRAY['owner', 'store_manager']))
+    WITH CHECK (public.is_tenant_staff(tenant_id, ARRAY['owner', 'store_manager']));
+
+DROP POLICY IF EXISTS "Allow staff read access on stores" ON public.stores;
+DROP POLICY IF EXISTS "Allow owners to insert stores" ON public.stores;
+DROP POLICY IF EXISTS "Allow owners to update stores" ON public.stores;
+
+CREATE POLICY "Allow staff read access on stores"
+    ON public.stores FOR SELECT
+    TO authenticated
+    USING (public.is_tenant_staff(tenant_id, ARRAY['owner', 'store_manager', 'cashier']));
+
+CREATE POLICY "Allow owners to insert stores"
+    ON public.stores FOR INSERT
+    TO authenticated
+    WITH CHECK (public.is_tenant_staff(tenant_id, ARRAY['owner']));
+
+CREATE POLICY "Allow owners to update stores"
+    ON public.stores FOR UPDATE
+    TO authenticated
+    USING (public.is_tenant_staff(tenant_id, ARRAY['owner']))
+    WITH CHECK (public.is_tenant_staff(tenant_id, ARRAY['owner']));
+
+-- Each tenant runs its own campaigns and keeps its own settings
+ALTER TABLE public.campaigns ADD COLUMN IF NOT EXISTS tenant_id UUID REFERENCES public.tenants(id);
+ALTER TABLE public.store_settings ADD COLUMN IF NOT EXISTS tenant_id UUID REFERENCES public.tenants(id);
+
+UPDATE public.campaigns SET tenant_id = (SELECT id FROM public.tenants WHERE slug = 'shuq') WHERE tenant_id IS NULL;
+UPDATE public.store_settings SET tenant_id = (SELECT id FROM public.tenants WHERE slug = 'shuq') WHERE tenant_id IS NULL;
+
+ALTER TABLE public.campaigns
+    ALTER COLUMN tenant_id SET DEFAULT public.current_tenant_id(),
+    ALTER COLUMN tenant_id SET NOT NULL;
+ALTER TABLE public.store_settings
+    ALTER COLUMN tenant_id SET DEFAULT public.current_tenant_id(),
+    ALTER COLUMN tenant_id SET NOT NULL;
+
+ALTER TABLE public.store_settings DROP CONSTRAINT IF EXISTS store_settings_pkey;
+ALTER TABLE public.store_settings ADD PRIMARY KEY (tenant_id, key);
+
+CREATE INDEX IF NOT EXISTS idx_campaigns_tenant_id ON public.campaigns(tenant_id);
+
+DROP POLICY IF EXISTS "Allow staff read access on campaigns" ON public.campaigns;
+DROP POLICY IF EXISTS "Allow staff read access on store_settings" ON public.store_settings;
+
+CREATE POLICY "Allow staff read access on campaigns"
+    ON public.campaigns FOR SELECT
+    TO authenticated
+    USING (public.is_tenant_staff(tenant_id, ARRAY['owner', 'store_manager']));
+
+CREATE POLICY "Allow staff read access on store_settings"
+    ON public.store_settings FOR SELECT
+    TO authenticated
+    USING (public.is_tenant_staff(tenant_id, ARRAY['owner', 'store_manager']));
+
+-- Attempt budget for a product right now: the most recently started running
+-- campaign of the product's tenant that covers the product wins, otherwise
+-- the product's own budget
+CREATE OR REPLACE FUNCTION public.resolve_attempt_budget(
+    p_product public.products,
+    p_now TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+)
+RETURNS INTEGER AS $$
+    SELECT COALESCE(
+        (
+            SELECT c.max_attempts
+            FROM public.campaigns c
+            WHERE c.tenant_id = p_product.tenant_id
+              AND c.is_active
+              AND c.starts_at <= p_now
+              AND (c.ends_at IS NULL OR c.ends_at > p_now)
+              AND (c.product_skus IS NULL OR p_product.sku = ANY(c.product_skus))
+            ORDER BY c.starts_at DESC
+            LIMIT 1
+        ),
+        p_product.max_attempts
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Coupon window for a product: its own, otherwise its tenant's default
+CREATE OR REPLACE FUNCTION public.resolve_coupon_ttl_minutes(p_product public.products)
+RETURNS INTEGER AS $$
+    SELECT COALESCE(
+        p_product.coupon_ttl_minutes,
+        (
+            SELECT (value #>> '{}')::INTEGER
+            FROM public.store_settings
+            WHERE tenant_id = p_product.tenant_id AND key = 'coupon_ttl_minutes'
+        ),
+        30
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Pricing rules follow the tenant of their store
+CREATE OR REPLACE FUNCTION public.is_store_staff(p_store_id UUID, p_roles TEXT[])
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.stores
+        WHERE id = p_store_id AND public.is_tenant_staff(tenant_id, p_roles)
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.is_store_staff(UUID, TEXT[]) TO authenticated;
+
+DROP POLICY IF EXISTS "Allow staff read access on store_products" ON public.store_products;
+DROP POLICY IF EXISTS "Allow managers to manage store_products" ON public.store_products;
+
+CREATE POLICY "Allow staff read access on store_products"
+    ON public.store_products FOR SELECT
+    TO authenticated
+    USING (public.is_store_staff(store_id, ARRAY['owner', 'store_manager', 'cashier']));
+
+CREATE POLICY "Allow managers to manage store_products"
+    ON public.store_products FOR ALL
+    TO authenticated
+    USING (public.is_store_staff(store_id, ARRAY['owner', 'store_manager']))
+    WITH CHECK (public.is_store_staff(store_id, ARRAY['owner', 'store_manager']));
+
+-- Product images (<sku>.<ext>) can only be changed by the product's tenant,
+-- and only while no other tenant uses the SKU. The product is created before
+-- its image is uploaded.
+CREATE OR REPLACE FUNCTION public.can_manage_product_image(p_name TEXT)
+RETURNS BOOLEAN AS $$
+    SELECT COALESCE(bool_and(public.is_tenant_staff(tenant_id, ARRAY['owner', 'store_manager'])), FALSE)
+    FROM public.products
+    WHERE sku = regexp_replace(p_name, '\.[^.]+$', '');
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.can_manage_product_image(TEXT) TO authenticated;
+
+DROP POLICY IF EXISTS "Allow managers to read product images" ON storage.objects;
+DROP POLICY IF EXISTS "Allow managers to upload product images" ON storage.objects;
+DROP POLICY IF EXISTS "Allow managers to update product images" ON storage.objects;
+DROP POLICY IF EXISTS "Allow managers to delete product images" ON storage.objects;
+
+CREATE POLICY "Allow managers to read product images"
+    ON storage.objects FOR SELECT
+    TO authenticated
+    USING (bucket_id = 'products' AND public.can_manage_product_image(name));
+
+CREATE POLICY "Allow managers to upload product images"
+    ON storage.objects FOR INSERT
+    TO authenticated
+    WITH CHECK (bucket_id = 'products' AND public.can_manage_product_image(name));
+
+CREATE POLICY "Allow managers to update product images"
+    ON storage.objects FOR UPDATE
+    TO authenticated
+    USING (bucket_id = 'products' AND public.can_manage_product_image(name));
+
+CREATE POLICY "Allow managers to delete product images"
+    ON storage.objects FOR DELETE
+    TO authenticated
+    USING (bucket_id = 'products' AND public.can_manage_product_image(name));
+
+-- Redeem the coupon with the given acceptance code (staff of the coupon's
+-- tenant only). Scanned coupons also pass the signature or token from the QR
+-- code, which must match the coupon.
+CREATE OR REPLACE FUNCTION public.redeem_coupon(
+    p_acceptance_code TEXT,
+    p_signature TEXT DEFAULT NULL,
+    p_token TEXT DEFAULT NULL
+)
+RETURNS public.offer_logs AS $$
+DECLARE
+    v_coupon public.offer_logs%ROWTYPE;
+BEGIN
+    IF NOT public.has_staff_role(ARRAY['owner', 'store_manager', 'cashier']) THEN
+        RAISE EXCEPTION 'not_authorized';
+    END IF;
+
+    -- Coupons of other tenants are reported as not found
+    SELECT * INTO v_coupon
+    FROM public.offer_logs
+    WHERE acceptance_code = UPPER(TRIM(p_acceptance_code))
+      AND offer_status = 'accepted'
+      AND tenant_id = public.current_tenant_id()
+    FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'coupon_not_found';
+    END IF;
+
+    IF p_signature IS NOT NULL AND LOWER(p_signature) IS DISTINCT FROM v_coupon.coupon_signature THEN
+        RAISE EXCEPTION 'coupon_signature_invalid';
+    END IF;
+
+    IF p_token IS NOT NULL AND p_token IS DISTINCT FROM v_coupon.coupon_token THEN
+        RAISE EXCEPTION 'coupon_signature_invalid';
+    END IF;
+
+    IF v_coupon.coupon_status = 'redeemed' OR v_coupon.is_redeemed THEN
+        RAISE EXCEPTION 'coupon_already_redeemed';
+    END IF;
+
+    IF v_coupon.coupon_status = 'cancelled' THEN
+        RAISE EXCEPTION 'coupon_cancelled';
+    END IF;
+
+    IF v_coupon.coupon_status = 'expired' OR v_coupon.expires_at <= NOW() THEN
+        RAISE EXCEPTION 'coupon_expired';
+    END IF;
+
+    UPDATE public.offer_logs
+    SET is_redeemed = TRUE
+    WHERE id = v_coupon.id
+    RETURNING * INTO v_coupon;
+
+    RETURN v_coupon;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Keys that sign each tenant's coupon tokens, so cashier devices only get the
+-- key of their own tenant. The default tenant keeps the key its coupons were
+-- signed with.
+CREATE TABLE IF NOT EXISTS private.coupon_token_keys (
+    tenant_id UUID PRIMARY KEY REFERENCES public.tenants(id) ON DELETE CASCADE,
+    value TEXT NOT NULL DEFAULT encode(extensions.gen_random_bytes(32), 'hex'),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+REVOKE ALL ON private.coupon_token_keys FROM PUBLIC;
+
+INSERT INTO private.coupon_token_keys (tenant_id, value)
+SELECT t.id, s.value
+FROM public.tenants t, private.app_secrets s
+WHERE t.slug = 'shuq' AND s.key = 'coupon_token_key'
+ON CONFLICT (tenant_id) DO NOTHING;
+
+INSERT INTO private.coupon_token_keys (tenant_id)
+SELECT id FROM public.tenants
+ON CONFLICT (tenant_id) DO NOTHING;
+
+-- New tenants get a key of their own
+CREATE OR REPLACE FUNCTION public.handle_tenant_coupon_token_key()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO private.coupon_token_keys (tenant_id) VALUES (NEW.id)
+    ON CONFLICT (tenant_id) DO NOTHING;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_tenants_coupon_token_key ON public.tenants;
+CREATE TRIGGER trigger_tenants_coupon_token_key
+    AFTER INSERT ON public.tenants
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_tenant_coupon_token_key();
+
+-- Signed coupon token (see COUPON_TOKEN_SETUP.sql), signed with the key of
+-- the coupon's tenant
+CREATE OR REPLACE FUNCTION public.build_coupon_token(p_offer public.offer_logs)
+RETURNS TEXT AS $$
+DECLARE
+    v_key TEXT;
+    v_unsigned TEXT;
+BEGIN
+    SELECT value INTO v_key FROM private.coupon_token_keys WHERE tenant_id = p_offer.tenant_id;
+
+    v_unsigned := 'v1.' || public.base64url_encode(convert_to(
+        json_build_object(
+            'c', p_offer.acceptance_code,
+            's', p_offer.product_sku,
+            'p', p_offer.offered_amount,
+            'e', floor(extract(epoch FROM p_offer.expires_at))::BIGINT
+        )::TEXT,
+        'UTF8'
+    ));
+
+    RETURN v_unsigned || '.' || public.base64url_encode(
+        extensions.hmac(convert_to(v_unsigned, 'UTF8'), decode(v_key, 'hex'), 'sha256')
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Re-sign the coupons of tenants that used the shared key
+UPDATE public.offer_logs
+SET coupon_token = public.build_coupon_token(offer_logs)
+WHERE acceptance_code IS NOT NULL
+  AND coupon_token IS DISTINCT FROM public.build_coupon_token(offer_logs);
+
+-- Key for verifying coupon tokens on cashier devices (staff of the key's tenant only)
+CREATE OR REPLACE FUNCTION public.get_coupon_token_key()
+RETURNS TEXT AS $$
+BEGIN
+    IF NOT public.has_staff_role(ARRAY['owner', 'store_manager', 'cashier']) THEN
+        RAISE EXCEPTION 'not_authorized';
+    END IF;
+
+    RETURN (SELECT value FROM private.coupon_token_keys WHERE tenant_id = public.current_tenant_id());
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Units a store keeps of one of its tenant's products, NULL when it draws on
+-- the product's stock. Tenants can share an SKU, so stock is looked up per tenant.
+CREATE OR REPLACE FUNCTION public.store_stock_quantity(p_store_id UUID, p_product_sku TEXT)
+RETURNS INTEGER AS $$
+    SELECT sp.stock_quantity
+    FROM public.store_products sp
+    JOIN public.stores s ON s.id = sp.store_id
+    JOIN public.products p ON p.id = sp.product_id AND p.tenant_id = s.tenant_id
+    WHERE sp.store_id = p_store_id AND p.sku = p_product_sku;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Units of the product's own stock held by pending coupons: those issued
+-- without a store or in stores that don't keep their own stock of it
+DROP FUNCTION IF EXISTS public.reserved_stock(TEXT);
+CREATE OR REPLACE FUNCTION public.reserved_stock(p_tenant_id UUID, p_product_sku TEXT)
+RETURNS INTEGER AS $$
+    SELECT COUNT(*)::INTEGER
+    FROM public.offer_logs
+    WHERE tenant_id = p_tenant_id
+      AND product_sku = p_product_sku
+      AND coupon_status = 'active'
+      AND expires_at > NOW()
+      AND public.store_stock_quantity(store_id, p_product_sku) IS NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.available_stock(p_product public.products)
+RETURNS INTEGER AS $$
+    SELECT CASE
+        WHEN p_product.stock_quantity IS NULL THEN NULL
+        ELSE GREATEST(0, p_product.stock_quantity - public.reserved_stock(p_product.tenant_id, p_product.sku))
+    END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.reserved_stock(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Refuse offers on products sold out in the store the offer is made in, or
+-- everywhere when the store draws on the product's stock
+CREATE OR REPLACE FUNCTION public.handle_offer_log_stock()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_product public.products%ROWTYPE;
+    v_store_stock INTEGER;
+BEGIN
+    -- Lock the product so concurrent offers can't reserve the same unit
+    SELECT * INTO v_product
+    FROM public.products
+    WHERE tenant_id = NEW.tenant_id AND sku = NEW.product_sku
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN NEW;
+    END IF;
+
+    v_store_stock := public.store_stock_quantity(NEW.store_id, NEW.product_sku);
+
+    IF v_store_stock IS NOT NULL THEN
+        IF v_store_stock - public.reserved_store_stock(NEW.store_id, NEW.product_sku) <= 0 THEN
+            RAISE EXCEPTION 'out_of_stock';
+        END IF;
+    ELSIF public.available_stock(v_product) <= 0 THEN
+        RAISE EXCEPTION 'out_of_stock';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Take a redeemed unit out of the store's stock, or the product's when the
+-- store draws on it
+CREATE OR REPLACE FUNCTION public.handle_redemption_stock()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.is_redeemed AND NOT COALESCE(OLD.is_redeemed, FALSE) THEN
+        UPDATE public.store_products sp
+        SET stock_quantity = GREATEST(0, sp.stock_quantity - 1)
+        FROM public.products p
+        WHERE p.id = sp.product_id
+          AND p.tenant_id = NEW.tenant_id
+          AND p.sku = NEW.product_sku
+          AND sp.store_id = NEW.store_id
+          AND sp.stock_quantity IS NOT NULL;
+
+        IF NOT FOUND THEN
+            UPDATE public.products
+            SET stock_quantity = GREATEST(0, stock_quantity - 1)
+            WHERE tenant_id = NEW.tenant_id AND sku = NEW.product_sku AND stock_quantity IS NOT NULL;
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE VIEW public.product_stock
+WITH (security_invoker = true) AS
+SELECT
+    p.sku,
+    p.stock_quantity,
+    r.reserved_quantity,
+    CASE
+        WHEN p.stock_quantity IS NULL THEN NULL
+        ELSE GREATEST(0, p.stock_quantity - r.reserved_quantity)
+    END AS available_quantity
+FROM public.products p
+CROSS JOIN LATERAL (
+    SELECT COUNT(*)::INTEGER AS reserved_quantity
+    FROM public.offer_logs o
+    WHERE o.tenant_id = p.tenant_id
+      AND o.product_sku = p.sku
+      AND o.coupon_status = 'active'
+      AND o.expires_at > NOW()
+      AND NOT EXISTS (
+          SELECT 1 FROM public.store_products sp
+          WHERE sp.store_id = o.store_id AND sp.product_id = p.id AND sp.stock_quantity IS NOT NULL
+      )
+) r;
+
+-- Record which variant each offer was made on
+CREATE OR REPLACE FUNCTION public.handle_offer_log_variant()
+RETURNS TRIGGER AS $$
+BEGIN
+    SELECT s.code, p.color, p.size
+    INTO NEW.product_style_code, NEW.variant_color, NEW.variant_size
+    FROM public.products p
+    LEFT JOIN public.product_styles s ON s.id = p.style_id
+    WHERE p.tenant_id = NEW.tenant_id AND p.sku = NEW.product_sku;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Id of the tenant's active store with the given code, NULL when no store is given
+DROP FUNCTION IF EXISTS public.resolve_store_id(TEXT);
+CREATE OR REPLACE FUNCTION public.resolve_store_id(p_tenant_id UUID, p_store_code TEXT)
+RETURNS UUID AS $$
+DECLARE
+    v_store_id UUID;
+BEGIN
+    IF p_store_code IS NULL OR p_store_code = '' THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT id INTO v_store_id
+    FROM public.stores
+    WHERE tenant_id = p_tenant_id AND code = LOWER(p_store_code) AND is_active;
+
+    IF v_store_id IS NULL THEN
+        RAISE EXCEPTION 'store_not_found';
+    END IF;
+
+    RETURN v_store_id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.resolve_store_id(UUID, TEXT) FROM PUBLIC;
+
+-- Submit an offer for one of the tenant's products on behalf of a shopper
+-- session, at the prices of the store the shopper scanned the product in
+DROP FUNCTION IF EXISTS public.submit_offer(TEXT, TEXT, DECIMAL, TEXT);
+CREATE OR REPLACE FUNCTION public.submit_offer(
+    p_tenant_id UUID,
+    p_product_sku TEXT,
+    p_session_id TEXT,
+    p_offered_amount DECIMAL,
+    p_store_code TEXT DEFAULT NULL
+)
+RETURNS public.offer_logs AS $$
+DECLARE
+    v_product public.products%ROWTYPE;
+    v_style_code VARCHAR;
+    v_store_id UUID;
+    v_last_offer public.offer_logs%ROWTYPE;
+    v_attempts INTEGER;
+    v_is_accepted BOOLEAN;
+    v_status TEXT;
+    v_counter_amount DECIMAL;
+    v_offer public.offer_logs%ROWTYPE;
+BEGIN
+    PERFORM public.assert_shopper_session(p_session_id);
+
+    IF p_offered_amount IS NULL OR p_offered_amount < 0 THEN
+        RAISE EXCEPTION 'invalid_offer_amount';
+    END IF;
+
+    SELECT * INTO v_product
+    FROM public.products
+    WHERE tenant_id = p_tenant_id AND sku = p_product_sku AND archived_at IS NULL;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'product_not_found';
+    END IF;
+
+    v_store_id := public.resolve_store_id(p_tenant_id, p_store_code);
+    v_product := public.apply_store_pricing(v_product, v_store_id);
+
+    -- Variants of a style share one negotiation
+    v_style_code := public.negotiation_style_code(v_product);
+
+    -- Serialize concurrent offers from the same session on the same product or style
+    PERFORM pg_advisory_xact_lock(hashtext(p_session_id || ':' || p_tenant_id || ':' || COALESCE(v_style_code, p_product_sku)));
+
+    v_attempts := public.resolve_attempt_budget(v_product);
+
+    SELECT * INTO v_last_offer
+    FROM public.offer_logs
+    WHERE session_id = p_session_id
+      AND tenant_id = p_tenant_id
+      AND (product_sku = p_product_sku OR product_style_code = v_style_code)
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    -- An accepted offer starts a fresh negotiation for the product or style
+    IF FOUND AND v_last_offer.offer_status <> 'accepted' THEN
+        v_attempts := v_last_offer.attempts_remaining;
+    END IF;
+
+    IF v_attempts <= 0 THEN
+        RAISE EXCEPTION 'no_attempts_remaining';
+    END IF;
+
+    v_is_accepted := public.evaluate_offer(v_product, p_offered_amount);
+
+    -- Counter while the shopper can still negotiate, reject on the last attempt
+    -- and offers too low to counter
+    IF NOT v_is_accepted AND v_attempts - 1 > 0 THEN
+        v_counter_amount := public.compute_counter_offer(v_product, p_offered_amount);
+    END IF;
+
+    v_status := CASE
+        WHEN v_is_accepted THEN 'accepted'
+        WHEN v_counter_amount IS NOT NULL THEN 'countered'
+        ELSE 'rejected'
+    END;
+
+    INSERT INTO public.offer_logs (
+        session_id,
+        product_sku,
+        product_name,
+        product_price,
+        product_max_discount_percentage,
+        offered_amount,
+        offer_status,
+        attempts_remaining,
+        acceptance_code,
+        counter_amount,
+        coupon_status,
+        expires_at,
+        store_id,
+        tenant_id
+    ) VALUES (
+        p_session_id,
+        v_product.sku,
+        v_product.name,
+        v_product.price,
+        v_product.max_discount_percentage,
+        p_offered_amount,
+        v_status,
+        CASE WHEN v_is_accepted THEN v_attempts ELSE v_attempts - 1 END,
+        CASE WHEN v_is_accepted THEN public.generate_acceptance_code() ELSE NULL END,
+        v_counter_amount,
+        CASE WHEN v_is_accepted THEN 'active' ELSE NULL END,
+        CASE WHEN v_is_accepted THEN public.coupon_expires_at(v_product) ELSE NULL END,
+        v_store_id,
+        v_product.tenant_id
+    )
+    RETURNING * INTO v_offer;
+
+    RETURN public.shopper_offer_log(v_offer);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Accept the store's counter price. Only the most recent offer of the session
+-- for that product or style can be accepted, so a newer offer on any of its
+-- variants supersedes the counter.
+-- The coupon belongs to the tenant and store the counter-offer was made in.
+CREATE OR REPLACE FUNCTION public.accept_counter_offer(
+    p_offer_id UUID,
+    p_session_id TEXT
+)
+RETURNS public.offer_logs AS $$
+DECLARE
+    v_countered public.offer_logs%ROWTYPE;
+    v_product public.products%ROWTYPE;
+    v_latest_id UUID;
+    v_offer public.offer_logs%ROWTYPE;
+BEGIN
+    PERFORM public.assert_shopper_session(p_session_id);
+
+    SELECT * INTO v_countered
+    FROM public.offer_logs
+    WHERE id = p_offer_id AND session_id = p_session_id AND offer_status = 'countered';
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'counter_offer_not_found';
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext(p_session_id || ':' || v_countered.tenant_id || ':' || COALESCE(v_countered.product_style_code, v_countered.product_sku)));
+
+    SELECT id INTO v_latest_id
+    FROM public.offer_logs
+    WHERE session_id = p_session_id
+      AND tenant_id = v_countered.tenant_id
+      AND (product_sku = v_countered.product_sku OR product_style_code = v_countered.product_style_code)
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    IF v_latest_id <> v_countered.id THEN
+        RAISE EXCEPTION 'counter_offer_unavailable';
+    END IF;
+
+    SELECT * INTO v_product
+    FROM public.products
+    WHERE tenant_id = v_countered.tenant_id AND sku = v_countered.product_sku;
+    v_product := public.apply_store_pricing(v_product, v_countered.store_id);
+
+    -- The strategy's floor can move with the time of day or stock, so the
+    -- counter must still clear it
+    IF v_countered.counter_amount < public.negotiation_floor_price(v_product) THEN
+        RAISE EXCEPTION 'counter_offer_unavailable';
+    END IF;
+
+    INSERT INTO public.offer_logs (
+        session_id,
+        product_sku,
+        product_name,
+        product_price,
+        product_max_discount_percentage,
+        offered_amount,
+        offer_status,
+        attempts_remaining,
+        acceptance_code,
+        coupon_status,
+        expires_at,
+        store_id,
+        tenant_id
+    ) VALUES (
+        v_countered.session_id,
+        v_countered.product_sku,
+        v_countered.product_name,
+        v_countered.product_price,
+        v_countered.product_max_discount_percentage,
+        v_countered.counter_amount,
+        'accepted',
+        v_countered.attempts_remaining,
+        public.generate_acceptance_code(),
+        'active',
+        public.coupon_expires_at(v_product),
+        v_countered.store_id,
+        v_countered.tenant_id
+    )
+    RETURNING * INTO v_offer;
+
+    RETURN public.shopper_offer_log(v_offer);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Accept the consolation discount on one of the tenant's products once the
+-- shopper's attempts are used up, off the price of the store the shopper is in
+DROP FUNCTION IF EXISTS public.accept_consolation_offer(TEXT, TEXT, TEXT);
+CREATE OR REPLACE FUNCTION public.accept_consolation_offer(
+    p_tenant_id UUID,
+    p_product_sku TEXT,
+    p_session_id TEXT,
+    p_store_code TEXT DEFAULT NULL
+)
+RETURNS public.offer_logs AS $$
+DECLARE
+    v_product public.products%ROWTYPE;
+    v_style_code VARCHAR;
+    v_store_id UUID;
+    v_last_offer public.offer_logs%ROWTYPE;
+    v_offer public.offer_logs%ROWTYPE;
+BEGIN
+    PERFORM public.assert_shopper_session(p_session_id);
+
+    SELECT * INTO v_product
+    FROM public.products
+    WHERE tenant_id = p_tenant_id AND sku = p_product_sku AND archived_at IS NULL;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'product_not_found';
+    END IF;
+
+    v_store_id := public.resolve_store_id(p_tenant_id, p_store_code);
+    v_product := public.apply_store_pricing(v_product, v_store_id);
+
+    -- Attempts run out for the whole style, so any of its variants qualifies
+    v_style_code := public.negotiation_style_code(v_product);
+
+    -- Serialize with submit_offer() for the same session and product or style
+    PERFORM pg_advisory_xact_lock(hashtext(p_session_id || ':' || p_tenant_id || ':' || COALESCE(v_style_code, p_product_sku)));
+
+    SELECT * INTO v_last_offer
+    FROM public.offer_logs
+    WHERE session_id = p_session_id
+      AND tenant_id = p_tenant_id
+      AND (product_sku = p_product_sku OR product_style_code = v_style_code)
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    -- Only available right after the final attempt was rejected
+    IF NOT FOUND OR v_last_offer.offer_status <> 'rejected' OR v_last_offer.attempts_remaining > 0 THEN
+        RAISE EXCEPTION 'consolation_offer_unavailable';
+    END IF;
+
+    INSERT INTO public.offer_logs (
+        session_id,
+        product_sku,
+        product_name,
+        product_price,
+        product_max_discount_percentage,
+        offered_amount,
+        offer_status,
+        offer_type,
+        attempts_remaining,
+        acceptance_code,
+        coupon_status,
+        expires_at,
+        store_id,
+        tenant_id
+    ) VALUES (
+        p_session_id,
+        v_product.sku,
+        v_product.name,
+        v_product.price,
+        v_product.max_discount_percentage,
+        ROUND(public.price_after_discount(v_product.price, v_product.consolation_discount_percentage)),
+        'accepted',
+        'consolation',
+        0,
+        public.generate_acceptance_code(),
+        'active',
+        public.coupon_expires_at(v_product),
+        v_store_id,
+        v_product.tenant_id
+    )
+    RETURNING * INTO v_offer;
+
+    RETURN public.shopper_offer_log(v_offer);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Offer functions need a signed-in (possibly anonymous) shopper
+REVOKE ALL ON FUNCTION public.submit_offer(UUID, TEXT, TEXT, DECIMAL, TEXT) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.accept_consolation_offer(UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.submit_offer(UUID, TEXT, TEXT, DECIMAL, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.accept_consolation_offer(UUID, TEXT, TEXT, TEXT) TO authenticated;
+
+-- Let the storefront filter products by tenant
+CREATE OR REPLACE VIEW public.public_products AS
+SELECT
+    p.id,
+    p.sku,
+    p.name,
+    p.description,
+    p.price,
+    p.image,
+    p.created_at,
+    p.updated_at,
+    public.resolve_attempt_budget(p) AS attempt_budget,
+    public.resolve_coupon_ttl_minutes(p) AS coupon_ttl_minutes,
+    p.consolation_discount_percentage,
+    p.style_id,
+    s.code AS style_code,
+    s.name AS style_name,
+    p.color,
+    p.size,
+    COALESCE(public.available_stock(p) > 0, TRUE) AS in_stock,
+    p.tenant_id
+FROM public.products p
+LEFT JOIN public.product_styles s ON s.id = p.style_id
+WHERE p.archived_at IS NULL;
+
+CREATE OR REPLACE VIEW public.public_store_products AS
+SELECT
+    pp.id,
+    pp.sku,
+    pp.name,
+    pp.description,
+    COALESCE(sp.price_override, pp.price) AS price,
+    pp.image,
+    pp.created_at,
+    pp.updated_at,
+    pp.attempt_budget,
+    pp.coupon_ttl_minutes,
+    pp.consolation_discount_percentage,
+    pp.style_id,
+    pp.style_code,
+    pp.style_name,
+    pp.color,
+    pp.size,
+    COALESCE(public.store_in_stock(s.id, pp.sku), pp.in_stock) AS in_stock,
+    s.id AS store_id,
+    s.code AS store_code,
+    s.name AS store_name,
+    pp.tenant_id
+FROM public.public_products pp
+JOIN public.stores s ON s.tenant_id = pp.tenant_id
+LEFT JOIN public.store_products sp ON sp.store_id = s.id AND sp.product_id = pp.id
+WHERE s.is_active;
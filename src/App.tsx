@@ -5,7 +5,12 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import Admin from "./pages/Admin";
+import Redeem from "./pages/Redeem";
+import Labels from "./pages/Labels";
+import Login from "./pages/Login";
 import NotFound from "./pages/NotFound";
+import { RequireStaff } from "./components/RequireStaff";
+import { ADMIN_ROLES, REDEEM_ROLES } from "./lib/auth";
 import "./App.css";
 
 const queryClient = new QueryClient();
@@ -19,7 +24,10 @@ const App = () => (
         <Routes>
           <Route path="/" element={<Index />} />
           <Route path="/products/:sku" element={<Index />} />
-          <Route path="/admin" element={<Admin />} />
+          <Route path="/login" element={<Login />} />
+          <Route path="/admin" element={<RequireStaff roles={ADMIN_ROLES}><Admin /></RequireStaff>} />
+          <Route path="/admin/labels" element={<RequireStaff roles={ADMIN_ROLES}><Labels /></RequireStaff>} />
+          <Route path="/redeem" element={<RequireStaff roles={REDEEM_ROLES}><Redeem /></RequireStaff>} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { PrivilegedProduct } from '@/lib/database';
+import { CATALOG_COLUMNS, CatalogImportResult, CatalogImportRow, CatalogImportStatus, importProducts, previewCatalogImport } from '@/lib/catalog';
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'name',
+  description: 'description',
+  price: 'price',
+  maxDiscountPercentage: 'max discount',
+};
+
+interface CatalogImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  products: PrivilegedProduct[]; // Current catalog, to preview changes by SKU
+  onImported: () => void;
+}
+
+// Preview a CSV or JSON catalog file against the current products, then import it
+export const CatalogImportDialog: React.FC<CatalogImportDialogProps> = ({ open, onOpenChange, products, onImported }) => {
+  const [rows, setRows] = useState<CatalogImportRow[] | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importResults, setImportResults] = useState<CatalogImportResult[] | null>(null);
+
+  const reset = () => {
+    setRows(null);
+    setFileError(null);
+    setImportResults(null);
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) reset();
+    onOpenChange(isOpen);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    reset();
+    if (!file) return;
+
+    try {
+      const format = file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+      setRows(previewCatalogImport(await file.text(), format, products));
+    } catch (err) {
+      setFileError(err instanceof Error ? err.message : 'Could not read the file.');
+    }
+  };
+
+  const rowsToImport = rows?.filter((row) => row.status === 'new' || row.status === 'changed') ?? [];
+
+  const countByStatus = (status: CatalogImportStatus) => {
+    return rows?.filter((row) => row.status === status).length ?? 0;
+  };
+
+  const handleImport = async () => {
+    try {
+      setIsImporting(true);
+      setFileError(null);
+      setImportResults(await importProducts(rowsToImport));
+      setRows(null);
+      onImported();
+    } catch (err) {
+      console.error('Error importing catalog:', err);
+      setFileError('Error importing products. Please try again.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const failedImports = importResults?.filter((result) => result.error) ?? [];
+
+  const getStatusBadge = (status: CatalogImportStatus) => {
+    switch (status) {
+      case 'new':
+        return <Badge className="bg-green-100 text-green-800">New</Badge>;
+      case 'changed':
+        return <Badge className="bg-orange-100 text-orange-800">Changed</Badge>;
+      case 'unchanged':
+        return <Badge className="bg-gray-100 text-gray-800">Unchanged</Badge>;
+      case 'invalid':
+        return <Badge className="bg-red-100 text-red-800">Error</Badge>;
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import products</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or JSON file with the columns {CATALOG_COLUMNS.join(', ')}. Products are matched by SKU;
+            archived products stay archived and images are kept. Leave max_discount_percentage empty to use the
+            product's category default.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFileChange} />
+
+        {fileError && (
+          <p className="text-sm text-red-600">{fileError}</p>
+        )}
+
+        {importResults && (
+          <p className="text-sm text-green-700">Imported {importResults.length - failedImports.length} products.</p>
+        )}
+
+        {failedImports.length > 0 && (
+          <div className="text-sm text-red-600">
+            <p>{failedImports.length} products could not be saved:</p>
+            <ul className="list-disc pl-5 max-h-40 overflow-y-auto">
+              {failedImports.map((result) => (
+                <li key={result.rowNumber}>Row {result.rowNumber} ({result.sku}): {result.error}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {rows && (
+          <>
+            <p className="text-sm text-gray-600">
+              {countByStatus('new')} new, {countByStatus('changed')} changed, {countByStatus('unchanged')} unchanged,{' '}
+              {countByStatus('invalid')} with errors. Rows with errors are skipped.
+            </p>
+            <div className="max-h-80 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>SKU</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => (
+                    <TableRow key={row.rowNumber}>
+                      <TableCell className="text-sm text-gray-500">{row.rowNumber}</TableCell>
+                      <TableCell className="font-mono text-sm">{row.sku || '-'}</TableCell>
+                      <TableCell>{getStatusBadge(row.status)}</TableCell>
+                      <TableCell className="text-sm">
+                        {row.status === 'invalid' ? (
+                          <span className="text-red-600">{row.errors.join('. ')}</span>
+                        ) : row.status === 'changed' ? (
+                          <span className="text-gray-600">Updates {row.changes.map((field) => FIELD_LABELS[field]).join(', ')}</span>
+                        ) : (
+                          <span className="text-gray-600">{row.details?.name}</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isImporting}>
+            Close
+          </Button>
+          <Button
+            onClick={handleImport}
+            className="bg-purple-600 text-white"
+            disabled={isImporting || rowsToImport.length === 0}
+          >
+            {isImporting ? 'Importing...' : `Import ${rowsToImport.length} products`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,297 @@
+import React from 'react';
+import { useForm, UseFormReturn } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Category, Collection, formatSizeGuide, readSizeGuide, toSlug } from '@/lib/categories';
+
+// Blank optional numbers are stored as null
+const optionalNumber = (schema: z.ZodNumber) => z.preprocess(
+  (value) => (value === '' || value === undefined ? null : value),
+  schema.nullable()
+);
+
+const groupingSchema = z.object({
+  name: z.string()
+    .trim()
+    .min(1, 'Name is required')
+    .max(50, 'Name must be 50 characters or less'),
+  slug: z.string()
+    .trim()
+    .min(1, 'Slug is required')
+    .max(50, 'Slug must be 50 characters or less')
+    .regex(/^[a-z0-9-]+$/, 'Use only lowercase letters, numbers and dashes'),
+  sortOrder: z.coerce.number({ invalid_type_error: 'Enter a number' })
+    .int('Use a whole number'),
+  isActive: z.boolean(),
+});
+
+const categoryFormSchema = groupingSchema.extend({
+  defaultMaxDiscountPercentage: optionalNumber(
+    z.coerce.number({ invalid_type_error: 'Enter a percentage' })
+      .int('Use a whole percentage')
+      .min(0, 'Max discount can\'t be negative')
+      .max(100, 'Max discount can\'t be over 100%')
+  ),
+  defaultMaxAttempts: optionalNumber(
+    z.coerce.number({ invalid_type_error: 'Enter a number of attempts' })
+      .int('Use a whole number of attempts')
+      .min(1, 'Allow at least 1 attempt')
+  ),
+  // Blank means the category has no size guide
+  sizeGuide: z.string()
+    .refine((text) => {
+      const guide = readSizeGuide(text);
+      return !guide || guide.rows.every((row) => row.size && row.values.length === guide.columns.length);
+    }, 'Give every size a value for each measurement'),
+});
+
+const collectionFormSchema = groupingSchema.extend({
+  description: z.preprocess(
+    (value) => (typeof value === 'string' && value.trim() !== '' ? value.trim() : null),
+    z.string().nullable()
+  ),
+});
+
+type GroupingFormValues = z.infer<typeof groupingSchema>;
+export type CategoryFormValues = z.infer<typeof categoryFormSchema>;
+export type CollectionFormValues = z.infer<typeof collectionFormSchema>;
+
+interface FormActionsProps {
+  isSaving: boolean;
+  isEditing: boolean;
+  error: string | null;
+  onCancel: () => void;
+}
+
+const FormActions: React.FC<FormActionsProps> = ({ isSaving, isEditing, error, onCancel }) => (
+  <>
+    {error && (
+      <p className="text-sm text-red-600">{error}</p>
+    )}
+
+    <div className="flex justify-end gap-2">
+      <Button type="button" variant="outline" onClick={onCancel} disabled={isSaving}>
+        Cancel
+      </Button>
+      <Button type="submit" className="bg-purple-600 text-white" disabled={isSaving}>
+        {isSaving ? 'Saving...' : isEditing ? 'Save changes' : 'Create'}
+      </Button>
+    </div>
+  </>
+);
+
+// Name, slug, display order and visibility shared by categories and collections.
+// A new one's slug follows its name until the slug is edited.
+const GroupingFields = ({ form, isEditing }: { form: UseFormReturn<GroupingFormValues>; isEditing: boolean }) => (
+  <>
+    <FormField
+      control={form.control}
+      name="name"
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>Name</FormLabel>
+          <FormControl>
+            <Input
+              {...field}
+              onChange={(e) => {
+                field.onChange(e);
+                if (!isEditing && !form.getFieldState('slug').isDirty) {
+                  form.setValue('slug', toSlug(e.target.value));
+                }
+              }}
+            />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+
+    <FormField
+      control={form.control}
+      name="slug"
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>Slug</FormLabel>
+          <FormControl>
+            <Input {...field} className="font-mono" />
+          </FormControl>
+          <FormDescription>Identifies it in storefront filters.</FormDescription>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+
+    <div className="grid grid-cols-2 gap-4">
+      <FormField
+        control={form.control}
+        name="sortOrder"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Sort order</FormLabel>
+            <FormControl>
+              <Input {...field} value={field.value ?? ''} type="number" step="1" />
+            </FormControl>
+            <FormDescription>Lower numbers are shown first.</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={form.control}
+        name="isActive"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Visible to shoppers</FormLabel>
+            <FormControl>
+              <div>
+                <Switch checked={field.value} onCheckedChange={field.onChange} />
+              </div>
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </div>
+  </>
+);
+
+interface CategoryFormProps {
+  category?: Category; // Edit this category, or create a new one when missing
+  error: string | null;
+  onSubmit: (values: CategoryFormValues) => Promise<void>;
+  onCancel: () => void;
+}
+
+// Create and edit form for categories in the admin Categories tab
+export const CategoryForm: React.FC<CategoryFormProps> = ({ category, error, onSubmit, onCancel }) => {
+  const form = useForm<CategoryFormValues>({
+    resolver: zodResolver(categoryFormSchema),
+    defaultValues: {
+      name: category?.name ?? '',
+      slug: category?.slug ?? '',
+      sortOrder: category?.sortOrder ?? 0,
+      isActive: category?.isActive ?? true,
+      defaultMaxDiscountPercentage: category?.defaultMaxDiscountPercentage ?? null,
+      defaultMaxAttempts: category?.defaultMaxAttempts ?? null,
+      sizeGuide: formatSizeGuide(category?.sizeGuide ?? null),
+    },
+  });
+
+  const isSaving = form.formState.isSubmitting;
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <GroupingFields form={form} isEditing={!!category} />
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="defaultMaxDiscountPercentage"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Default max discount %</FormLabel>
+                <FormControl>
+                  <Input {...field} value={field.value ?? ''} type="number" min="0" max="100" step="1" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="defaultMaxAttempts"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Default attempts</FormLabel>
+                <FormControl>
+                  <Input {...field} value={field.value ?? ''} type="number" min="1" step="1" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Used by products in this category without their own value. Leave empty for no discount and 3 attempts.
+        </p>
+
+        <FormField
+          control={form.control}
+          name="sizeGuide"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Size guide</FormLabel>
+              <FormControl>
+                <Textarea {...field} rows={5} className="font-mono text-sm" placeholder={'Talle, Pecho, Largo\nS, 50, 68\nM, 52, 70'} />
+              </FormControl>
+              <FormDescription>
+                Shown on the detail page of the category's products. One line per size, measurements in cm separated by commas.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormActions isSaving={isSaving} isEditing={!!category} error={error} onCancel={onCancel} />
+      </form>
+    </Form>
+  );
+};
+
+interface CollectionFormProps {
+  collection?: Collection; // Edit this collection, or create a new one when missing
+  error: string | null;
+  onSubmit: (values: CollectionFormValues) => Promise<void>;
+  onCancel: () => void;
+}
+
+// Create and edit form for collections in the admin Categories tab
+export const CollectionForm: React.FC<CollectionFormProps> = ({ collection, error, onSubmit, onCancel }) => {
+  const form = useForm<CollectionFormValues>({
+    resolver: zodResolver(collectionFormSchema),
+    defaultValues: {
+      name: collection?.name ?? '',
+      slug: collection?.slug ?? '',
+      sortOrder: collection?.sortOrder ?? 0,
+      isActive: collection?.isActive ?? true,
+      description: collection?.description ?? null,
+    },
+  });
+
+  const isSaving = form.formState.isSubmitting;
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <GroupingFields form={form} isEditing={!!collection} />
+
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description</FormLabel>
+              <FormControl>
+                <Textarea {...field} value={field.value ?? ''} rows={2} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <p className="text-sm text-muted-foreground">
+          Add products to the collection from the Products tab.
+        </p>
+
+        <FormActions isSaving={isSaving} isEditing={!!collection} error={error} onCancel={onCancel} />
+      </form>
+    </Form>
+  );
+};
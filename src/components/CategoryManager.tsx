@@ -0,0 +1,298 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Pencil, Plus } from "lucide-react";
+import {
+  getCategories,
+  readSizeGuide,
+  createCategory,
+  updateCategory,
+  getCollections,
+  createCollection,
+  updateCollection,
+  Category,
+  Collection
+} from '@/lib/categories';
+import { useStaffMember } from '@/hooks/use-staff-member';
+import { CategoryForm, CategoryFormValues, CollectionForm, CollectionFormValues } from '@/components/CategoryForm';
+
+type EditingItem =
+  | { kind: 'category'; category?: Category }
+  | { kind: 'collection'; collection?: Collection };
+
+// Categories tab of the admin dashboard: categories with their negotiation
+// defaults, and collections
+export const CategoryManager: React.FC = () => {
+  const { staffMember } = useStaffMember();
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<EditingItem | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const loadCategories = useCallback(async () => {
+    if (!staffMember) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      const [categoriesData, collectionsData] = await Promise.all([
+        getCategories(staffMember.tenantId),
+        getCollections(staffMember.tenantId)
+      ]);
+
+      setCategories(categoriesData);
+      setCollections(collectionsData);
+    } catch (err) {
+      console.error('Error loading categories:', err);
+      setError('Error loading categories. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [staffMember]);
+
+  useEffect(() => {
+    loadCategories();
+  }, [loadCategories]);
+
+  const openForm = (item: EditingItem) => {
+    setEditing(item);
+    setFormError(null);
+  };
+
+  const getSaveErrorMessage = (err) => {
+    return err?.code === '23505'
+      ? 'Another one already uses this slug.'
+      : 'Error saving. Please try again.';
+  };
+
+  const handleCategorySubmit = async (values: CategoryFormValues) => {
+    if (editing?.kind !== 'category') return;
+
+    try {
+      setFormError(null);
+
+      const details = {
+        name: values.name,
+        slug: values.slug,
+        sortOrder: values.sortOrder,
+        isActive: values.isActive,
+        defaultMaxDiscountPercentage: values.defaultMaxDiscountPercentage,
+        defaultMaxAttempts: values.defaultMaxAttempts,
+        sizeGuide: readSizeGuide(values.sizeGuide),
+      };
+
+      if (editing.category) {
+        await updateCategory(editing.category.id, details);
+      } else {
+        await createCategory(details);
+      }
+
+      setEditing(null);
+      await loadCategories();
+    } catch (err) {
+      console.error('Error saving category:', err);
+      setFormError(getSaveErrorMessage(err));
+    }
+  };
+
+  const handleCollectionSubmit = async (values: CollectionFormValues) => {
+    if (editing?.kind !== 'collection') return;
+
+    try {
+      setFormError(null);
+
+      const details = {
+        name: values.name,
+        slug: values.slug,
+        sortOrder: values.sortOrder,
+        isActive: values.isActive,
+        description: values.description,
+      };
+
+      if (editing.collection) {
+        await updateCollection(editing.collection.id, details);
+      } else {
+        await createCollection(details);
+      }
+
+      setEditing(null);
+      await loadCategories();
+    } catch (err) {
+      console.error('Error saving collection:', err);
+      setFormError(getSaveErrorMessage(err));
+    }
+  };
+
+  const renderStatus = (isActive: boolean) => {
+    return isActive ? (
+      <Badge className="bg-green-100 text-green-800">Visible</Badge>
+    ) : (
+      <Badge className="bg-gray-100 text-gray-800">Hidden</Badge>
+    );
+  };
+
+  const renderDefault = (value: number | null, fallback: string) => {
+    return value === null ? <span className="text-gray-400">{fallback}</span> : value;
+  };
+
+  return (
+    <>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold">Categories</h2>
+        <div className="flex gap-2">
+          <Button onClick={loadCategories} variant="outline" size="sm">
+            Refresh
+          </Button>
+          <Button onClick={() => openForm({ kind: 'category' })} size="sm" className="bg-purple-600 text-white">
+            <Plus className="w-4 h-4 mr-2" />
+            New category
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 mb-4">{error}</p>
+      )}
+
+      {isLoading ? (
+        <p className="text-gray-600">Loading categories...</p>
+      ) : (
+        <>
+          <div className="overflow-x-auto mb-8">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead className="text-center">Default Max Discount</TableHead>
+                  <TableHead className="text-center">Default Attempts</TableHead>
+                  <TableHead className="text-center">Order</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {categories.map((category) => (
+                  <TableRow key={category.id}>
+                    <TableCell>
+                      <div className="font-medium">{category.name}</div>
+                      <div className="text-xs font-mono text-gray-500">{category.slug}</div>
+                    </TableCell>
+                    <TableCell className="text-center">
+                      {renderDefault(category.defaultMaxDiscountPercentage, '0')}%
+                    </TableCell>
+                    <TableCell className="text-center">{renderDefault(category.defaultMaxAttempts, '3')}</TableCell>
+                    <TableCell className="text-center">{category.sortOrder}</TableCell>
+                    <TableCell>{renderStatus(category.isActive)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button onClick={() => openForm({ kind: 'category', category })} variant="outline" size="sm">
+                        <Pencil className="w-4 h-4 mr-2" />
+                        Edit
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {categories.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-gray-500">
+                      No categories yet.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-xl font-semibold">Collections</h2>
+            <Button onClick={() => openForm({ kind: 'collection' })} size="sm" className="bg-purple-600 text-white">
+              <Plus className="w-4 h-4 mr-2" />
+              New collection
+            </Button>
+          </div>
+
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead className="text-center">Order</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {collections.map((collection) => (
+                  <TableRow key={collection.id}>
+                    <TableCell className="max-w-64">
+                      <div className="font-medium">{collection.name}</div>
+                      <div className="text-xs font-mono text-gray-500">{collection.slug}</div>
+                      {collection.description && (
+                        <div className="text-xs text-gray-500 truncate">{collection.description}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-center">{collection.sortOrder}</TableCell>
+                    <TableCell>{renderStatus(collection.isActive)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button onClick={() => openForm({ kind: 'collection', collection })} variant="outline" size="sm">
+                        <Pencil className="w-4 h-4 mr-2" />
+                        Edit
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {collections.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center text-gray-500">
+                      No collections yet.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </>
+      )}
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-lg">
+          {editing?.kind === 'category' && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{editing.category ? `Edit ${editing.category.name}` : 'New category'}</DialogTitle>
+                <DialogDescription>
+                  Hidden categories aren't shown to shoppers, but their defaults still apply.
+                </DialogDescription>
+              </DialogHeader>
+              <CategoryForm
+                category={editing.category}
+                error={formError}
+                onSubmit={handleCategorySubmit}
+                onCancel={() => setEditing(null)}
+              />
+            </>
+          )}
+          {editing?.kind === 'collection' && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{editing.collection ? `Edit ${editing.collection.name}` : 'New collection'}</DialogTitle>
+                <DialogDescription>
+                  Hidden collections aren't shown to shoppers.
+                </DialogDescription>
+              </DialogHeader>
+              <CollectionForm
+                collection={editing.collection}
+                error={formError}
+                onSubmit={handleCollectionSubmit}
+                onCancel={() => setEditing(null)}
+              />
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,362 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Archive, ArchiveRestore, Download, Pencil, Plus, Printer, Upload } from "lucide-react";
+import {
+  getAllPrivilegedProducts,
+  createProduct,
+  updateProduct,
+  archiveProduct,
+  restoreProduct,
+  uploadProductImage,
+  getProductImages,
+  uploadProductGalleryImage,
+  removeProductGalleryImage,
+  getProductStock,
+  formatVariantLabel,
+  PrivilegedProduct,
+  ProductGalleryImage,
+  ProductStock
+} from '@/lib/database';
+import { CatalogFormat, exportCatalog } from '@/lib/catalog';
+import { getCategories, getCollections, getProductCollectionIds, setProductCollections, Category, Collection } from '@/lib/categories';
+import { useStaffMember } from '@/hooks/use-staff-member';
+import { ProductForm, ProductFormValues } from '@/components/ProductForm';
+import { CatalogImportDialog } from '@/components/CatalogImportDialog';
+
+// Products tab of the admin dashboard: create, edit, archive and restore products
+export const ProductCatalog: React.FC = () => {
+  const { staffMember } = useStaffMember();
+  const [products, setProducts] = useState<PrivilegedProduct[]>([]);
+  const [stockBySku, setStockBySku] = useState<Record<string, ProductStock>>({});
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [collectionIdsByProduct, setCollectionIdsByProduct] = useState<Record<string, string[]>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingProduct, setEditingProduct] = useState<PrivilegedProduct | undefined>(undefined);
+  const [galleryImages, setGalleryImages] = useState<ProductGalleryImage[]>([]);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+
+  const loadProducts = useCallback(async () => {
+    if (!staffMember) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      const [productsData, stockData, categoriesData, collectionsData, collectionIdsData] = await Promise.all([
+        getAllPrivilegedProducts(),
+        getProductStock(),
+        getCategories(staffMember.tenantId),
+        getCollections(staffMember.tenantId),
+        getProductCollectionIds()
+      ]);
+
+      setProducts(productsData);
+      setStockBySku(stockData);
+      setCategories(categoriesData);
+      setCollections(collectionsData);
+      setCollectionIdsByProduct(collectionIdsData);
+    } catch (err) {
+      console.error('Error loading products:', err);
+      setError('Error loading products. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [staffMember]);
+
+  useEffect(() => {
+    loadProducts();
+  }, [loadProducts]);
+
+  const formatCurrency = (amount: number) => {
+    return `$${amount.toLocaleString()}`;
+  };
+
+  const getCategory = (product: PrivilegedProduct) => {
+    return categories.find((category) => category.id === product.categoryId);
+  };
+
+  // Products without their own ceiling use their category's
+  const renderMaxDiscount = (product: PrivilegedProduct) => {
+    if (product.maxDiscountPercentage !== null) {
+      return `${product.maxDiscountPercentage}%`;
+    }
+
+    return (
+      <span className="text-gray-500">
+        {getCategory(product)?.defaultMaxDiscountPercentage ?? 0}%
+        <div className="text-xs">Category default</div>
+      </span>
+    );
+  };
+
+  const renderStock = (stock: ProductStock | undefined) => {
+    if (!stock || stock.stockQuantity === null) {
+      return <span className="text-gray-400">Not tracked</span>;
+    }
+
+    return (
+      <div>
+        <span className={`font-semibold ${stock.availableQuantity === 0 ? 'text-red-600' : ''}`}>
+          {stock.availableQuantity} available
+        </span>
+        <div className="text-xs text-gray-500">
+          {stock.stockQuantity} on hand, {stock.reservedQuantity} reserved
+        </div>
+      </div>
+    );
+  };
+
+  const openForm = async (product?: PrivilegedProduct) => {
+    setEditingProduct(product);
+    setGalleryImages([]);
+    setFormError(null);
+    setIsFormOpen(true);
+
+    if (!product) return;
+
+    try {
+      setGalleryImages(await getProductImages(product.id));
+    } catch (err) {
+      console.error('Error loading product images:', err);
+      setFormError('Error loading the product\'s images. Please try again.');
+    }
+  };
+
+  const handleSubmit = async (values: ProductFormValues) => {
+    try {
+      setFormError(null);
+
+      const details = {
+        sku: values.sku,
+        name: values.name,
+        description: values.description,
+        price: values.price,
+        maxDiscountPercentage: values.maxDiscountPercentage,
+        stockQuantity: values.stockQuantity,
+        ean: values.ean,
+        categoryId: values.categoryId,
+        composition: values.composition,
+        careInstructions: values.careInstructions.split('\n').map((line) => line.trim()).filter(Boolean),
+      };
+
+      const product = editingProduct
+        ? await updateProduct(editingProduct.id, details)
+        : await createProduct(details);
+
+      await setProductCollections(product.id, values.collectionIds);
+
+      if (values.image) {
+        await uploadProductImage(product.sku, values.image);
+      }
+
+      for (const image of galleryImages.filter((galleryImage) => values.removedImageIds.includes(galleryImage.id))) {
+        await removeProductGalleryImage(image);
+      }
+
+      // New images go after the current ones
+      const nextSortOrder = Math.max(0, ...galleryImages.map((image) => image.sortOrder + 1));
+      for (const [index, file] of values.galleryUploads.entries()) {
+        await uploadProductGalleryImage(product, file, nextSortOrder + index);
+      }
+
+      setIsFormOpen(false);
+      await loadProducts();
+    } catch (err) {
+      console.error('Error saving product:', err);
+      setFormError(
+        err?.code === '23505'
+          ? err.message?.includes('ean')
+            ? 'Another product already has this EAN barcode.'
+            : 'A product with this SKU already exists.'
+          : 'Error saving product. Please try again.'
+      );
+    }
+  };
+
+  // Download the products on sale in the import format
+  const handleExport = (format: CatalogFormat) => {
+    const content = exportCatalog(products.filter((product) => !product.archivedAt), format);
+    const blob = new Blob([content], { type: format === 'json' ? 'application/json' : 'text/csv' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `catalog-${new Date().toISOString().slice(0, 10)}.${format}`;
+    link.click();
+
+    URL.revokeObjectURL(url);
+  };
+
+  const handleArchiveToggle = async (product: PrivilegedProduct) => {
+    try {
+      if (product.archivedAt) {
+        await restoreProduct(product.id);
+      } else {
+        await archiveProduct(product.id);
+      }
+      await loadProducts();
+    } catch (err) {
+      console.error('Error updating product:', err);
+      setError('Error updating product. Please try again.');
+    }
+  };
+
+  return (
+    <>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold">Products</h2>
+        <div className="flex gap-2">
+          <Button onClick={loadProducts} variant="outline" size="sm">
+            Refresh
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" disabled={products.length === 0}>
+                <Download className="w-4 h-4 mr-2" />
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => handleExport('csv')}>CSV</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport('json')}>JSON</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button onClick={() => setIsImportOpen(true)} variant="outline" size="sm">
+            <Upload className="w-4 h-4 mr-2" />
+            Import
+          </Button>
+          <Button asChild variant="outline" size="sm">
+            <Link to="/admin/labels">
+              <Printer className="w-4 h-4 mr-2" />
+              Labels
+            </Link>
+          </Button>
+          <Button onClick={() => openForm()} size="sm" className="bg-purple-600 text-white">
+            <Plus className="w-4 h-4 mr-2" />
+            New product
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 mb-4">{error}</p>
+      )}
+
+      {isLoading ? (
+        <p className="text-gray-600">Loading products...</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>SKU</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead className="text-right">Price</TableHead>
+                <TableHead className="text-center">Max Discount</TableHead>
+                <TableHead className="text-center">Stock</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {products.map((product) => (
+                <TableRow key={product.id} className={product.archivedAt ? 'text-gray-400' : ''}>
+                  <TableCell className="font-mono text-sm">
+                    {product.sku}
+                    {product.ean && <div className="text-xs text-gray-500">{product.ean}</div>}
+                  </TableCell>
+                  <TableCell className="max-w-64">
+                    <div className="font-medium truncate">{product.name}</div>
+                    {formatVariantLabel(product.color, product.size) && (
+                      <div className="text-xs text-purple-600 truncate">{formatVariantLabel(product.color, product.size)}</div>
+                    )}
+                    {getCategory(product) && (
+                      <div className="text-xs text-gray-500 truncate">{getCategory(product).name}</div>
+                    )}
+                    <div className="text-xs text-gray-500 truncate">{product.description}</div>
+                  </TableCell>
+                  <TableCell className="text-right font-semibold">{formatCurrency(product.price)}</TableCell>
+                  <TableCell className="text-center">{renderMaxDiscount(product)}</TableCell>
+                  <TableCell className="text-center">{renderStock(stockBySku[product.sku])}</TableCell>
+                  <TableCell>
+                    {product.archivedAt ? (
+                      <Badge className="bg-gray-100 text-gray-800">Archived</Badge>
+                    ) : (
+                      <Badge className="bg-green-100 text-green-800">Active</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      <Button onClick={() => openForm(product)} variant="outline" size="sm">
+                        <Pencil className="w-4 h-4 mr-2" />
+                        Edit
+                      </Button>
+                      <Button onClick={() => handleArchiveToggle(product)} variant="outline" size="sm">
+                        {product.archivedAt ? (
+                          <>
+                            <ArchiveRestore className="w-4 h-4 mr-2" />
+                            Restore
+                          </>
+                        ) : (
+                          <>
+                            <Archive className="w-4 h-4 mr-2" />
+                            Archive
+                          </>
+                        )}
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {products.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-gray-500">
+                    No products yet.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingProduct ? `Edit ${editingProduct.sku}` : 'New product'}</DialogTitle>
+            <DialogDescription>
+              Archived products are hidden from shoppers but keep their offer history.
+            </DialogDescription>
+          </DialogHeader>
+          {isFormOpen && (
+            <ProductForm
+              product={editingProduct}
+              categories={categories}
+              collections={collections}
+              collectionIds={editingProduct ? collectionIdsByProduct[editingProduct.id] ?? [] : []}
+              galleryImages={galleryImages}
+              error={formError}
+              onSubmit={handleSubmit}
+              onCancel={() => setIsFormOpen(false)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <CatalogImportDialog
+        open={isImportOpen}
+        onOpenChange={setIsImportOpen}
+        products={products}
+        onImported={loadProducts}
+      />
+    </>
+  );
+};
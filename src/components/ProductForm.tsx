@@ -0,0 +1,399 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { PrivilegedProduct, ProductGalleryImage, PRODUCT_IMAGE_TYPES } from '@/lib/database';
+import { productDetailsSchema } from '@/lib/catalog';
+import { isValidEan13 } from '@/lib/barcodes';
+import { Category, Collection } from '@/lib/categories';
+
+const MAX_IMAGE_SIZE_MB = 5;
+const NO_CATEGORY = 'none';
+
+const imageFileSchema = z.instanceof(File)
+  .refine((file) => file.type in PRODUCT_IMAGE_TYPES, 'Upload WebP, JPG or PNG images')
+  .refine((file) => file.size <= MAX_IMAGE_SIZE_MB * 1024 * 1024, `Images must be ${MAX_IMAGE_SIZE_MB} MB or less`);
+
+const productFormSchema = productDetailsSchema.extend({
+  // Blank means the product's stock isn't tracked
+  stockQuantity: z.preprocess(
+    (value) => (value === '' || value === undefined ? null : value),
+    z.coerce.number({ invalid_type_error: 'Enter a number of units' })
+      .int('Use a whole number of units')
+      .min(0, 'Stock can\'t be negative')
+      .nullable()
+  ),
+  categoryId: z.string().nullable(),
+  collectionIds: z.array(z.string()),
+  // Blank means the composition isn't shown
+  composition: z.preprocess(
+    (value) => (typeof value === 'string' && value.trim() !== '' ? value.trim() : null),
+    z.string()
+      .max(255, 'Composition must be 255 characters or less')
+      .nullable()
+  ),
+  careInstructions: z.string(), // One instruction per line
+  // Blank means the product has no barcode
+  ean: z.preprocess(
+    (value) => (typeof value === 'string' && value.trim() !== '' ? value.trim() : null),
+    z.string()
+      .refine(isValidEan13, 'Enter the 13 digits of a valid EAN barcode')
+      .nullable()
+  ),
+  image: z.instanceof(File)
+    .nullable()
+    .refine((file) => !file || file.type in PRODUCT_IMAGE_TYPES, 'Upload a WebP, JPG or PNG image')
+    .refine((file) => !file || file.size <= MAX_IMAGE_SIZE_MB * 1024 * 1024, `Images must be ${MAX_IMAGE_SIZE_MB} MB or less`),
+  galleryUploads: z.array(imageFileSchema),
+  removedImageIds: z.array(z.string()),
+});
+
+export type ProductFormValues = z.infer<typeof productFormSchema>;
+
+interface ProductFormProps {
+  product?: PrivilegedProduct; // Edit this product, or create a new one when missing
+  categories: Category[];
+  collections: Collection[];
+  collectionIds: string[]; // Collections the product is in
+  galleryImages: ProductGalleryImage[]; // Images after the product image on its detail page
+  error: string | null;
+  onSubmit: (values: ProductFormValues) => Promise<void>;
+  onCancel: () => void;
+}
+
+// Create and edit form for the admin Products tab
+export const ProductForm: React.FC<ProductFormProps> = ({ product, categories, collections, collectionIds, galleryImages, error, onSubmit, onCancel }) => {
+  const form = useForm<ProductFormValues>({
+    resolver: zodResolver(productFormSchema),
+    defaultValues: {
+      sku: product?.sku ?? '',
+      name: product?.name ?? '',
+      description: product?.description ?? '',
+      price: product?.price,
+      maxDiscountPercentage: product?.maxDiscountPercentage ?? null,
+      stockQuantity: product?.stockQuantity ?? null,
+      categoryId: product?.categoryId ?? null,
+      collectionIds,
+      ean: product?.ean ?? null,
+      composition: product?.composition ?? null,
+      careInstructions: product?.careInstructions.join('\n') ?? '',
+      image: null,
+      galleryUploads: [],
+      removedImageIds: [],
+    },
+  });
+
+  const isSaving = form.formState.isSubmitting;
+  const category = categories.find((candidate) => candidate.id === form.watch('categoryId'));
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="sku"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>SKU</FormLabel>
+              <FormControl>
+                <Input {...field} className="font-mono" disabled={!!product} />
+              </FormControl>
+              {product && <FormDescription>SKUs can't change once a product is created.</FormDescription>}
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description</FormLabel>
+              <FormControl>
+                <Textarea {...field} rows={3} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="categoryId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Category</FormLabel>
+              <Select
+                value={field.value ?? NO_CATEGORY}
+                onValueChange={(value) => field.onChange(value === NO_CATEGORY ? null : value)}
+              >
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Category" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value={NO_CATEGORY}>No category</SelectItem>
+                  {categories.map((candidate) => (
+                    <SelectItem key={candidate.id} value={candidate.id}>
+                      {candidate.name}{!candidate.isActive && ' (inactive)'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>Shoppers can browse and filter products by category. Manage categories from the Categories tab.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {collections.length > 0 && (
+          <FormField
+            control={form.control}
+            name="collectionIds"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Collections</FormLabel>
+                <div className="grid grid-cols-2 gap-2">
+                  {collections.map((collection) => (
+                    <div key={collection.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`collection-${collection.id}`}
+                        checked={field.value.includes(collection.id)}
+                        onCheckedChange={(checked) => field.onChange(
+                          checked === true
+                            ? [...field.value, collection.id]
+                            : field.value.filter((id) => id !== collection.id)
+                        )}
+                      />
+                      <Label htmlFor={`collection-${collection.id}`} className="font-normal">
+                        {collection.name}{!collection.isActive && ' (inactive)'}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="price"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Price</FormLabel>
+                <FormControl>
+                  <Input {...field} value={field.value ?? ''} type="number" min="0" step="0.01" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="maxDiscountPercentage"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Max discount %</FormLabel>
+                <FormControl>
+                  <Input {...field} value={field.value ?? ''} type="number" min="0" max="100" step="1" />
+                </FormControl>
+                <FormDescription>
+                  Leave empty to use the category's default ({category?.defaultMaxDiscountPercentage ?? 0}%).
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="composition"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Composition</FormLabel>
+              <FormControl>
+                <Input {...field} value={field.value ?? ''} placeholder="e.g. 80% algodón, 20% poliéster" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="careInstructions"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Care instructions</FormLabel>
+              <FormControl>
+                <Textarea {...field} rows={3} placeholder={'Lavar a mano\nNo usar secarropas'} />
+              </FormControl>
+              <FormDescription>One instruction per line, shown on the product's detail page.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="stockQuantity"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Stock</FormLabel>
+              <FormControl>
+                <Input {...field} value={field.value ?? ''} type="number" min="0" step="1" />
+              </FormControl>
+              <FormDescription>
+                Units on hand. Pending coupons reserve a unit each and redemptions take it out of stock. Leave empty to not track stock.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="ean"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>EAN barcode</FormLabel>
+              <FormControl>
+                <Input {...field} value={field.value ?? ''} className="font-mono" inputMode="numeric" maxLength={13} />
+              </FormControl>
+              <FormDescription>
+                Shoppers can scan or type it when the product has no readable QR code. Leave empty if the product has no barcode.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="image"
+          render={({ field: { value, onChange, ...field } }) => (
+            <FormItem>
+              <FormLabel>Image</FormLabel>
+              <FormControl>
+                <Input
+                  {...field}
+                  type="file"
+                  accept={Object.keys(PRODUCT_IMAGE_TYPES).join(',')}
+                  onChange={(e) => onChange(e.target.files?.[0] ?? null)}
+                />
+              </FormControl>
+              <FormDescription>
+                {product ? 'Leave empty to keep the current image. ' : ''}
+                WebP, JPG or PNG, up to {MAX_IMAGE_SIZE_MB} MB.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {galleryImages.length > 0 && (
+          <FormField
+            control={form.control}
+            name="removedImageIds"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>More images</FormLabel>
+                <div className="grid grid-cols-4 gap-2">
+                  {galleryImages.map((image) => {
+                    const isRemoved = field.value.includes(image.id);
+
+                    return (
+                      <div key={image.id} className="space-y-1">
+                        <img
+                          src={image.url}
+                          alt={image.altText ?? ''}
+                          className={`w-full aspect-square object-cover rounded-md ${isRemoved ? 'opacity-30' : ''}`}
+                        />
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          className="w-full"
+                          onClick={() => field.onChange(
+                            isRemoved ? field.value.filter((id) => id !== image.id) : [...field.value, image.id]
+                          )}
+                        >
+                          {isRemoved ? 'Keep' : 'Remove'}
+                        </Button>
+                      </div>
+                    );
+                  })}
+                </div>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        <FormField
+          control={form.control}
+          name="galleryUploads"
+          render={({ field: { value, onChange, ...field } }) => (
+            <FormItem>
+              <FormLabel>{galleryImages.length > 0 ? 'Add images' : 'More images'}</FormLabel>
+              <FormControl>
+                <Input
+                  {...field}
+                  type="file"
+                  multiple
+                  accept={Object.keys(PRODUCT_IMAGE_TYPES).join(',')}
+                  onChange={(e) => onChange(Array.from(e.target.files ?? []))}
+                />
+              </FormControl>
+              <FormDescription>
+                Shown after the main image in the gallery of the product's detail page.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {error && (
+          <p className="text-sm text-red-600">{error}</p>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" onClick={onCancel} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button type="submit" className="bg-purple-600 text-white" disabled={isSaving}>
+            {isSaving ? 'Saving...' : product ? 'Save changes' : 'Create product'}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
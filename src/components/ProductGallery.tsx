@@ -0,0 +1,82 @@
+import React, { useState, useEffect } from 'react';
+import { Carousel, CarouselApi, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from "@/components/ui/carousel";
+import { ProductImage } from '@/components/ProductImage';
+import { ProductGalleryImage, StorefrontProduct } from '@/lib/database';
+
+interface ProductGalleryProps {
+  product: StorefrontProduct;
+  images: ProductGalleryImage[]; // Extra images, shown after the product image
+}
+
+// Swipeable images on the product detail page, with a dot per image
+export const ProductGallery: React.FC<ProductGalleryProps> = ({ product, images }) => {
+  const [api, setApi] = useState<CarouselApi>();
+  const [current, setCurrent] = useState(0);
+
+  useEffect(() => {
+    if (!api) return;
+
+    const onSelect = () => setCurrent(api.selectedScrollSnap());
+    onSelect();
+    api.on('select', onSelect);
+    api.on('reInit', onSelect);
+
+    return () => {
+      api.off('select', onSelect);
+      api.off('reInit', onSelect);
+    };
+  }, [api]);
+
+  const slideCount = images.length + 1;
+
+  return (
+    <div className="mb-4">
+      <Carousel setApi={setApi} className="bg-gray-50 rounded-2xl overflow-hidden">
+        <CarouselContent>
+          <CarouselItem>
+            <div className="aspect-square flex items-center justify-center">
+              <ProductImage
+                src={product.image}
+                alt={product.name}
+                className="w-full h-full object-cover object-center"
+                sku={product.sku}
+              />
+            </div>
+          </CarouselItem>
+          {images.map((image, index) => (
+            <CarouselItem key={image.id}>
+              <div className="aspect-square flex items-center justify-center">
+                <img
+                  src={image.url}
+                  alt={image.altText ?? `${product.name} (${index + 2})`}
+                  className="w-full h-full object-cover object-center"
+                  loading="lazy"
+                />
+              </div>
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+        {slideCount > 1 && (
+          <>
+            <CarouselPrevious className="left-2 bg-white/80" />
+            <CarouselNext className="right-2 bg-white/80" />
+          </>
+        )}
+      </Carousel>
+
+      {slideCount > 1 && (
+        <div className="flex justify-center gap-2 mt-3">
+          {Array.from({ length: slideCount }, (_, index) => (
+            <button
+              key={index}
+              type="button"
+              onClick={() => api?.scrollTo(index)}
+              className={`w-2 h-2 rounded-full ${index === current ? 'bg-gray-900' : 'bg-gray-300'}`}
+              aria-label={`Ver imagen ${index + 1}`}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
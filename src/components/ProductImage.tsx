@@ -0,0 +1,55 @@
+import React, { useState, useEffect } from 'react';
+import { getImageUrls } from '@/lib/database';
+
+// Enhanced image component with multiple format fallback
+export const ProductImage = ({ src, alt, className, sku }: { src: string; alt: string; className: string; sku?: string }) => {
+  const [currentSrc, setCurrentSrc] = useState(src);
+  const [hasError, setHasError] = useState(false);
+  const [imageUrls, setImageUrls] = useState<string[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+
+  useEffect(() => {
+    if (sku) {
+      const urls = getImageUrls(sku);
+      setImageUrls(urls);
+      setCurrentSrc(urls[0]);
+      setCurrentIndex(0);
+    } else {
+      setCurrentSrc(src);
+      setImageUrls([src]);
+      setCurrentIndex(0);
+    }
+    setHasError(false);
+  }, [src, sku]);
+
+  const handleError = () => {
+    if (currentIndex < imageUrls.length - 1) {
+      // Try next format
+      const nextIndex = currentIndex + 1;
+      setCurrentIndex(nextIndex);
+      setCurrentSrc(imageUrls[nextIndex]);
+    } else {
+      // All formats failed, show placeholder
+      setHasError(true);
+    }
+  };
+
+  if (hasError) {
+    return (
+      <div className={`${className} flex items-center justify-center bg-gray-100`}>
+        <svg className="w-6 h-6 text-gray-400" fill="currentColor" viewBox="0 0 20 20">
+          <path fillRule="evenodd" d="M4 3a2 2 0 00-2 2v10a2 2 0 002 2h12a2 2 0 002-2V5a2 2 0 00-2-2H4zm12 12H4l4-8 3 6 2-4 3 6z" clipRule="evenodd"></path>
+        </svg>
+      </div>
+    );
+  }
+
+  return (
+    <img
+      src={currentSrc}
+      alt={alt}
+      className={className}
+      onError={handleError}
+    />
+  );
+};
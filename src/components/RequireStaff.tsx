@@ -0,0 +1,45 @@
+import React from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { Button } from "@/components/ui/button";
+import { useStaffMember } from '@/hooks/use-staff-member';
+import { hasStaffRole, signOutStaff, StaffRole } from '@/lib/auth';
+
+interface RequireStaffProps {
+  roles: StaffRole[];
+  children: React.ReactNode;
+}
+
+// Route guard for back-office pages: sends signed-out users to /login and
+// blocks staff whose role isn't allowed on the page
+export const RequireStaff: React.FC<RequireStaffProps> = ({ roles, children }) => {
+  const location = useLocation();
+  const { staffMember, isLoading } = useStaffMember();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-4 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-600"></div>
+      </div>
+    );
+  }
+
+  if (!staffMember) {
+    const redirect = encodeURIComponent(`${location.pathname}${location.search}`);
+    return <Navigate to={`/login?redirect=${redirect}`} replace />;
+  }
+
+  if (!hasStaffRole(staffMember, roles)) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-4 flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-red-600 mb-4">You don't have access to this page.</p>
+          <Button onClick={signOutStaff} variant="outline">
+            Sign in with another account
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
@@ -0,0 +1,181 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Mail } from 'lucide-react';
+import { subscribeToAuthChanges } from '@/lib/auth';
+import {
+  getShopperAccount,
+  sendShopperSignInCode,
+  verifyShopperSignInCode,
+  signOutShopper,
+  ShopperAccount
+} from '@/lib/shopperAccount';
+
+const SIGN_IN_CODE_LENGTH = 6;
+
+interface ShopperAccountCardProps {
+  onSignedIn: () => void;
+  onSignedOut: () => void;
+}
+
+// Optional sign-in on "Mis cupones" so coupons follow the shopper across devices
+export const ShopperAccountCard: React.FC<ShopperAccountCardProps> = ({ onSignedIn, onSignedOut }) => {
+  const [account, setAccount] = useState<ShopperAccount | null>(null);
+  const [step, setStep] = useState<'closed' | 'email' | 'code'>('closed');
+  const [email, setEmail] = useState('');
+  const [code, setCode] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadAccount = () => {
+      getShopperAccount()
+        .then(setAccount)
+        .catch(() => setAccount(null));
+    };
+
+    loadAccount();
+
+    // Pick up sign-ins that happen through the magic link
+    const subscription = subscribeToAuthChanges(() => {
+      setTimeout(loadAccount, 0);
+    });
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  const handleSendCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsBusy(true);
+      setError(null);
+      await sendShopperSignInCode(email.trim());
+      setCode('');
+      setStep('code');
+    } catch (err) {
+      setError('No pudimos enviar el código. Revisá el email e intentá de nuevo.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleVerifyCode = async (value: string) => {
+    try {
+      setIsBusy(true);
+      setError(null);
+      await verifyShopperSignInCode(email.trim(), value);
+    } catch (err) {
+      setError('El código no es válido o ya venció.');
+      setCode('');
+      setIsBusy(false);
+      return;
+    }
+
+    // "Mis cupones" brings the earlier coupons over when it reloads
+    setAccount(await getShopperAccount().catch(() => null));
+    setStep('closed');
+    setIsBusy(false);
+    onSignedIn();
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await signOutShopper();
+      setAccount(null);
+      onSignedOut();
+    } catch (err) {
+      setError('No pudimos cerrar la sesión. Intentá de nuevo.');
+    }
+  };
+
+  if (account) {
+    return (
+      <Card className="p-3 sm:p-4 rounded-2xl border border-gray-200 mb-4 sm:mb-6 flex items-center justify-between gap-3">
+        <div className="min-w-0">
+          <p className="text-xs text-gray-500">Tus cupones están guardados en</p>
+          <p className="text-sm font-medium truncate">{account.email}</p>
+          {error && (
+            <p className="text-xs text-red-600 mt-1">{error}</p>
+          )}
+        </div>
+        <Button onClick={handleSignOut} variant="ghost" className="text-purple-600 text-xs sm:text-sm flex-shrink-0">
+          Cerrar sesión
+        </Button>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="p-3 sm:p-4 rounded-2xl border border-gray-200 mb-4 sm:mb-6">
+      {step === 'closed' && (
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-xs sm:text-sm text-gray-600">Guardá tus cupones para verlos desde cualquier dispositivo.</p>
+          <Button
+            onClick={() => setStep('email')}
+            variant="outline"
+            className="rounded-2xl border-purple-600 text-purple-600 hover:bg-purple-600 hover:text-white text-xs sm:text-sm flex-shrink-0"
+          >
+            <Mail size={14} className="mr-1" />
+            Ingresar
+          </Button>
+        </div>
+      )}
+
+      {step === 'email' && (
+        <form onSubmit={handleSendCode} className="space-y-3">
+          <p className="text-xs sm:text-sm text-gray-600">Te enviamos un código a tu email.</p>
+          <Input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="tu@email.com"
+            autoComplete="email"
+            required
+          />
+          <div className="flex gap-2">
+            <Button type="submit" disabled={isBusy || !email.trim()} className="flex-1 rounded-2xl bg-purple-600 text-white">
+              {isBusy ? 'Enviando...' : 'Enviar código'}
+            </Button>
+            <Button type="button" variant="ghost" onClick={() => setStep('closed')} className="rounded-2xl">
+              Cancelar
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {step === 'code' && (
+        <div className="space-y-3">
+          <p className="text-xs sm:text-sm text-gray-600">
+            Ingresá el código que enviamos a <span className="font-medium">{email}</span>, o abrí el link del email.
+          </p>
+          <InputOTP
+            maxLength={SIGN_IN_CODE_LENGTH}
+            value={code}
+            onChange={setCode}
+            onComplete={handleVerifyCode}
+            disabled={isBusy}
+            containerClassName="justify-center"
+          >
+            <InputOTPGroup>
+              {Array.from({ length: SIGN_IN_CODE_LENGTH }, (_, index) => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+          <Button type="button" variant="ghost" onClick={() => setStep('email')} className="w-full rounded-2xl text-xs sm:text-sm">
+            Usar otro email
+          </Button>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-xs sm:text-sm text-red-600 mt-2">{error}</p>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,25 @@
+import React from 'react';
+import { Button } from "@/components/ui/button";
+import { LogOut } from "lucide-react";
+import { useStaffMember } from '@/hooks/use-staff-member';
+import { signOutStaff, STAFF_ROLE_LABELS } from '@/lib/auth';
+
+// Signed-in staff member and sign-out button for back-office headers
+export const StaffAccount: React.FC = () => {
+  const { staffMember } = useStaffMember();
+
+  if (!staffMember) return null;
+
+  return (
+    <div className="flex items-center gap-3">
+      <div className="text-right">
+        <p className="text-sm font-medium text-gray-900">{staffMember.email}</p>
+        <p className="text-xs text-gray-500">{STAFF_ROLE_LABELS[staffMember.role]}</p>
+      </div>
+      <Button variant="outline" size="sm" onClick={signOutStaff}>
+        <LogOut className="w-4 h-4 mr-2" />
+        Sign out
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,17 @@
+import React from 'react';
+import { DEFAULT_TENANT_NAME, Tenant } from '@/lib/tenants';
+
+interface TenantBrandProps {
+  tenant: Tenant | null; // Null until the storefront's tenant is resolved
+  className?: string; // Heading classes for brands without a logo
+  logoClassName?: string;
+}
+
+// Brand heading of the storefront screens: the tenant's logo, or its name
+export const TenantBrand: React.FC<TenantBrandProps> = ({ tenant, className, logoClassName = 'h-8' }) => {
+  if (tenant?.logoUrl) {
+    return <img src={tenant.logoUrl} alt={tenant.name} className={`${logoClassName} w-auto object-contain mx-auto`} />;
+  }
+
+  return <h1 className={className}>{tenant?.name ?? DEFAULT_TENANT_NAME}</h1>;
+};
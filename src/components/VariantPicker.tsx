@@ -0,0 +1,79 @@
+import React from 'react';
+import { StorefrontProduct } from '@/lib/database';
+
+interface VariantPickerProps {
+  variants: StorefrontProduct[]; // Every variant of the selected product's style
+  selected: StorefrontProduct;
+  onSelect: (variant: StorefrontProduct) => void;
+}
+
+const uniqueValues = (values: (string | null)[]) => {
+  return values.filter((value, index) => value && values.indexOf(value) === index);
+};
+
+// Color and size picker on the offer screen. Each variant has its own SKU,
+// so picking one switches the offer to that variant.
+export const VariantPicker: React.FC<VariantPickerProps> = ({ variants, selected, onSelect }) => {
+  if (variants.length < 2) return null;
+
+  const colors = uniqueValues(variants.map(variant => variant.color));
+  const sizes = uniqueValues(
+    variants
+      .filter(variant => !selected.color || variant.color === selected.color)
+      .map(variant => variant.size)
+  );
+
+  // Keep the other attribute when it exists for the new pick
+  const selectColor = (color: string) => {
+    const variant = variants.find(v => v.color === color && v.size === selected.size)
+      ?? variants.find(v => v.color === color);
+    if (variant && variant.sku !== selected.sku) onSelect(variant);
+  };
+
+  const selectSize = (size: string) => {
+    const variant = variants.find(v => v.size === size && v.color === selected.color)
+      ?? variants.find(v => v.size === size);
+    if (variant && variant.sku !== selected.sku) onSelect(variant);
+  };
+
+  // Sold-out options stay selectable but are struck through
+  const isColorInStock = (color: string) => variants.some(v => v.color === color && v.inStock);
+  const isSizeInStock = (size: string) =>
+    variants.some(v => v.size === size && (!selected.color || v.color === selected.color) && v.inStock);
+
+  const optionClassName = (isSelected: boolean, inStock: boolean) =>
+    `px-3 py-1 rounded-2xl border text-sm transition-colors ${
+      isSelected
+        ? 'border-purple-600 bg-purple-600 text-white'
+        : 'border-gray-300 text-gray-700 hover:border-purple-300'
+    } ${inStock ? '' : 'line-through opacity-60'}`;
+
+  return (
+    <div className="space-y-2 mt-3">
+      {colors.length > 0 && (
+        <div>
+          <p className="text-xs text-gray-500 mb-1">Color</p>
+          <div className="flex flex-wrap gap-2">
+            {colors.map(color => (
+              <button key={color} type="button" onClick={() => selectColor(color)} className={optionClassName(color === selected.color, isColorInStock(color))}>
+                {color}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+      {sizes.length > 0 && (
+        <div>
+          <p className="text-xs text-gray-500 mb-1">Talle</p>
+          <div className="flex flex-wrap gap-2">
+            {sizes.map(size => (
+              <button key={size} type="button" onClick={() => selectSize(size)} className={optionClassName(size === selected.size, isSizeInStock(size))}>
+                {size}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,96 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { BarcodeFormat, BrowserMultiFormatReader, DecodeHintType } from '@zxing/library';
+
+// QR codes (products and coupons) and the EAN-13 barcodes printed on products
+const SCANNED_FORMATS = [BarcodeFormat.QR_CODE, BarcodeFormat.EAN_13];
+
+// Camera-based QR/barcode scanner shared by the shopper and back-office screens.
+// Scanning stops after the first successful read.
+export function useCodeScanner(onResult: (text: string) => void) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [isScanning, setIsScanning] = useState<boolean>(false);
+  const [scanError, setScanError] = useState<string | null>(null);
+  const codeReaderRef = useRef<BrowserMultiFormatReader | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const onResultRef = useRef(onResult);
+
+  useEffect(() => {
+    onResultRef.current = onResult;
+  }, [onResult]);
+
+  const stopScanner = useCallback(() => {
+    if (codeReaderRef.current) {
+      codeReaderRef.current.reset();
+    }
+
+    // Stop camera stream to free up camera
+    if (streamRef.current) {
+      streamRef.current.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
+    }
+
+    if (videoRef.current) {
+      videoRef.current.srcObject = null;
+    }
+
+    setIsScanning(false);
+  }, []);
+
+  const startScanner = useCallback(async () => {
+    try {
+      setIsScanning(true);
+      setScanError(null);
+
+      if (!codeReaderRef.current) {
+        codeReaderRef.current = new BrowserMultiFormatReader(
+          new Map([[DecodeHintType.POSSIBLE_FORMATS, SCANNED_FORMATS]])
+        );
+      }
+
+      // Set back camera preference directly without device enumeration
+      if (videoRef.current) {
+        try {
+          const stream = await navigator.mediaDevices.getUserMedia({
+            video: { facingMode: 'environment' }
+          });
+          streamRef.current = stream;
+          videoRef.current.srcObject = stream;
+        } catch (cameraError) {
+          console.error('Error accessing camera:', cameraError);
+          throw new Error('No se pudo acceder a la cámara. Verifica los permisos.');
+        }
+      }
+
+      await codeReaderRef.current.decodeFromVideoDevice(
+        undefined, // Let it use the stream we already set
+        videoRef.current!,
+        (result, error) => {
+          if (result) {
+            const scannedText = result.getText();
+
+            // Stop scanning before handing the result over
+            stopScanner();
+            onResultRef.current(scannedText);
+          }
+
+          if (error && error.name !== 'NotFoundException') {
+            console.error('Code scanner error:', error);
+          }
+        }
+      );
+    } catch (error) {
+      console.error('Error starting code scanner:', error);
+      setScanError(error instanceof Error ? error.message : 'Error al iniciar la cámara');
+      setIsScanning(false);
+    }
+  }, [stopScanner]);
+
+  // Release the camera when the component using the scanner unmounts
+  useEffect(() => {
+    return () => {
+      stopScanner();
+    };
+  }, [stopScanner]);
+
+  return { videoRef, isScanning, scanError, startScanner, stopScanner };
+}
@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+import { getCurrentStaffMember, subscribeToAuthChanges, StaffMember } from '@/lib/auth';
+
+// Signed-in staff member, kept in sync with Supabase Auth sign-ins and sign-outs
+export function useStaffMember() {
+  const [staffMember, setStaffMember] = useState<StaffMember | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+
+  useEffect(() => {
+    let isCurrent = true;
+
+    const loadStaffMember = async () => {
+      try {
+        const member = await getCurrentStaffMember();
+        if (isCurrent) setStaffMember(member);
+      } catch (error) {
+        console.error('Error loading staff member:', error);
+        if (isCurrent) setStaffMember(null);
+      } finally {
+        if (isCurrent) setIsLoading(false);
+      }
+    };
+
+    loadStaffMember();
+
+    // onAuthStateChange callbacks must not await Supabase calls directly
+    const subscription = subscribeToAuthChanges(() => {
+      setTimeout(loadStaffMember, 0);
+    });
+
+    return () => {
+      isCurrent = false;
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  return { staffMember, isLoading };
+}
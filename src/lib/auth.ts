@@ -0,0 +1,81 @@
+import { supabase } from './supabase'
+
+// Staff roles stored in staff_members.role
+export type StaffRole = 'owner' | 'store_manager' | 'cashier'
+
+export const STAFF_ROLE_LABELS: Record<StaffRole, string> = {
+  owner: 'Owner',
+  store_manager: 'Store manager',
+  cashier: 'Cashier',
+}
+
+// Roles allowed on each back-office route
+export const ADMIN_ROLES: StaffRole[] = ['owner', 'store_manager']
+export const REDEEM_ROLES: StaffRole[] = ['owner', 'store_manager', 'cashier']
+
+export interface StaffMember {
+  userId: string
+  email: string
+  role: StaffRole
+  tenantId: string
+}
+
+// Sign a staff member in with email and password
+export const signInStaff = async (email: string, password: string): Promise<void> => {
+  const { error } = await supabase.auth.signInWithPassword({ email, password })
+
+  if (error) {
+    console.error('Error signing in:', error)
+    throw error
+  }
+}
+
+// Sign the current staff member out
+export const signOutStaff = async (): Promise<void> => {
+  const { error } = await supabase.auth.signOut()
+
+  if (error) {
+    console.error('Error signing out:', error)
+    throw error
+  }
+}
+
+// Get the signed-in staff member, or null if nobody with a staff role is signed in
+export const getCurrentStaffMember = async (): Promise<StaffMember | null> => {
+  const { data: { session } } = await supabase.auth.getSession()
+  if (!session) return null
+
+  const { data, error } = await supabase
+    .from('staff_members')
+    .select('role, tenant_id')
+    .eq('user_id', session.user.id)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching staff member:', error)
+    throw error
+  }
+
+  if (!data) return null
+
+  return {
+    userId: session.user.id,
+    email: session.user.email || '',
+    role: data.role,
+    tenantId: data.tenant_id,
+  }
+}
+
+// Check whether a staff member may use a route restricted to the given roles
+export const hasStaffRole = (staffMember: StaffMember | null, roles: StaffRole[]): boolean => {
+  return !!staffMember && roles.includes(staffMember.role)
+}
+
+// Subscribe to sign-in and sign-out events
+export const subscribeToAuthChanges = (callback: () => void) => {
+  const { data: { subscription } } = supabase.auth.onAuthStateChange(() => {
+    callback()
+  })
+
+  return subscription
+}
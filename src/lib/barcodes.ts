@@ -0,0 +1,31 @@
+import { supabase } from './supabase'
+
+// Product barcodes (see PRODUCT_BARCODE_SETUP.sql). Shoppers scan a product's
+// EAN-13 barcode, or type it, when there is no readable QR code; the barcode
+// is resolved to the SKU in the storefront tenant's catalog.
+
+// Whether a code is a 13-digit EAN with a valid check digit
+export const isValidEan13 = (code: string): boolean => {
+  if (!/^\d{13}$/.test(code)) return false
+
+  const sum = code
+    .split('')
+    .reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3), 0)
+
+  return sum % 10 === 0
+}
+
+// Get the SKU of the product on sale with this barcode, or null when there is none
+export const findProductSkuByEan = async (ean: string, tenantId?: string | null): Promise<string | null> => {
+  const { data, error } = await supabase.rpc('find_product_sku_by_ean', {
+    p_ean: ean,
+    p_tenant_id: tenantId ?? null,
+  })
+
+  if (error) {
+    console.error('Error finding product by barcode:', error)
+    throw error
+  }
+
+  return data
+}
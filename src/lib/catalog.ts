@@ -0,0 +1,254 @@
+import { z } from 'zod'
+import { supabase } from './supabase'
+import { PrivilegedProduct, ProductDetails } from './database'
+import { SKU_PATTERN } from './qrPayload'
+
+// Catalog import and export. CSV and JSON files use the same columns, so an
+// exported catalog can be edited and imported back.
+
+export type CatalogFormat = 'csv' | 'json'
+
+export const CATALOG_COLUMNS = ['sku', 'name', 'description', 'price', 'max_discount_percentage'] as const
+
+type CatalogColumn = typeof CATALOG_COLUMNS[number]
+
+// Validation shared by the product form and the catalog import
+export const productDetailsSchema = z.object({
+  sku: z.string()
+    .trim()
+    .min(1, 'SKU is required')
+    .max(50, 'SKU must be 50 characters or less')
+    .regex(SKU_PATTERN, 'Start with a letter or number and use only letters, numbers, dots, dashes and underscores'),
+  name: z.string()
+    .trim()
+    .min(1, 'Name is required')
+    .max(255, 'Name must be 255 characters or less'),
+  description: z.string().trim(),
+  price: z.coerce.number({ invalid_type_error: 'Price is required' })
+    .positive('Price must be greater than 0')
+    .max(99999999.99, 'Price is too high'),
+  // Blank means the product uses its category's default
+  maxDiscountPercentage: z.preprocess(
+    (value) => (value === '' || value === undefined ? null : value),
+    z.coerce.number({ invalid_type_error: 'Enter a percentage' })
+      .int('Use a whole percentage')
+      .min(0, 'Max discount can\'t be negative')
+      .max(100, 'Max discount can\'t be over 100%')
+      .nullable()
+  ),
+})
+
+export type CatalogImportStatus = 'new' | 'changed' | 'unchanged' | 'invalid'
+
+// One row of an import file, checked against the current catalog
+export interface CatalogImportRow {
+  rowNumber: number // Row in the CSV (the header is row 1) or position in the JSON array
+  sku: string
+  productId: string | null // The existing product with this SKU, if any
+  details: ProductDetails | null // Null when the row is invalid
+  status: CatalogImportStatus
+  changes: (keyof ProductDetails)[] // Fields that differ from the existing product
+  errors: string[]
+}
+
+// Outcome of importing one row, with the database error when it failed
+export interface CatalogImportResult {
+  rowNumber: number
+  sku: string
+  error: string | null
+}
+
+// Split CSV text into rows of fields (RFC 4180: quoted fields, "" escapes, CRLF)
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  const input = text.replace(/^\uFEFF/, '') // Excel adds a byte order mark
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  // Skip blank lines, e.g. a trailing newline
+  return rows.filter((fields) => fields.some((value) => value.trim() !== ''))
+}
+
+// Quote a CSV field when it contains separators, quotes or line breaks
+const toCsvField = (value: string | number) => {
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// Read the rows of an import file as column -> value records
+const readCatalogRecords = (text: string, format: CatalogFormat): { rowNumber: number; record: Record<string, unknown> }[] => {
+  if (format === 'json') {
+    let data: unknown
+
+    try {
+      data = JSON.parse(text)
+    } catch (err) {
+      throw new Error('The file is not valid JSON.')
+    }
+
+    if (!Array.isArray(data)) {
+      throw new Error('The JSON file must contain an array of products.')
+    }
+
+    return data.map((record, index) => ({
+      rowNumber: index + 1,
+      record: record && typeof record === 'object' ? record as Record<string, unknown> : {},
+    }))
+  }
+
+  const [header, ...rows] = parseCsv(text)
+  if (!header) {
+    throw new Error('The CSV file is empty.')
+  }
+
+  const columns = header.map((column) => column.trim().toLowerCase())
+  // Every column is required, since imported rows replace the existing values
+  const missingColumns = CATALOG_COLUMNS.filter((column) => !columns.includes(column))
+  if (missingColumns.length > 0) {
+    throw new Error(`Missing columns: ${missingColumns.join(', ')}.`)
+  }
+
+  return rows.map((fields, index) => ({
+    rowNumber: index + 2,
+    record: Object.fromEntries(columns.map((column, columnIndex) => [column, fields[columnIndex] ?? ''])),
+  }))
+}
+
+// Leave blank numbers undefined so they're reported as missing instead of 0
+const toNumberInput = (value: unknown) => {
+  return value === '' || value === null ? undefined : value
+}
+
+// Parse an import file and compare each row with the current catalog by SKU
+export const previewCatalogImport = (
+  text: string,
+  format: CatalogFormat,
+  existingProducts: PrivilegedProduct[]
+): CatalogImportRow[] => {
+  const existingBySku = new Map(existingProducts.map((product) => [product.sku, product]))
+  const seenSkus = new Set<string>()
+
+  return readCatalogRecords(text, format).map(({ rowNumber, record }) => {
+    const sku = String(record.sku ?? '').trim()
+    const result = productDetailsSchema.safeParse({
+      sku,
+      name: record.name ?? '',
+      description: record.description ?? '',
+      price: toNumberInput(record.price),
+      maxDiscountPercentage: toNumberInput(record.max_discount_percentage),
+    })
+
+    const errors = result.success ? [] : result.error.issues.map((issue) => issue.message)
+    if (sku && seenSkus.has(sku)) {
+      errors.push(`SKU ${sku} appears more than once in the file`)
+    }
+    seenSkus.add(sku)
+
+    if (!result.success || errors.length > 0) {
+      return { rowNumber, sku, productId: null, details: null, status: 'invalid', changes: [], errors }
+    }
+
+    const details = result.data as ProductDetails
+    const existing = existingBySku.get(details.sku)
+    if (!existing) {
+      return { rowNumber, sku, productId: null, details, status: 'new', changes: [], errors }
+    }
+
+    const changes = (['name', 'description', 'price', 'maxDiscountPercentage'] as const)
+      .filter((field) => (existing[field] ?? '') !== (details[field] ?? ''))
+
+    return { rowNumber, sku, productId: existing.id, details, status: changes.length > 0 ? 'changed' : 'unchanged', changes, errors }
+  })
+}
+
+// Explain why a row couldn't be saved
+const describeImportError = (error: { code?: string; message?: string }) => {
+  if (error.code === '23505') return 'A product with this SKU already exists'
+  return error.message || 'Could not save this product'
+}
+
+// Create new products and update the tenant's existing ones (managers only),
+// one row at a time so a failing row doesn't stop the others. Archived
+// products stay archived and existing images are kept.
+export const importProducts = async (rows: CatalogImportRow[]): Promise<CatalogImportResult[]> => {
+  const results: CatalogImportResult[] = []
+
+  for (const { rowNumber, sku, productId, details } of rows) {
+    if (!details) continue
+
+    const fields = {
+      name: details.name,
+      description: details.description,
+      price: details.price,
+      max_discount_percentage: details.maxDiscountPercentage,
+    }
+
+    // Existing products are matched by id, so only the tenant's own catalog is updated
+    const { error } = productId
+      ? await supabase.from('products').update(fields).eq('id', productId)
+      : await supabase.from('products').insert({ sku: details.sku, ...fields })
+
+    if (error) {
+      console.error(`Error importing product ${sku}:`, error)
+    }
+
+    results.push({ rowNumber, sku, error: error ? describeImportError(error) : null })
+  }
+
+  return results
+}
+
+// Export products in the import format
+export const exportCatalog = (products: PrivilegedProduct[], format: CatalogFormat): string => {
+  const records: Record<CatalogColumn, string | number>[] = products.map((product) => ({
+    sku: product.sku,
+    name: product.name,
+    description: product.description ?? '',
+    price: product.price,
+    max_discount_percentage: product.maxDiscountPercentage ?? '',
+  }))
+
+  if (format === 'json') {
+    return JSON.stringify(records, null, 2)
+  }
+
+  return [
+    CATALOG_COLUMNS.join(','),
+    ...records.map((record) => CATALOG_COLUMNS.map((column) => toCsvField(record[column])).join(',')),
+  ].join('\r\n') + '\r\n'
+}
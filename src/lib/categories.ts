@@ -0,0 +1,343 @@
+import { supabase, Database } from './supabase'
+
+// Categories group a tenant's products by kind (Sweaters, Buzos...) and set
+// the default discount ceiling and attempt budget of products without their
+// own. Collections (Invierno, Sale...) group any products across categories.
+// Shoppers browse both from the home screen; inactive ones are hidden from
+// the storefront, and shoppers never see a category's defaults.
+
+export type CategoryRow = Database['public']['Tables']['categories']['Row']
+export type CollectionRow = Database['public']['Tables']['collections']['Row']
+export type PublicCategoryRow = Database['public']['Views']['public_categories']['Row']
+
+// Measurements in cm of each size, shown on the product detail page
+export interface SizeGuide {
+  columns: string[] // e.g. ["Pecho", "Largo"]
+  rows: { size: string; values: string[] }[]
+}
+
+// App format for categories
+export interface Category {
+  id: string
+  slug: string
+  name: string
+  defaultMaxDiscountPercentage: number | null // Null falls back to no discount
+  defaultMaxAttempts: number | null // Null falls back to 3 attempts
+  sizeGuide: SizeGuide | null
+  sortOrder: number
+  isActive: boolean
+  tenantId: string
+}
+
+// Categories as shoppers see them, without the defaults
+export type StorefrontCategory = Pick<Category, 'id' | 'slug' | 'name' | 'sortOrder' | 'tenantId'>
+
+// App format for collections
+export interface Collection {
+  id: string
+  slug: string
+  name: string
+  description: string | null
+  sortOrder: number
+  isActive: boolean
+  tenantId: string
+}
+
+// Fields managers edit from the admin Categories tab
+export type CategoryDetails = Omit<Category, 'id' | 'tenantId'>
+export type CollectionDetails = Omit<Collection, 'id' | 'tenantId'>
+
+const transformCategory = (dbCategory: CategoryRow): Category => ({
+  id: dbCategory.id,
+  slug: dbCategory.slug,
+  name: dbCategory.name,
+  defaultMaxDiscountPercentage: dbCategory.default_max_discount_percentage,
+  defaultMaxAttempts: dbCategory.default_max_attempts,
+  sizeGuide: parseSizeGuide(dbCategory.size_guide),
+  sortOrder: dbCategory.sort_order,
+  isActive: dbCategory.is_active,
+  tenantId: dbCategory.tenant_id,
+})
+
+const transformPublicCategory = (dbCategory: PublicCategoryRow): StorefrontCategory => ({
+  id: dbCategory.id,
+  slug: dbCategory.slug,
+  name: dbCategory.name,
+  sortOrder: dbCategory.sort_order,
+  tenantId: dbCategory.tenant_id,
+})
+
+const transformCollection = (dbCollection: CollectionRow): Collection => ({
+  id: dbCollection.id,
+  slug: dbCollection.slug,
+  name: dbCollection.name,
+  description: dbCollection.description,
+  sortOrder: dbCollection.sort_order,
+  isActive: dbCollection.is_active,
+  tenantId: dbCollection.tenant_id,
+})
+
+// Read a stored size guide, or null when it's missing or malformed
+export const parseSizeGuide = (value: unknown): SizeGuide | null => {
+  if (typeof value !== 'object' || value === null) return null
+
+  const guide = value as Record<string, unknown>
+  const isStringArray = (candidate: unknown): candidate is string[] =>
+    Array.isArray(candidate) && candidate.every((item) => typeof item === 'string')
+
+  if (!isStringArray(guide.columns) || !Array.isArray(guide.rows)) return null
+
+  const rows = guide.rows.filter((row): row is SizeGuide['rows'][number] =>
+    typeof row === 'object' && row !== null && typeof row.size === 'string' && isStringArray(row.values)
+  )
+
+  return rows.length > 0 ? { columns: guide.columns, rows } : null
+}
+
+// Size guide as editable text: a header line of "Talle" and the measurement
+// names, then one line per size, with comma-separated values
+export const formatSizeGuide = (guide: SizeGuide | null) => {
+  if (!guide) return ''
+
+  return [
+    ['Talle', ...guide.columns].join(', '),
+    ...guide.rows.map((row) => [row.size, ...row.values].join(', ')),
+  ].join('\n')
+}
+
+// Read a size guide typed in the formatSizeGuide() format; null when it's blank
+export const readSizeGuide = (text: string): SizeGuide | null => {
+  const [header, ...lines] = text
+    .split('\n')
+    .map((line) => line.split(',').map((value) => value.trim()))
+    .filter((values) => values.some((value) => value !== ''))
+
+  if (!header || lines.length === 0) return null
+
+  return {
+    columns: header.slice(1),
+    rows: lines.map(([size, ...values]) => ({ size, values })),
+  }
+}
+
+// URL-safe slug for a name, e.g. "Pantalón de niño" -> "pantalon-de-nino"
+export const toSlug = (name: string) => {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Drop accents
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+}
+
+// Get the tenant's categories in display order, inactive ones included (staff only)
+export const getCategories = async (tenantId?: string | null): Promise<Category[]> => {
+  let query = supabase
+    .from('categories')
+    .select('*')
+    .order('sort_order')
+    .order('name')
+
+  if (tenantId) {
+    query = query.eq('tenant_id', tenantId)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error('Error fetching categories:', error)
+    throw error
+  }
+
+  return data?.map(transformCategory) || []
+}
+
+// Get the tenant's active categories in display order for the storefront
+export const getStorefrontCategories = async (tenantId?: string | null): Promise<StorefrontCategory[]> => {
+  let query = supabase
+    .from('public_categories')
+    .select('id, tenant_id, slug, name, sort_order')
+    .order('sort_order')
+    .order('name')
+
+  if (tenantId) {
+    query = query.eq('tenant_id', tenantId)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error('Error fetching categories:', error)
+    throw error
+  }
+
+  return data?.map(transformPublicCategory) || []
+}
+
+// Create a category in the staff member's tenant (managers only)
+export const createCategory = async (details: CategoryDetails) => {
+  const { data, error } = await supabase
+    .from('categories')
+    .insert({
+      slug: details.slug,
+      name: details.name,
+      default_max_discount_percentage: details.defaultMaxDiscountPercentage,
+      default_max_attempts: details.defaultMaxAttempts,
+      size_guide: details.sizeGuide,
+      sort_order: details.sortOrder,
+      is_active: details.isActive,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error creating category:', error)
+    throw error
+  }
+
+  return transformCategory(data)
+}
+
+// Update a category (managers only)
+export const updateCategory = async (id: string, details: CategoryDetails) => {
+  const { data, error } = await supabase
+    .from('categories')
+    .update({
+      slug: details.slug,
+      name: details.name,
+      default_max_discount_percentage: details.defaultMaxDiscountPercentage,
+      default_max_attempts: details.defaultMaxAttempts,
+      size_guide: details.sizeGuide,
+      sort_order: details.sortOrder,
+      is_active: details.isActive,
+    })
+    .eq('id', id)
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error updating category:', error)
+    throw error
+  }
+
+  return transformCategory(data)
+}
+
+// Get the tenant's collections in display order (staff also see inactive ones)
+export const getCollections = async (tenantId?: string | null): Promise<Collection[]> => {
+  let query = supabase
+    .from('collections')
+    .select('*')
+    .order('sort_order')
+    .order('name')
+
+  if (tenantId) {
+    query = query.eq('tenant_id', tenantId)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error('Error fetching collections:', error)
+    throw error
+  }
+
+  return data?.map(transformCollection) || []
+}
+
+// Create a collection in the staff member's tenant (managers only)
+export const createCollection = async (details: CollectionDetails) => {
+  const { data, error } = await supabase
+    .from('collections')
+    .insert({
+      slug: details.slug,
+      name: details.name,
+      description: details.description,
+      sort_order: details.sortOrder,
+      is_active: details.isActive,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error creating collection:', error)
+    throw error
+  }
+
+  return transformCollection(data)
+}
+
+// Update a collection (managers only)
+export const updateCollection = async (id: string, details: CollectionDetails) => {
+  const { data, error } = await supabase
+    .from('collections')
+    .update({
+      slug: details.slug,
+      name: details.name,
+      description: details.description,
+      sort_order: details.sortOrder,
+      is_active: details.isActive,
+    })
+    .eq('id', id)
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error updating collection:', error)
+    throw error
+  }
+
+  return transformCollection(data)
+}
+
+// Get the collections each product is in, by product ID
+export const getProductCollectionIds = async (): Promise<Record<string, string[]>> => {
+  const { data, error } = await supabase
+    .from('collection_products')
+    .select('collection_id, product_id')
+
+  if (error) {
+    console.error('Error fetching collection products:', error)
+    throw error
+  }
+
+  const collectionIdsByProduct: Record<string, string[]> = {}
+  for (const row of data || []) {
+    collectionIdsByProduct[row.product_id] = [...(collectionIdsByProduct[row.product_id] || []), row.collection_id]
+  }
+
+  return collectionIdsByProduct
+}
+
+// Put a product in exactly these collections (managers only)
+export const setProductCollections = async (productId: string, collectionIds: string[]) => {
+  let removeQuery = supabase
+    .from('collection_products')
+    .delete()
+    .eq('product_id', productId)
+
+  if (collectionIds.length > 0) {
+    removeQuery = removeQuery.not('collection_id', 'in', `(${collectionIds.join(',')})`)
+  }
+
+  const { error: removeError } = await removeQuery
+
+  if (removeError) {
+    console.error('Error removing product from collections:', removeError)
+    throw removeError
+  }
+
+  if (collectionIds.length === 0) return
+
+  const { error } = await supabase
+    .from('collection_products')
+    .upsert(
+      collectionIds.map((collectionId) => ({ collection_id: collectionId, product_id: productId })),
+      { onConflict: 'collection_id,product_id', ignoreDuplicates: true }
+    )
+
+  if (error) {
+    console.error('Error adding product to collections:', error)
+    throw error
+  }
+}
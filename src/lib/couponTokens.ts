@@ -0,0 +1,86 @@
+import { supabase } from './supabase'
+
+// Signed coupon tokens issued by the database (see COUPON_TOKEN_SETUP.sql):
+// v1.<base64url JSON payload>.<base64url HMAC-SHA256 of "v1.<payload>">
+
+export interface CouponTokenPayload {
+  acceptanceCode: string
+  sku: string
+  price: number
+  expiresAt: Date
+}
+
+const COUPON_TOKEN_VERSION = 'v1'
+
+let tokenKeyPromise: Promise<CryptoKey> | null = null
+
+const base64UrlToBytes = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=')
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0))
+}
+
+const hexToBytes = (hex: string): Uint8Array => {
+  return Uint8Array.from(hex.match(/.{2}/g) || [], byte => parseInt(byte, 16))
+}
+
+// Read a token's payload without checking its signature
+export const decodeCouponToken = (token: string): CouponTokenPayload | null => {
+  const [version, payload, signature] = token.split('.')
+  if (version !== COUPON_TOKEN_VERSION || !payload || !signature) return null
+
+  try {
+    const data = JSON.parse(new TextDecoder().decode(base64UrlToBytes(payload)))
+    if (typeof data.c !== 'string' || typeof data.s !== 'string') return null
+
+    return {
+      acceptanceCode: data.c,
+      sku: data.s,
+      price: Number(data.p),
+      expiresAt: new Date(Number(data.e) * 1000),
+    }
+  } catch {
+    return null
+  }
+}
+
+// Fetch the token key once per page load (cashier devices only)
+const getCouponTokenKey = (): Promise<CryptoKey> => {
+  if (!tokenKeyPromise) {
+    tokenKeyPromise = (async () => {
+      const { data, error } = await supabase.rpc('get_coupon_token_key')
+
+      if (error) {
+        console.error('Error fetching coupon token key:', error)
+        throw error
+      }
+
+      return crypto.subtle.importKey('raw', hexToBytes(data), { name: 'HMAC', hash: 'SHA-256' }, false, ['verify'])
+    })()
+
+    tokenKeyPromise.catch(() => {
+      tokenKeyPromise = null
+    })
+  }
+
+  return tokenKeyPromise
+}
+
+// Check a token's signature without a database lookup. Returns the payload
+// when the signature is valid, null when the token was tampered with.
+export const verifyCouponToken = async (token: string): Promise<CouponTokenPayload | null> => {
+  const payload = decodeCouponToken(token)
+  if (!payload) return null
+
+  const key = await getCouponTokenKey()
+  const signedPart = token.slice(0, token.lastIndexOf('.'))
+  const signature = token.slice(token.lastIndexOf('.') + 1)
+
+  const isValid = await crypto.subtle.verify(
+    'HMAC',
+    key,
+    base64UrlToBytes(signature),
+    new TextEncoder().encode(signedPart)
+  )
+
+  return isValid ? payload : null
+}
@@ -0,0 +1,90 @@
+import type { OfferLog } from './offerLogs'
+import { decodeCouponToken } from './couponTokens'
+
+// Coupon lifecycle helpers. The database owns expiry (expires_at) and the
+// persisted coupon_status; these helpers only derive what to show from them.
+// An 'active' coupon past expires_at is expired even before the database
+// records it, so always check expires_at too.
+
+// Persisted coupon state in offer_logs.coupon_status
+export type CouponState = 'active' | 'redeemed' | 'cancelled' | 'expired'
+
+// Status shown to shoppers and staff
+export type CouponStatus = 'pendiente' | 'usado' | 'cancelado'
+
+// Store default coupon window, mirrored from store_settings.coupon_ttl_minutes
+export const DEFAULT_COUPON_TTL_MINUTES = 30
+
+export interface CouponLifecycle {
+  state: CouponState
+  expiresAt: Date
+}
+
+// Build the lifecycle of an accepted offer log
+export const getOfferLogLifecycle = (offerLog: OfferLog): CouponLifecycle => ({
+  state: offerLog.coupon_status ?? (offerLog.is_redeemed ? 'redeemed' : 'active'),
+  expiresAt: offerLog.expires_at ? new Date(offerLog.expires_at) : new Date(offerLog.created_at),
+})
+
+// Check if the coupon window has passed
+export const isCouponExpired = (lifecycle: CouponLifecycle, now: Date = new Date()): boolean => {
+  return lifecycle.state === 'expired' || now >= lifecycle.expiresAt
+}
+
+// Derive the displayed status from the persisted state and expires_at
+export const getCouponStatus = (lifecycle: CouponLifecycle, now: Date = new Date()): CouponStatus => {
+  if (lifecycle.state === 'redeemed') return 'usado'
+  if (lifecycle.state === 'cancelled' || isCouponExpired(lifecycle, now)) return 'cancelado'
+  return 'pendiente'
+}
+
+// Time left before the coupon expires, formatted as m:ss
+export const formatCouponTimeRemaining = (lifecycle: CouponLifecycle, now: Date = new Date()): string => {
+  const timeRemaining = lifecycle.expiresAt.getTime() - now.getTime()
+
+  if (timeRemaining <= 0) return '0:00'
+
+  const minutesRemaining = Math.floor(timeRemaining / (1000 * 60))
+  const secondsRemaining = Math.floor((timeRemaining % (1000 * 60)) / 1000)
+
+  return `${minutesRemaining}:${secondsRemaining.toString().padStart(2, '0')}`
+}
+
+// Coupon QR codes encode `shuq-coupon:v2:<signed token>`. Coupons issued
+// before signed tokens use `shuq-coupon:v1:<acceptance code>:<signature>`.
+const COUPON_QR_PREFIX = 'shuq-coupon:v1:'
+const COUPON_QR_TOKEN_PREFIX = 'shuq-coupon:v2:'
+
+export interface CouponQrPayload {
+  acceptanceCode: string
+  signature: string | null
+  token: string | null
+}
+
+// Build the text encoded in a coupon's QR code
+export const buildCouponQrPayload = (
+  acceptanceCode: string,
+  signature: string | null,
+  token: string | null = null
+): string => {
+  if (token) return `${COUPON_QR_TOKEN_PREFIX}${token}`
+  return signature ? `${COUPON_QR_PREFIX}${acceptanceCode}:${signature}` : acceptanceCode
+}
+
+// Read a scanned coupon QR code. Plain acceptance codes are accepted unsigned.
+export const parseCouponQrPayload = (text: string): CouponQrPayload => {
+  const trimmed = text.trim()
+
+  if (trimmed.toLowerCase().startsWith(COUPON_QR_TOKEN_PREFIX)) {
+    const token = trimmed.slice(COUPON_QR_TOKEN_PREFIX.length)
+    const payload = decodeCouponToken(token)
+    return { acceptanceCode: payload?.acceptanceCode.toUpperCase() ?? '', signature: null, token }
+  }
+
+  if (trimmed.toLowerCase().startsWith(COUPON_QR_PREFIX)) {
+    const [acceptanceCode, signature] = trimmed.slice(COUPON_QR_PREFIX.length).split(':')
+    return { acceptanceCode: acceptanceCode.toUpperCase(), signature: signature || null, token: null }
+  }
+
+  return { acceptanceCode: trimmed.toUpperCase(), signature: null, token: null }
+}
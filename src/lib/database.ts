@@ -1,9 +1,133 @@
 import { supabase, Database } from './supabase'
+import { NegotiationStrategyConfig, parseNegotiationStrategy } from './negotiation'
+import { DEFAULT_COUPON_TTL_MINUTES } from './coupons'
+import { parseSizeGuide, SizeGuide } from './categories'
 
+// Privileged product rows include pricing rules such as the discount ceiling.
+// Only the admin and the negotiation engine should work with these.
 export type Product = Database['public']['Tables']['products']['Row']
 export type ProductInsert = Database['public']['Tables']['products']['Insert']
 export type ProductUpdate = Database['public']['Tables']['products']['Update']
 
+// Public product rows come from the public_products view and are safe to show shoppers
+export type PublicProductRow = Database['public']['Views']['public_products']['Row']
+
+export type ProductImageRow = Database['public']['Tables']['product_images']['Row']
+
+// App format for products shown on the storefront
+export interface StorefrontProduct {
+  id: string
+  sku: string
+  name: string
+  description: string
+  price: number
+  image: string
+  attemptBudget: number // Offer attempts, after campaign overrides
+  couponTtlMinutes: number // How long an accepted coupon stays valid
+  consolationDiscountPercentage: number // Offered once all attempts are used
+  styleId: string | null // Variants of the same style share it
+  styleCode: string | null // Offers on any variant of the style share one negotiation
+  styleName: string | null
+  color: string | null
+  size: string | null
+  inStock: boolean // False once every unit is sold or reserved by pending coupons
+  categoryId: string | null
+  category: string | null // Name of the product's active category
+  categorySlug: string | null
+  composition: string | null
+  careInstructions: string[] // One per line in the database
+  sizeGuide: SizeGuide | null // From the product's category
+}
+
+// App format for products including pricing rules (admin only)
+export interface PrivilegedProduct extends StorefrontProduct {
+  maxDiscountPercentage: number | null // Null uses the category's default
+  negotiationStrategy: NegotiationStrategyConfig
+  stockQuantity: number | null
+  ean: string | null // EAN-13 barcode shoppers can scan instead of the QR code
+  archivedAt: string | null // Archived products are hidden from the storefront
+}
+
+// Catalog fields managers edit from the admin Products tab
+export interface ProductDetails {
+  sku: string
+  name: string
+  description: string
+  price: number
+  maxDiscountPercentage: number | null // Null uses the category's default
+  stockQuantity?: number | null // Units on hand, null when not tracked; left as is when omitted
+  ean?: string | null // Null for products without a barcode; left as is when omitted
+  categoryId?: string | null // Left as is when omitted
+  composition?: string | null // Left as is when omitted
+  careInstructions?: string[] // Left as is when omitted
+}
+
+// Gallery image shown after the product image on the detail page
+export interface ProductGalleryImage {
+  id: string
+  path: string // Object name in the products bucket
+  url: string
+  altText: string | null
+  sortOrder: number
+}
+
+// Sort orders of the storefront product list
+export type ProductSort = 'name' | 'price_asc' | 'price_desc' | 'newest'
+
+// Search and filters of the storefront product list
+export interface ProductSearchFilters {
+  query?: string
+  category?: string | null // Category slug
+  collection?: string | null // Collection slug
+  minPrice?: number | null
+  maxPrice?: number | null
+  sort?: ProductSort
+}
+
+// One entry of the storefront product list: a product, or a style with all its variants
+export interface ProductListing {
+  sku: string // Opens the style's first variant
+  name: string
+  image: string
+  category: string | null
+  minPrice: number
+  maxPrice: number // Differs from minPrice when variants have different prices
+  inStock: boolean
+}
+
+export interface ProductListingPage {
+  listings: ProductListing[]
+  totalCount: number // Listings on all pages
+}
+
+export const PRODUCT_LISTING_PAGE_SIZE = 20
+
+// Which tenant's products the storefront shows, and at which store's prices
+export interface StorefrontScope {
+  tenantId?: string | null
+  storeCode?: string | null // Store from the scanned QR code, list prices without one
+}
+
+// Stock levels of a product (admin only)
+export interface ProductStock {
+  stockQuantity: number | null
+  reservedQuantity: number // Held by pending coupons
+  availableQuantity: number | null
+}
+
+// Image formats accepted for product uploads, in getImageUrls order
+export const PRODUCT_IMAGE_TYPES: Record<string, string> = {
+  'image/webp': 'webp',
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+}
+
+// Label for a variant's color and size, e.g. "NEGRO · M", or null for products without variants
+export const formatVariantLabel = (color: string | null, size: string | null) => {
+  const parts = [color, size].filter(Boolean)
+  return parts.length > 0 ? parts.join(' · ') : null
+}
+
 // Helper function to get correct Supabase storage URL
 // Try different image formats in order of preference
 export const getSupabaseImageUrl = (sku: string) => {
@@ -22,45 +146,110 @@ export const getImageUrls = (sku: string) => {
   ]
 }
 
-// Transform database product to app product format
-export const transformProduct = (dbProduct: Product): {
-  id: string
-  sku: string
-  name: string
-  description: string
-  price: number
-  image: string
-  maxDiscountPercentage: number
-} => ({
+// Care instructions are stored one per line
+const parseCareInstructions = (value: string | null) => {
+  return (value ?? '').split('\n').map((line) => line.trim()).filter(Boolean)
+}
+
+const formatCareInstructions = (instructions: string[]) => {
+  return instructions.length > 0 ? instructions.join('\n') : null
+}
+
+// Transform public product row to storefront product format
+export const transformPublicProduct = (dbProduct: PublicProductRow): StorefrontProduct => ({
   id: dbProduct.id,
   sku: dbProduct.sku,
   name: dbProduct.name,
   description: dbProduct.description,
   price: dbProduct.price,
   image: getSupabaseImageUrl(dbProduct.sku), // Use helper function to generate correct URL
+  attemptBudget: dbProduct.attempt_budget,
+  couponTtlMinutes: dbProduct.coupon_ttl_minutes,
+  consolationDiscountPercentage: dbProduct.consolation_discount_percentage,
+  styleId: dbProduct.style_id,
+  styleCode: dbProduct.style_code,
+  styleName: dbProduct.style_name,
+  color: dbProduct.color,
+  size: dbProduct.size,
+  inStock: dbProduct.in_stock,
+  categoryId: dbProduct.category_id,
+  category: dbProduct.category,
+  categorySlug: dbProduct.category_slug,
+  composition: dbProduct.composition,
+  careInstructions: parseCareInstructions(dbProduct.care_instructions),
+  sizeGuide: parseSizeGuide(dbProduct.size_guide),
+})
+
+// Transform privileged product row to admin product format
+export const transformPrivilegedProduct = (dbProduct: Product): PrivilegedProduct => ({
+  ...transformPublicProduct({
+    ...dbProduct,
+    attempt_budget: dbProduct.max_attempts,
+    coupon_ttl_minutes: dbProduct.coupon_ttl_minutes ?? DEFAULT_COUPON_TTL_MINUTES,
+    style_code: null,
+    style_name: null,
+    in_stock: dbProduct.stock_quantity !== 0, // Ignores reservations, see getProductStock()
+    category: null, // Resolve categoryId with getCategories()
+    category_slug: null,
+    size_guide: null,
+  }),
   maxDiscountPercentage: dbProduct.max_discount_percentage,
+  negotiationStrategy: parseNegotiationStrategy(dbProduct.negotiation_strategy),
+  stockQuantity: dbProduct.stock_quantity,
+  ean: dbProduct.ean,
+  archivedAt: dbProduct.archived_at,
 })
 
-// Get all products
-export const getAllProducts = async () => {
-  const { data, error } = await supabase
-    .from('products')
-    .select('*')
-    .order('name')
+// Storefront products of the scope's tenant at the prices of its store
+const selectStorefrontProducts = ({ tenantId, storeCode }: StorefrontScope = {}) => {
+  const query = storeCode
+    ? supabase.from('public_store_products').select('*').eq('store_code', storeCode)
+    : supabase.from('public_products').select('*')
+
+  return tenantId ? query.eq('tenant_id', tenantId) : query
+}
+
+// Get a page of the storefront product list, searched and filtered in the database
+export const searchProductListings = async (
+  filters: ProductSearchFilters,
+  page: number,
+  { tenantId, storeCode }: StorefrontScope = {}
+): Promise<ProductListingPage> => {
+  const { data, error } = await supabase.rpc('search_product_listings', {
+    p_tenant_id: tenantId ?? null,
+    p_store_code: storeCode ?? null,
+    p_query: filters.query?.trim() || null,
+    p_category_slug: filters.category ?? null,
+    p_collection_slug: filters.collection ?? null,
+    p_min_price: filters.minPrice ?? null,
+    p_max_price: filters.maxPrice ?? null,
+    p_sort: filters.sort ?? 'name',
+    p_limit: PRODUCT_LISTING_PAGE_SIZE,
+    p_offset: page * PRODUCT_LISTING_PAGE_SIZE,
+  })
 
   if (error) {
-    console.error('Error fetching products:', error)
+    console.error('Error searching products:', error)
     throw error
   }
 
-  return data?.map(transformProduct) || []
+  return {
+    listings: (data || []).map((row) => ({
+      sku: row.sku,
+      name: row.name,
+      image: getSupabaseImageUrl(row.sku),
+      category: row.category,
+      minPrice: row.min_price,
+      maxPrice: row.max_price,
+      inStock: row.in_stock,
+    })),
+    totalCount: data?.[0]?.total_count ?? 0,
+  }
 }
 
 // Get product by SKU
-export const getProductBySku = async (sku: string) => {
-  const { data, error } = await supabase
-    .from('products')
-    .select('*')
+export const getProductBySku = async (sku: string, scope?: StorefrontScope) => {
+  const { data, error } = await selectStorefrontProducts(scope)
     .eq('sku', sku)
     .single()
 
@@ -73,13 +262,13 @@ export const getProductBySku = async (sku: string) => {
     throw error
   }
 
-  return data ? transformProduct(data) : null
+  return data ? transformPublicProduct(data) : null
 }
 
 // Get product by ID
 export const getProductById = async (id: string) => {
   const { data, error } = await supabase
-    .from('products')
+    .from('public_products')
     .select('*')
     .eq('id', id)
     .single()
@@ -93,7 +282,269 @@ export const getProductById = async (id: string) => {
     throw error
   }
 
-  return data ? transformProduct(data) : null
+  return data ? transformPublicProduct(data) : null
+}
+
+// Get the variants on sale of a product style, e.g. every color of a sweater
+export const getProductVariants = async (styleId: string, scope?: StorefrontScope) => {
+  const { data, error } = await selectStorefrontProducts(scope)
+    .eq('style_id', styleId)
+    .order('color')
+    .order('size')
+
+  if (error) {
+    console.error('Error fetching product variants:', error)
+    throw error
+  }
+
+  return data?.map(transformPublicProduct) || []
+}
+
+// Get all products including archived ones (admin only)
+export const getAllPrivilegedProducts = async () => {
+  const { data, error } = await supabase
+    .from('products')
+    .select('*')
+    .order('name')
+
+  if (error) {
+    console.error('Error fetching products:', error)
+    throw error
+  }
+
+  return data?.map(transformPrivilegedProduct) || []
+}
+
+// Get stock levels by SKU (admin only)
+export const getProductStock = async (): Promise<Record<string, ProductStock>> => {
+  const { data, error } = await supabase
+    .from('product_stock')
+    .select('*')
+
+  if (error) {
+    console.error('Error fetching product stock:', error)
+    throw error
+  }
+
+  return Object.fromEntries((data || []).map((row) => [row.sku, {
+    stockQuantity: row.stock_quantity,
+    reservedQuantity: row.reserved_quantity,
+    availableQuantity: row.available_quantity,
+  }]))
+}
+
+// Create a product (managers only)
+export const createProduct = async (details: ProductDetails) => {
+  const { data, error } = await supabase
+    .from('products')
+    .insert({
+      sku: details.sku,
+      name: details.name,
+      description: details.description,
+      price: details.price,
+      image: getSupabaseImageUrl(details.sku),
+      max_discount_percentage: details.maxDiscountPercentage,
+      stock_quantity: details.stockQuantity ?? null,
+      ean: details.ean ?? null,
+      category_id: details.categoryId ?? null,
+      composition: details.composition ?? null,
+      care_instructions: formatCareInstructions(details.careInstructions ?? []),
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error creating product:', error)
+    throw error
+  }
+
+  return transformPrivilegedProduct(data)
+}
+
+// Update a product's catalog fields; the SKU can't change once offers reference it
+export const updateProduct = async (id: string, details: Omit<ProductDetails, 'sku'>) => {
+  const { data, error } = await supabase
+    .from('products')
+    .update({
+      name: details.name,
+      description: details.description,
+      price: details.price,
+      max_discount_percentage: details.maxDiscountPercentage,
+      ...(details.stockQuantity !== undefined && { stock_quantity: details.stockQuantity }),
+      ...(details.ean !== undefined && { ean: details.ean }),
+      ...(details.categoryId !== undefined && { category_id: details.categoryId }),
+      ...(details.composition !== undefined && { composition: details.composition }),
+      ...(details.careInstructions !== undefined && { care_instructions: formatCareInstructions(details.careInstructions) }),
+    })
+    .eq('id', id)
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error updating product:', error)
+    throw error
+  }
+
+  return transformPrivilegedProduct(data)
+}
+
+// Archive a product so shoppers can no longer see it or make offers
+export const archiveProduct = async (id: string) => {
+  const { error } = await supabase
+    .from('products')
+    .update({ archived_at: new Date().toISOString() })
+    .eq('id', id)
+
+  if (error) {
+    console.error('Error archiving product:', error)
+    throw error
+  }
+}
+
+// Put an archived product back on sale
+export const restoreProduct = async (id: string) => {
+  const { error } = await supabase
+    .from('products')
+    .update({ archived_at: null })
+    .eq('id', id)
+
+  if (error) {
+    console.error('Error restoring product:', error)
+    throw error
+  }
+}
+
+// Upload a product image as <sku>.<ext> in the products bucket, replacing any
+// image in another format so getImageUrls finds the new one
+export const uploadProductImage = async (sku: string, file: File) => {
+  const extension = PRODUCT_IMAGE_TYPES[file.type]
+  if (!extension) {
+    throw new Error(`Unsupported image type: ${file.type}`)
+  }
+
+  const bucket = supabase.storage.from('products')
+  const path = `${sku}.${extension}`
+
+  const { error } = await bucket.upload(path, file, {
+    contentType: file.type,
+    cacheControl: '60',
+    upsert: true,
+  })
+
+  if (error) {
+    console.error('Error uploading product image:', error)
+    throw error
+  }
+
+  const stalePaths = Object.values(PRODUCT_IMAGE_TYPES)
+    .filter((other) => other !== extension)
+    .map((other) => `${sku}.${other}`)
+
+  const { error: removeError } = await bucket.remove(stalePaths)
+
+  if (removeError) {
+    console.error('Error removing old product images:', removeError)
+    throw removeError
+  }
+
+  const { error: updateError } = await supabase
+    .from('products')
+    .update({ image: bucket.getPublicUrl(path).data.publicUrl })
+    .eq('sku', sku)
+
+  if (updateError) {
+    console.error('Error updating product image:', updateError)
+    throw updateError
+  }
+}
+
+const transformProductImage = (dbImage: ProductImageRow): ProductGalleryImage => ({
+  id: dbImage.id,
+  path: dbImage.path,
+  url: supabase.storage.from('products').getPublicUrl(dbImage.path).data.publicUrl,
+  altText: dbImage.alt_text,
+  sortOrder: dbImage.sort_order,
+})
+
+// Get a product's gallery images in display order
+export const getProductImages = async (productId: string): Promise<ProductGalleryImage[]> => {
+  const { data, error } = await supabase
+    .from('product_images')
+    .select('*')
+    .eq('product_id', productId)
+    .order('sort_order')
+    .order('created_at')
+
+  if (error) {
+    console.error('Error fetching product images:', error)
+    throw error
+  }
+
+  return data?.map(transformProductImage) || []
+}
+
+// Upload a gallery image as <product id>/<id>.<ext> in the products bucket and
+// add it after the product's other images (managers only)
+export const uploadProductGalleryImage = async (product: { id: string }, file: File, sortOrder: number) => {
+  const extension = PRODUCT_IMAGE_TYPES[file.type]
+  if (!extension) {
+    throw new Error(`Unsupported image type: ${file.type}`)
+  }
+
+  const path = `${product.id}/${crypto.randomUUID()}.${extension}`
+  const bucket = supabase.storage.from('products')
+
+  const { error: uploadError } = await bucket.upload(path, file, {
+    contentType: file.type,
+    cacheControl: '3600',
+  })
+
+  if (uploadError) {
+    console.error('Error uploading product gallery image:', uploadError)
+    throw uploadError
+  }
+
+  const { data, error } = await supabase
+    .from('product_images')
+    .insert({ product_id: product.id, path, sort_order: sortOrder })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error adding product gallery image:', error)
+
+    // Don't leave a file that no gallery image points to
+    const { error: removeError } = await bucket.remove([path])
+    if (removeError) {
+      console.error('Error removing product gallery image file:', removeError)
+    }
+
+    throw error
+  }
+
+  return transformProductImage(data)
+}
+
+// Remove a gallery image and its file (managers only)
+export const removeProductGalleryImage = async (image: ProductGalleryImage) => {
+  const { error } = await supabase
+    .from('product_images')
+    .delete()
+    .eq('id', image.id)
+
+  if (error) {
+    console.error('Error removing product gallery image:', error)
+    throw error
+  }
+
+  const { error: removeError } = await supabase.storage
+    .from('products')
+    .remove([image.path])
+
+  if (removeError) {
+    console.error('Error removing product gallery image file:', removeError)
+    throw removeError
+  }
 }
 
 // Subscribe to product changes
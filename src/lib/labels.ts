@@ -0,0 +1,57 @@
+import { formatVariantLabel, PrivilegedProduct } from './database'
+import { buildProductQrUrl, signProductQr } from './qrPayload'
+import { getStorePriceOverrides, Store } from './stores'
+
+// Shelf labels are printed on A4 label sheets from the admin Labels page. Each
+// label carries a signed product QR code (see PRODUCT_QR_SETUP.sql), so only
+// managers can print them.
+
+export interface LabelSize {
+  id: string
+  name: string
+  widthMm: number
+  heightMm: number
+  qrSizeMm: number
+  columns: number // Labels per row on an A4 sheet
+}
+
+export const LABEL_SIZES: LabelSize[] = [
+  { id: 'small', name: 'Small (38 × 21 mm, 65 per sheet)', widthMm: 38.1, heightMm: 21.2, qrSizeMm: 17, columns: 5 },
+  { id: 'medium', name: 'Medium (63.5 × 38 mm, 21 per sheet)', widthMm: 63.5, heightMm: 38.1, qrSizeMm: 30, columns: 3 },
+  { id: 'large', name: 'Large (99 × 68 mm, 8 per sheet)', widthMm: 99.1, heightMm: 67.7, qrSizeMm: 50, columns: 2 },
+]
+
+export const DEFAULT_LABEL_SIZE = LABEL_SIZES[1]
+
+// Contents of one printed shelf label
+export interface ProductLabel {
+  sku: string
+  name: string
+  variant: string | null
+  price: number
+  qrUrl: string
+}
+
+// Build signed labels for the tenant's products, with one of its stores' prices
+// or list prices only
+export const createProductLabels = async (
+  products: PrivilegedProduct[],
+  tenantSlug: string,
+  store: Store | null,
+  origin: string = window.location.origin
+): Promise<ProductLabel[]> => {
+  const storeCode = store?.code ?? null
+  const storePrices = store ? await getStorePriceOverrides(store.id) : new Map<string, number>()
+
+  return Promise.all(products.map(async (product) => {
+    const signature = await signProductQr(product.sku, storeCode)
+
+    return {
+      sku: product.sku,
+      name: product.name,
+      variant: formatVariantLabel(product.color, product.size),
+      price: storePrices.get(product.id) ?? product.price,
+      qrUrl: buildProductQrUrl(origin, { sku: product.sku, tenantSlug, storeCode, signature }),
+    }
+  }))
+}
@@ -0,0 +1,95 @@
+// Negotiation strategies decide whether an offer is accepted.
+// Offers are only evaluated by evaluate_offer() in the database
+// (NEGOTIATION_STRATEGY_SETUP.sql, checked by NEGOTIATION_STRATEGY_TEST.sql);
+// these types describe the strategy JSON stored on each product.
+
+export type NegotiationStrategyType = 'fixed_floor' | 'sliding_floor' | 'time_of_day' | 'probabilistic'
+
+// Accept anything at or above price * (1 - max_discount_percentage / 100)
+export interface FixedFloorConfig {
+  type: 'fixed_floor'
+}
+
+// Discount ceiling shrinks from max_discount_percentage down to
+// min_discount_percentage as stock falls below full_stock_quantity
+export interface SlidingFloorConfig {
+  type: 'sliding_floor'
+  min_discount_percentage: number
+  full_stock_quantity: number
+}
+
+export interface TimeOfDayWindow {
+  start_hour: number // Inclusive, 0-23
+  end_hour: number // Exclusive, 1-24
+  max_discount_percentage: number
+}
+
+// Discount ceiling depends on the local hour; outside every window the
+// product's max_discount_percentage applies
+export interface TimeOfDayConfig {
+  type: 'time_of_day'
+  timezone: string
+  windows: TimeOfDayWindow[]
+}
+
+// Offers at or above the certain price are always accepted, offers below the
+// floor are always rejected, and in between the chance of acceptance grows
+// linearly the closer the offer gets to the certain price
+export interface ProbabilisticConfig {
+  type: 'probabilistic'
+  certain_discount_percentage: number
+}
+
+export type NegotiationStrategyConfig =
+  | FixedFloorConfig
+  | SlidingFloorConfig
+  | TimeOfDayConfig
+  | ProbabilisticConfig
+
+export const DEFAULT_NEGOTIATION_STRATEGY: FixedFloorConfig = { type: 'fixed_floor' }
+
+// Normalize a strategy stored as JSON, falling back to a fixed floor when the
+// value is missing or malformed (the database function does the same)
+export const parseNegotiationStrategy = (value: unknown): NegotiationStrategyConfig => {
+  if (typeof value !== 'object' || value === null || !('type' in value)) {
+    return DEFAULT_NEGOTIATION_STRATEGY
+  }
+
+  const config = value as Record<string, unknown>
+  switch (config.type) {
+    case 'fixed_floor':
+      return DEFAULT_NEGOTIATION_STRATEGY
+    case 'sliding_floor':
+      if (typeof config.min_discount_percentage === 'number' && typeof config.full_stock_quantity === 'number') {
+        return {
+          type: 'sliding_floor',
+          min_discount_percentage: config.min_discount_percentage,
+          full_stock_quantity: config.full_stock_quantity,
+        }
+      }
+      break
+    case 'time_of_day':
+      if (typeof config.timezone === 'string' && Array.isArray(config.windows)) {
+        return {
+          type: 'time_of_day',
+          timezone: config.timezone,
+          windows: config.windows.filter((w): w is TimeOfDayWindow =>
+            typeof w?.start_hour === 'number' &&
+            typeof w?.end_hour === 'number' &&
+            typeof w?.max_discount_percentage === 'number'
+          ),
+        }
+      }
+      break
+    case 'probabilistic':
+      if (typeof config.certain_discount_percentage === 'number') {
+        return {
+          type: 'probabilistic',
+          certain_discount_percentage: config.certain_discount_percentage,
+        }
+      }
+      break
+  }
+
+  return DEFAULT_NEGOTIATION_STRATEGY
+}
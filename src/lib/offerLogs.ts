@@ -1,20 +1,52 @@
 import { supabase, Database } from './supabase'
+import { buildCouponQrPayload, getCouponStatus, getOfferLogLifecycle, isCouponExpired } from './coupons'
+import { formatVariantLabel } from './database'
 
-export type OfferLog = Database['public']['Tables']['offer_logs']['Row']
+// The discount ceiling recorded on each offer stays server-side
+export type OfferLog = Omit<Database['public']['Tables']['offer_logs']['Row'], 'product_max_discount_percentage'>
 export type OfferLogInsert = Database['public']['Tables']['offer_logs']['Insert']
 export type OfferLogUpdate = Database['public']['Tables']['offer_logs']['Update']
 
+// Every offer_logs column shoppers and staff are granted
+const OFFER_LOG_COLUMNS = 'id, session_id, product_sku, product_name, product_price, offered_amount, offer_status, offer_type, acceptance_code, counter_amount, attempts_remaining, is_redeemed, coupon_status, coupon_signature, coupon_token, product_style_code, variant_color, variant_size, store_id, tenant_id, created_at, updated_at, expires_at'
+
+// Attempts a shopper gets when a product does not say otherwise
+export const DEFAULT_ATTEMPT_BUDGET = 3
+
 // Session management utilities
-const SESSION_KEY = 'shuq-session-id'
+const LEGACY_SESSION_KEY = 'shuq-session-id'
 const ONBOARDING_SEEN_KEY = 'shuq-onboarding-seen'
 
-export const getSessionId = (): string => {
-  let sessionId = localStorage.getItem(SESSION_KEY)
-  if (!sessionId) {
-    sessionId = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-    localStorage.setItem(SESSION_KEY, sessionId)
+let anonymousSignIn: Promise<string> | null = null
+
+// Sign the shopper in anonymously. Offer logs of the localStorage session used
+// before shopper sessions were backed by auth can't be claimed, so drop its id.
+const startShopperSession = async (): Promise<string> => {
+  const { data, error } = await supabase.auth.signInAnonymously()
+
+  if (error || !data.user) {
+    console.error('Error starting shopper session:', error)
+    throw error
   }
-  return sessionId
+
+  localStorage.removeItem(LEGACY_SESSION_KEY)
+
+  return data.user.id
+}
+
+// The shopper's session id is their (anonymous) auth user id, which RLS
+// uses to limit offer logs to the shopper's own rows
+export const getSessionId = async (): Promise<string> => {
+  const { data: { session } } = await supabase.auth.getSession()
+  if (session) return session.user.id
+
+  if (!anonymousSignIn) {
+    anonymousSignIn = startShopperSession().finally(() => {
+      anonymousSignIn = null
+    })
+  }
+
+  return anonymousSignIn
 }
 
 // Check if user has seen onboarding before
@@ -27,51 +59,92 @@ export const markOnboardingSeen = (): void => {
   localStorage.setItem(ONBOARDING_SEEN_KEY, 'true')
 }
 
-// Generate unique acceptance code
-export const generateAcceptanceCode = (): string => {
-  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789'
-  let result = ''
-  for (let i = 0; i < 8; i++) {
-    result += chars.charAt(Math.floor(Math.random() * chars.length))
+// Error messages raised by the negotiation database functions
+export const OFFER_ERRORS = {
+  invalidAmount: 'invalid_offer_amount',
+  productNotFound: 'product_not_found',
+  noAttemptsRemaining: 'no_attempts_remaining',
+  counterOfferNotFound: 'counter_offer_not_found',
+  counterOfferUnavailable: 'counter_offer_unavailable',
+  consolationOfferUnavailable: 'consolation_offer_unavailable',
+  couponNotFound: 'coupon_not_found',
+  couponAlreadyRedeemed: 'coupon_already_redeemed',
+  couponCancelled: 'coupon_cancelled',
+  couponExpired: 'coupon_expired',
+  couponSignatureInvalid: 'coupon_signature_invalid',
+  notAuthorized: 'not_authorized',
+  sessionMismatch: 'session_mismatch',
+  outOfStock: 'out_of_stock',
+  storeNotFound: 'store_not_found',
+} as const
+
+export type OfferErrorCode = typeof OFFER_ERRORS[keyof typeof OFFER_ERRORS]
+
+// Check whether an error thrown by submitOffer matches a given offer error
+export const isOfferError = (error: unknown, code: OfferErrorCode): boolean => {
+  return typeof error === 'object' && error !== null && 'message' in error && error.message === code
+}
+
+// Submit an offer on a tenant's product for the current session, at the given store's prices.
+// The database decides whether it is accepted, decrements attempts and records the offer log atomically.
+export const submitOffer = async (
+  tenantId: string,
+  productSku: string,
+  offeredAmount: number,
+  storeCode?: string | null
+): Promise<OfferLog> => {
+  const sessionId = await getSessionId()
+
+  const { data, error } = await supabase.rpc('submit_offer', {
+    p_tenant_id: tenantId,
+    p_product_sku: productSku,
+    p_session_id: sessionId,
+    p_offered_amount: offeredAmount,
+    p_store_code: storeCode ?? null,
+  })
+
+  if (error) {
+    console.error('Error submitting offer:', error)
+    throw error
   }
-  return result
+
+  return data
 }
 
-// Create a new offer log
-export const createOfferLog = async (offerData: {
-  product_sku: string
-  product_name: string
-  product_price: number
-  product_max_discount_percentage: number
-  offered_amount: number
-  offer_status: 'pending' | 'accepted' | 'rejected'
-  attempts_remaining?: number
-}): Promise<OfferLog> => {
-  const sessionId = getSessionId()
-  
-  const insertData: OfferLogInsert = {
-    session_id: sessionId,
-    product_sku: offerData.product_sku,
-    product_name: offerData.product_name,
-    product_price: offerData.product_price,
-    product_max_discount_percentage: offerData.product_max_discount_percentage,
-    offered_amount: offerData.offered_amount,
-    offer_status: offerData.offer_status,
-    attempts_remaining: offerData.attempts_remaining ?? 3,
-    acceptance_code: offerData.offer_status === 'accepted' ? generateAcceptanceCode() : null,
-    expires_at: offerData.offer_status === 'accepted' 
-      ? new Date(Date.now() + 60 * 60 * 1000).toISOString() // 1 hour from now
-      : null
+// Accept the counter price the store replied with to a countered offer
+export const acceptCounterOffer = async (offerId: string): Promise<OfferLog> => {
+  const sessionId = await getSessionId()
+
+  const { data, error } = await supabase.rpc('accept_counter_offer', {
+    p_offer_id: offerId,
+    p_session_id: sessionId,
+  })
+
+  if (error) {
+    console.error('Error accepting counter offer:', error)
+    throw error
   }
 
-  const { data, error } = await supabase
-    .from('offer_logs')
-    .insert(insertData)
-    .select()
-    .single()
+  return data
+}
+
+// Accept the consolation discount offered after the last attempt is rejected
+export const acceptConsolationOffer = async (
+  tenantId: string,
+  productSku: string,
+  storeCode?: string | null
+): Promise<OfferLog> => {
+  const sessionId = await getSessionId()
+
+  const { data, error } = await supabase.rpc('accept_consolation_offer', {
+    p_tenant_id: tenantId,
+    p_product_sku: productSku,
+    p_session_id: sessionId,
+    p_store_code: storeCode ?? null,
+  })
 
   if (error) {
-    console.error('Error creating offer log:', error)
+    console.error('Error accepting consolation offer:', error)
     throw error
   }
 
@@ -87,7 +160,7 @@ export const updateOfferLog = async (
     .from('offer_logs')
     .update(updateData)
     .eq('id', id)
-    .select()
+    .select(OFFER_LOG_COLUMNS)
     .single()
 
   if (error) {
@@ -100,11 +173,11 @@ export const updateOfferLog = async (
 
 // Get all offer logs for current session
 export const getSessionOfferLogs = async (): Promise<OfferLog[]> => {
-  const sessionId = getSessionId()
+  const sessionId = await getSessionId()
 
   const { data, error } = await supabase
     .from('offer_logs')
-    .select('*')
+    .select(OFFER_LOG_COLUMNS)
     .eq('session_id', sessionId)
     .order('created_at', { ascending: false })
 
@@ -116,16 +189,26 @@ export const getSessionOfferLogs = async (): Promise<OfferLog[]> => {
   return data || []
 }
 
-// Get offer logs for a specific product SKU in current session
-export const getProductOfferLogs = async (productSku: string): Promise<OfferLog[]> => {
-  const sessionId = getSessionId()
-
-  const { data, error } = await supabase
+// Get offer logs for a specific product SKU in current session, plus those
+// of the other variants of its style when it has one. Tenants can share an
+// SKU, so pass the product's tenant to leave out the other tenants' offers.
+export const getProductOfferLogs = async (
+  productSku: string,
+  styleCode?: string | null,
+  tenantId?: string | null
+): Promise<OfferLog[]> => {
+  const sessionId = await getSessionId()
+
+  const sessionQuery = supabase
     .from('offer_logs')
-    .select('*')
+    .select(OFFER_LOG_COLUMNS)
     .eq('session_id', sessionId)
-    .eq('product_sku', productSku)
-    .order('created_at', { ascending: false })
+  const query = tenantId ? sessionQuery.eq('tenant_id', tenantId) : sessionQuery
+
+  const { data, error } = await (styleCode
+    ? query.or(`product_sku.eq."${productSku}",product_style_code.eq."${styleCode}"`)
+    : query.eq('product_sku', productSku)
+  ).order('created_at', { ascending: false })
 
   if (error) {
     console.error('Error fetching product offer logs:', error)
@@ -137,11 +220,11 @@ export const getProductOfferLogs = async (productSku: string): Promise<OfferLog[
 
 // Get accepted offers (coupons) for current session
 export const getAcceptedOffers = async (): Promise<OfferLog[]> => {
-  const sessionId = getSessionId()
+  const sessionId = await getSessionId()
 
   const { data, error } = await supabase
     .from('offer_logs')
-    .select('*')
+    .select(OFFER_LOG_COLUMNS)
     .eq('session_id', sessionId)
     .eq('offer_status', 'accepted')
     .order('created_at', { ascending: false })
@@ -154,36 +237,92 @@ export const getAcceptedOffers = async (): Promise<OfferLog[]> => {
   return data || []
 }
 
-// Mark an offer as redeemed
+// Mark an offer as redeemed (the database also sets coupon_status to 'redeemed')
 export const markOfferAsRedeemed = async (offerId: string): Promise<OfferLog> => {
   return updateOfferLog(offerId, { is_redeemed: true })
 }
 
+// Cancel an accepted offer's coupon before it is used
+export const cancelCoupon = async (offerId: string): Promise<OfferLog> => {
+  return updateOfferLog(offerId, { coupon_status: 'cancelled' })
+}
+
+// Normalize a typed or scanned acceptance code
+export const normalizeAcceptanceCode = (code: string): string => {
+  return code.trim().toUpperCase()
+}
+
+// Find the accepted offer behind an acceptance code (null if unknown)
+export const getOfferLogByAcceptanceCode = async (acceptanceCode: string): Promise<OfferLog | null> => {
+  const { data, error } = await supabase
+    .from('offer_logs')
+    .select(OFFER_LOG_COLUMNS)
+    .eq('acceptance_code', normalizeAcceptanceCode(acceptanceCode))
+    .eq('offer_status', 'accepted')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching offer log by acceptance code:', error)
+    throw error
+  }
+
+  return data
+}
+
+// Redeem a coupon at the till. The database rejects unknown, used,
+// cancelled and expired codes, and scanned codes whose signature or token
+// doesn't match the coupon.
+export const redeemCoupon = async (
+  acceptanceCode: string,
+  signature?: string | null,
+  token?: string | null
+): Promise<OfferLog> => {
+  const { data, error } = await supabase.rpc('redeem_coupon', {
+    p_acceptance_code: normalizeAcceptanceCode(acceptanceCode),
+    ...(signature ? { p_signature: signature } : {}),
+    ...(token ? { p_token: token } : {}),
+  })
+
+  if (error) {
+    console.error('Error redeeming coupon:', error)
+    throw error
+  }
+
+  return data
+}
+
 // Check if an offer is expired
 export const isOfferExpired = (offer: OfferLog): boolean => {
   if (!offer.expires_at) return false
-  return new Date(offer.expires_at) < new Date()
+  return isCouponExpired(getOfferLogLifecycle(offer))
 }
 
-// Get remaining attempts for a product in current session
-export const getRemainingAttempts = async (productSku: string): Promise<number> => {
-  const logs = await getProductOfferLogs(productSku)
+// Get remaining attempts for a product in current session. Variants of a
+// style share their attempts, like in submit_offer().
+export const getRemainingAttempts = async (
+  productSku: string,
+  attemptBudget: number = DEFAULT_ATTEMPT_BUDGET,
+  styleCode: string | null = null,
+  tenantId: string | null = null
+): Promise<number> => {
+  const logs = await getProductOfferLogs(productSku, styleCode, tenantId)
   
-  if (logs.length === 0) return 3 // Default attempts
+  if (logs.length === 0) return attemptBudget
   
-  // Find the most recent offer for this product
+  // Find the most recent offer for this product or style
   const mostRecentOffer = logs[0]
   
   // If the most recent offer was accepted, reset attempts for new offers
-  if (mostRecentOffer.offer_status === 'accepted') return 3
+  if (mostRecentOffer.offer_status === 'accepted') return attemptBudget
   
   return Math.max(0, mostRecentOffer.attempts_remaining)
 }
 
-// Subscribe to offer log changes for current session
+// Subscribe to offer log changes for current session. Realtime applies RLS,
+// so only the shopper's own rows are delivered.
 export const subscribeToSessionOfferLogs = (callback: (payload: any) => void) => {
-  const sessionId = getSessionId()
-  
   const subscription = supabase
     .channel('session_offer_logs')
     .on(
@@ -192,7 +331,6 @@ export const subscribeToSessionOfferLogs = (callback: (payload: any) => void) =>
         event: '*',
         schema: 'public',
         table: 'offer_logs',
-        filter: `session_id=eq.${sessionId}`,
       },
       callback
     )
@@ -228,14 +366,18 @@ export const unsubscribeFromOfferLogs = (subscription: any) => {
 export const transformOfferLogToCoupon = (offerLog: OfferLog) => ({
   id: offerLog.id,
   productName: offerLog.product_name,
+  variantLabel: formatVariantLabel(offerLog.variant_color, offerLog.variant_size) ?? undefined,
   offeredPrice: offerLog.offered_amount,
-  expiresAt: offerLog.expires_at ? new Date(offerLog.expires_at) : new Date(),
+  expiresAt: getOfferLogLifecycle(offerLog).expiresAt,
+  state: getOfferLogLifecycle(offerLog).state,
   type: 'accepted' as const,
   code: offerLog.acceptance_code || '',
+  qrPayload: offerLog.acceptance_code ? buildCouponQrPayload(offerLog.acceptance_code, offerLog.coupon_signature, offerLog.coupon_token) : undefined,
+  discountPercentage: Math.round((offerLog.product_price - offerLog.offered_amount) / offerLog.product_price * 100),
   productImage: undefined, // We'll need to get this from products table if needed
   productSku: offerLog.product_sku, // Include SKU for image fallback
   isRedeemed: offerLog.is_redeemed,
-  status: offerLog.is_redeemed ? 'usado' : 'pendiente' as 'pendiente' | 'usado' | 'cancelado',
+  status: getCouponStatus(getOfferLogLifecycle(offerLog)),
   createdAt: new Date(offerLog.created_at)
 })
 
@@ -243,7 +385,7 @@ export const transformOfferLogToCoupon = (offerLog: OfferLog) => ({
 export const getAllOfferLogs = async (): Promise<OfferLog[]> => {
   const { data, error } = await supabase
     .from('offer_logs')
-    .select('*')
+    .select(OFFER_LOG_COLUMNS)
     .order('created_at', { ascending: false })
 
   if (error) {
@@ -262,15 +404,23 @@ export interface OfferSummary {
   total_offers: number
   accepted_offers: number
   rejected_offers: number
+  countered_offers: number
   acceptance_rate: number
   average_offered_price: number
 }
 
-export const getOfferSummaryBySku = async (): Promise<OfferSummary[]> => {
-  const { data, error } = await supabase
+// Summarize offers per SKU, across all stores or for a single store
+export const getOfferSummaryBySku = async (storeId?: string | null): Promise<OfferSummary[]> => {
+  let query = supabase
     .from('offer_logs')
     .select('product_sku, product_name, product_price, offer_status, offered_amount')
 
+  if (storeId) {
+    query = query.eq('store_id', storeId)
+  }
+
+  const { data, error } = await query
+
   if (error) {
     console.error('Error fetching offer summary:', error)
     throw error
@@ -295,6 +445,7 @@ export const getOfferSummaryBySku = async (): Promise<OfferSummary[]> => {
           total_offers: 0,
           accepted_offers: 0,
           rejected_offers: 0,
+          countered_offers: 0,
           acceptance_rate: 0,
           average_offered_price: 0
         },
@@ -310,6 +461,8 @@ export const getOfferSummaryBySku = async (): Promise<OfferSummary[]> => {
       entry.summary.accepted_offers++
     } else if (log.offer_status === 'rejected') {
       entry.summary.rejected_offers++
+    } else if (log.offer_status === 'countered') {
+      entry.summary.countered_offers++
     }
   })
 
@@ -0,0 +1,166 @@
+import { supabase } from './supabase'
+
+// Product QR codes (see PRODUCT_QR_SETUP.sql) are storefront URLs:
+//   https://<storefront>/products/<sku>?v=1&tenant=<slug>&store=<code>&sig=<signature>
+// Older labels encode /products/<sku> URLs without a version, or a bare SKU;
+// both are still accepted, unsigned.
+
+export const PRODUCT_QR_VERSION = '1'
+
+export interface ProductQrPayload {
+  version: string | null // Null for codes printed before versioned payloads
+  sku: string
+  tenantSlug: string | null
+  storeCode: string | null
+  signature: string | null
+}
+
+// Reasons a scanned code can't be used
+export const PRODUCT_QR_ERRORS = {
+  empty: 'empty',
+  notProductCode: 'not_product_code',
+  unsupportedVersion: 'unsupported_version',
+  invalidSku: 'invalid_sku',
+  invalidSignature: 'invalid_signature',
+} as const
+
+export type ProductQrErrorCode = typeof PRODUCT_QR_ERRORS[keyof typeof PRODUCT_QR_ERRORS]
+
+export type ProductQrParseResult =
+  | { ok: true; payload: ProductQrPayload }
+  | { ok: false; error: ProductQrErrorCode }
+
+// SKUs printed in QR codes and accepted by the catalog
+export const SKU_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/
+const SLUG_PATTERN = /^[a-z0-9-]+$/
+const SIGNATURE_PATTERN = /^[0-9a-f]{32}$/
+const PRODUCT_PATH_PATTERN = /^\/products\/([^/]+)\/?$/
+
+const fail = (error: ProductQrErrorCode): ProductQrParseResult => ({ ok: false, error })
+
+const decodeSku = (value: string): string | null => {
+  try {
+    return decodeURIComponent(value)
+  } catch {
+    return null
+  }
+}
+
+// Read the optional query parameters of a product URL, lowercasing codes
+const readSlug = (params: URLSearchParams, key: string): string | null | undefined => {
+  const value = params.get(key)?.trim().toLowerCase()
+  if (!value) return null
+  return SLUG_PATTERN.test(value) ? value : undefined
+}
+
+// Read a scanned product QR code: a (relative) product URL or a bare SKU
+export const parseProductQrPayload = (text: string): ProductQrParseResult => {
+  const trimmed = text.trim()
+  if (!trimmed) return fail(PRODUCT_QR_ERRORS.empty)
+
+  const isUrl = /^https?:\/\//i.test(trimmed) || trimmed.startsWith('/products/')
+  if (!isUrl) {
+    return SKU_PATTERN.test(trimmed)
+      ? { ok: true, payload: { version: null, sku: trimmed, tenantSlug: null, storeCode: null, signature: null } }
+      : fail(PRODUCT_QR_ERRORS.notProductCode)
+  }
+
+  let url: URL
+  try {
+    url = new URL(trimmed, 'https://storefront.invalid')
+  } catch {
+    return fail(PRODUCT_QR_ERRORS.notProductCode)
+  }
+
+  const pathMatch = url.pathname.match(PRODUCT_PATH_PATTERN)
+  if (!pathMatch) return fail(PRODUCT_QR_ERRORS.notProductCode)
+
+  const sku = decodeSku(pathMatch[1])
+  if (!sku || !SKU_PATTERN.test(sku)) return fail(PRODUCT_QR_ERRORS.invalidSku)
+
+  const version = url.searchParams.get('v')
+  if (version !== null && version !== PRODUCT_QR_VERSION) return fail(PRODUCT_QR_ERRORS.unsupportedVersion)
+
+  const tenantSlug = readSlug(url.searchParams, 'tenant')
+  const storeCode = readSlug(url.searchParams, 'store')
+  if (tenantSlug === undefined || storeCode === undefined) return fail(PRODUCT_QR_ERRORS.notProductCode)
+
+  // Only versioned codes are signed, and a signature needs the tenant it was made for
+  const signature = url.searchParams.get('sig')?.toLowerCase() || null
+  if (signature && (version === null || !tenantSlug || !SIGNATURE_PATTERN.test(signature))) {
+    return fail(PRODUCT_QR_ERRORS.invalidSignature)
+  }
+
+  return { ok: true, payload: { version, sku, tenantSlug, storeCode, signature } }
+}
+
+const buildProductQuery = (params: Record<string, string | null>) => {
+  const query = new URLSearchParams()
+  Object.entries(params).forEach(([key, value]) => {
+    if (value) query.set(key, value)
+  })
+  return query.toString()
+}
+
+// Build the URL encoded in a product's QR code
+export const buildProductQrUrl = (
+  origin: string,
+  payload: Pick<ProductQrPayload, 'sku' | 'tenantSlug' | 'storeCode' | 'signature'>
+): string => {
+  const query = buildProductQuery({
+    v: PRODUCT_QR_VERSION,
+    tenant: payload.tenantSlug,
+    store: payload.storeCode,
+    sig: payload.signature,
+  })
+
+  return `${origin}/products/${encodeURIComponent(payload.sku)}?${query}`
+}
+
+// In-app path of the product page for a scanned code
+export const getProductQrPath = (payload: ProductQrPayload): string => {
+  const query = buildProductQuery({
+    qr: 'true',
+    v: payload.version,
+    tenant: payload.tenantSlug,
+    store: payload.storeCode,
+    sig: payload.signature,
+  })
+
+  return `/products/${encodeURIComponent(payload.sku)}?${query}`
+}
+
+// Check a signed code with the database. Labels are always signed, so an
+// unsigned code can only name a SKU, never a retailer or store.
+export const verifyProductQrSignature = async (payload: ProductQrPayload): Promise<boolean> => {
+  if (!payload.signature) return !payload.version && !payload.tenantSlug && !payload.storeCode
+
+  const { data, error } = await supabase.rpc('verify_product_qr', {
+    p_tenant_slug: payload.tenantSlug,
+    p_store_code: payload.storeCode,
+    p_product_sku: payload.sku,
+    p_signature: payload.signature,
+  })
+
+  if (error) {
+    console.error('Error verifying product QR code:', error)
+    throw error
+  }
+
+  return data
+}
+
+// Signature for a product's QR code, optionally for one of the tenant's stores (managers only)
+export const signProductQr = async (sku: string, storeCode?: string | null): Promise<string> => {
+  const { data, error } = await supabase.rpc('sign_product_qr', {
+    p_product_sku: sku,
+    p_store_code: storeCode ?? null,
+  })
+
+  if (error) {
+    console.error('Error signing product QR code:', error)
+    throw error
+  }
+
+  return data
+}
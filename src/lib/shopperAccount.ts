@@ -0,0 +1,92 @@
+import { supabase } from './supabase'
+
+// Optional shopper sign-in with an email code. The anonymous session's offer
+// logs follow the shopper to their account through a one-time claim token.
+
+const PENDING_CLAIM_KEY = 'shuq-pending-session-claim'
+
+export interface ShopperAccount {
+  userId: string
+  email: string
+}
+
+// Get the signed-in shopper account, or null for anonymous shoppers
+export const getShopperAccount = async (): Promise<ShopperAccount | null> => {
+  const { data: { session } } = await supabase.auth.getSession()
+  if (!session || session.user.is_anonymous) return null
+
+  return {
+    userId: session.user.id,
+    email: session.user.email || '',
+  }
+}
+
+// Email a sign-in code (and magic link) to the shopper. The current anonymous
+// session is remembered so its coupons can be claimed after signing in.
+export const sendShopperSignInCode = async (email: string): Promise<void> => {
+  const { data: { session } } = await supabase.auth.getSession()
+
+  if (session?.user.is_anonymous) {
+    const { data: claimToken, error: claimError } = await supabase.rpc('create_session_claim')
+
+    if (claimError) {
+      console.error('Error creating session claim:', claimError)
+      throw claimError
+    }
+
+    localStorage.setItem(PENDING_CLAIM_KEY, claimToken)
+  }
+
+  const { error } = await supabase.auth.signInWithOtp({
+    email,
+    options: { emailRedirectTo: window.location.href },
+  })
+
+  if (error) {
+    console.error('Error sending sign-in code:', error)
+    throw error
+  }
+}
+
+// Sign the shopper in with the emailed code. Bring over their coupons
+// afterwards with claimPendingSession().
+export const verifyShopperSignInCode = async (email: string, code: string): Promise<void> => {
+  const { error } = await supabase.auth.verifyOtp({ email, token: code, type: 'email' })
+
+  if (error) {
+    console.error('Error verifying sign-in code:', error)
+    throw error
+  }
+}
+
+// Move the offer logs of the session that started the sign-in to the account,
+// after signing in with the code or the magic link. Returns the number of
+// offer logs moved, or null when there is nothing to claim.
+export const claimPendingSession = async (): Promise<number | null> => {
+  const claimToken = localStorage.getItem(PENDING_CLAIM_KEY)
+  if (!claimToken || !(await getShopperAccount())) return null
+
+  const { data, error } = await supabase.rpc('claim_session', { p_token: claimToken })
+
+  if (error) {
+    // A rejected token is used up or expired; keep it to retry anything else
+    if (error.message === 'session_claim_invalid') {
+      localStorage.removeItem(PENDING_CLAIM_KEY)
+    }
+    console.error('Error claiming session:', error)
+    throw error
+  }
+
+  localStorage.removeItem(PENDING_CLAIM_KEY)
+  return data
+}
+
+// Sign the shopper out; the next offer starts a new anonymous session
+export const signOutShopper = async (): Promise<void> => {
+  const { error } = await supabase.auth.signOut()
+
+  if (error) {
+    console.error('Error signing out:', error)
+    throw error
+  }
+}
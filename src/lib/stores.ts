@@ -0,0 +1,129 @@
+import { supabase, Database } from './supabase'
+import { getSessionId } from './offerLogs'
+
+// Stores are the branches a product QR code can be scanned in. Signed product
+// QR codes carry the store code (/products/<sku>?store=<code>&sig=<signature>)
+// so offers use that store's prices. The database checks the signature and
+// remembers the shopper's store per tenant until they scan another store's code.
+
+export type StoreRow = Database['public']['Tables']['stores']['Row']
+
+// The parts of a scanned product QR code that let a shopper enter its store
+export interface StoreEntry {
+  sku: string
+  tenantSlug: string | null
+  storeCode: string
+  signature: string | null
+}
+
+// App format for stores
+export interface Store {
+  id: string
+  code: string
+  name: string
+  address: string | null
+  isActive: boolean
+  tenantId: string
+}
+
+const transformStore = (dbStore: StoreRow): Store => ({
+  id: dbStore.id,
+  code: dbStore.code,
+  name: dbStore.name,
+  address: dbStore.address,
+  isActive: dbStore.is_active,
+  tenantId: dbStore.tenant_id,
+})
+
+// Get all stores (staff also see inactive ones)
+export const getStores = async (): Promise<Store[]> => {
+  const { data, error } = await supabase
+    .from('stores')
+    .select('*')
+    .order('name')
+
+  if (error) {
+    console.error('Error fetching stores:', error)
+    throw error
+  }
+
+  return data?.map(transformStore) || []
+}
+
+// A store's own prices, by product ID (staff only)
+export const getStorePriceOverrides = async (storeId: string): Promise<Map<string, number>> => {
+  const { data, error } = await supabase
+    .from('store_products')
+    .select('product_id, price_override')
+    .eq('store_id', storeId)
+    .not('price_override', 'is', null)
+
+  if (error) {
+    console.error('Error fetching store prices:', error)
+    throw error
+  }
+
+  return new Map(data?.map((row) => [row.product_id, Number(row.price_override)]) || [])
+}
+
+// Get an active store of the tenant by its code, or null when there is none
+export const getStoreByCode = async (code: string, tenantId?: string | null): Promise<Store | null> => {
+  let query = supabase
+    .from('stores')
+    .select('*')
+    .eq('code', code.toLowerCase())
+    .eq('is_active', true)
+
+  if (tenantId) {
+    query = query.eq('tenant_id', tenantId)
+  }
+
+  const { data, error } = await query.maybeSingle()
+
+  if (error) {
+    console.error('Error fetching store:', error)
+    throw error
+  }
+
+  return data ? transformStore(data) : null
+}
+
+// Code of the tenant's store the shopper last entered, or null
+export const getCurrentStoreCode = async (tenantId?: string | null): Promise<string | null> => {
+  if (!tenantId) return null
+
+  // Shoppers without a session haven't entered any store yet
+  const { data: { session } } = await supabase.auth.getSession()
+  if (!session) return null
+
+  const { data, error } = await supabase.rpc('current_store_code', { p_tenant_id: tenantId })
+
+  if (error) {
+    console.error('Error fetching current store:', error)
+    throw error
+  }
+
+  return data
+}
+
+// Enter the store of a scanned QR code and return the shopper's store. Unsigned
+// or tampered codes and closed stores leave the shopper in their current store.
+export const resolveStoreCode = async (entry: StoreEntry | null, tenantId?: string | null): Promise<string | null> => {
+  if (!entry?.signature || !entry.tenantSlug) return getCurrentStoreCode(tenantId)
+
+  await getSessionId() // Stores are remembered for the shopper's session
+
+  const { data, error } = await supabase.rpc('enter_store', {
+    p_tenant_slug: entry.tenantSlug,
+    p_store_code: entry.storeCode,
+    p_product_sku: entry.sku,
+    p_signature: entry.signature,
+  })
+
+  if (error) {
+    console.error('Error entering store:', error)
+    throw error
+  }
+
+  return data ?? getCurrentStoreCode(tenantId)
+}
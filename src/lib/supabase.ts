@@ -1,4 +1,7 @@
 import { createClient } from '@supabase/supabase-js'
+import type { NegotiationStrategyConfig } from './negotiation'
+import type { CouponState } from './coupons'
+import type { StaffRole } from './auth'
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
 const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY
@@ -7,7 +10,7 @@ if (!supabaseUrl || !supabaseKey) {
   throw new Error('Missing Supabase configuration. Please check your environment variables.')
 }
 
-export const supabase = createClient(supabaseUrl, supabaseKey)
+export const supabase = createClient<Database>(supabaseUrl, supabaseKey)
 
 // Database types
 export interface Database {
@@ -21,7 +24,22 @@ export interface Database {
           description: string
           price: number
           image: string
-          max_discount_percentage: number
+          max_discount_percentage: number | null // Null uses the category's default
+          negotiation_strategy: NegotiationStrategyConfig
+          stock_quantity: number | null
+          max_attempts: number | null // Null uses the category's default
+          coupon_ttl_minutes: number | null
+          consolation_discount_percentage: number
+          archived_at: string | null
+          style_id: string | null
+          color: string | null
+          size: string | null
+          price_override: number | null
+          tenant_id: string
+          ean: string | null
+          category_id: string | null
+          composition: string | null
+          care_instructions: string | null // One instruction per line
           created_at: string
           updated_at: string
         }
@@ -31,8 +49,23 @@ export interface Database {
           name: string
           description: string
           price: number
-          image: string
-          max_discount_percentage: number
+          image?: string
+          max_discount_percentage?: number | null
+          negotiation_strategy?: NegotiationStrategyConfig
+          stock_quantity?: number | null
+          max_attempts?: number | null
+          coupon_ttl_minutes?: number | null
+          consolation_discount_percentage?: number
+          archived_at?: string | null
+          style_id?: string | null
+          color?: string | null
+          size?: string | null
+          price_override?: number | null
+          tenant_id?: string
+          ean?: string | null
+          category_id?: string | null
+          composition?: string | null
+          care_instructions?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -43,10 +76,369 @@ export interface Database {
           description?: string
           price?: number
           image?: string
-          max_discount_percentage?: number
+          max_discount_percentage?: number | null
+          negotiation_strategy?: NegotiationStrategyConfig
+          stock_quantity?: number | null
+          max_attempts?: number | null
+          coupon_ttl_minutes?: number | null
+          consolation_discount_percentage?: number
+          archived_at?: string | null
+          style_id?: string | null
+          color?: string | null
+          size?: string | null
+          price_override?: number | null
+          tenant_id?: string
+          ean?: string | null
+          category_id?: string | null
+          composition?: string | null
+          care_instructions?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      product_styles: {
+        Row: {
+          id: string
+          code: string
+          name: string
+          description: string | null
+          price: number
+          tenant_id: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          code: string
+          name: string
+          description?: string | null
+          price: number
+          tenant_id?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          code?: string
+          name?: string
+          description?: string | null
+          price?: number
+          tenant_id?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      // Retailers using the app; branding is public
+      tenants: {
+        Row: {
+          id: string
+          slug: string
+          name: string
+          domain: string | null // Custom storefront hostname
+          logo_url: string | null
+          theme: unknown
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          slug: string
+          name: string
+          domain?: string | null
+          logo_url?: string | null
+          theme?: unknown
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          slug?: string
+          name?: string
+          domain?: string | null
+          logo_url?: string | null
+          theme?: unknown
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      stores: {
+        Row: {
+          id: string
+          code: string // Used in product QR code URLs
+          name: string
+          address: string | null
+          is_active: boolean
+          tenant_id: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          code: string
+          name: string
+          address?: string | null
+          is_active?: boolean
+          tenant_id?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          code?: string
+          name?: string
+          address?: string | null
+          is_active?: boolean
+          tenant_id?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      // Gallery images after the product image, in display order
+      product_images: {
+        Row: {
+          id: string
+          product_id: string
+          path: string // Object name in the products bucket
+          alt_text: string | null
+          sort_order: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          product_id: string
+          path: string
+          alt_text?: string | null
+          sort_order?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          product_id?: string
+          path?: string
+          alt_text?: string | null
+          sort_order?: number
+          created_at?: string
+        }
+        Relationships: []
+      }
+      // Product categories; their defaults apply to products without their own value
+      categories: {
+        Row: {
+          id: string
+          tenant_id: string
+          slug: string // Used in storefront filters
+          name: string
+          default_max_discount_percentage: number | null
+          default_max_attempts: number | null
+          size_guide: unknown // See parseSizeGuide()
+          sort_order: number
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          tenant_id?: string
+          slug: string
+          name: string
+          default_max_discount_percentage?: number | null
+          default_max_attempts?: number | null
+          size_guide?: unknown
+          sort_order?: number
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          tenant_id?: string
+          slug?: string
+          name?: string
+          default_max_discount_percentage?: number | null
+          default_max_attempts?: number | null
+          size_guide?: unknown
+          sort_order?: number
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      collections: {
+        Row: {
+          id: string
+          tenant_id: string
+          slug: string
+          name: string
+          description: string | null
+          sort_order: number
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          tenant_id?: string
+          slug: string
+          name: string
+          description?: string | null
+          sort_order?: number
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          tenant_id?: string
+          slug?: string
+          name?: string
+          description?: string | null
+          sort_order?: number
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      collection_products: {
+        Row: {
+          collection_id: string
+          product_id: string
+          created_at: string
+        }
+        Insert: {
+          collection_id: string
+          product_id: string
+          created_at?: string
+        }
+        Update: {
+          collection_id?: string
+          product_id?: string
+          created_at?: string
+        }
+        Relationships: []
+      }
+      // Per-store pricing rules; NULL keeps the product's own value
+      store_products: {
+        Row: {
+          store_id: string
+          product_id: string
+          price_override: number | null
+          max_discount_percentage_override: number | null
+          stock_quantity: number | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          store_id: string
+          product_id: string
+          price_override?: number | null
+          max_discount_percentage_override?: number | null
+          stock_quantity?: number | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          store_id?: string
+          product_id?: string
+          price_override?: number | null
+          max_discount_percentage_override?: number | null
+          stock_quantity?: number | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      campaigns: {
+        Row: {
+          id: string
+          name: string
+          max_attempts: number
+          product_skus: string[] | null
+          starts_at: string
+          ends_at: string | null
+          is_active: boolean
+          tenant_id: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          max_attempts: number
+          product_skus?: string[] | null
+          starts_at?: string
+          ends_at?: string | null
+          is_active?: boolean
+          tenant_id?: string
           created_at?: string
           updated_at?: string
         }
+        Update: {
+          id?: string
+          name?: string
+          max_attempts?: number
+          product_skus?: string[] | null
+          starts_at?: string
+          ends_at?: string | null
+          is_active?: boolean
+          tenant_id?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      store_settings: {
+        Row: {
+          tenant_id: string
+          key: string
+          value: unknown
+          updated_at: string
+        }
+        Insert: {
+          tenant_id?: string
+          key: string
+          value: unknown
+          updated_at?: string
+        }
+        Update: {
+          tenant_id?: string
+          key?: string
+          value?: unknown
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      staff_members: {
+        Row: {
+          user_id: string
+          role: StaffRole
+          tenant_id: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          role: StaffRole
+          tenant_id?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          role?: StaffRole
+          tenant_id?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
       }
       offer_logs: {
         Row: {
@@ -57,10 +449,20 @@ export interface Database {
           product_price: number
           product_max_discount_percentage: number
           offered_amount: number
-          offer_status: 'pending' | 'accepted' | 'rejected'
+          offer_status: 'pending' | 'accepted' | 'rejected' | 'countered'
+          offer_type: 'negotiated' | 'consolation'
           acceptance_code: string | null
+          counter_amount: number | null
           attempts_remaining: number
           is_redeemed: boolean
+          coupon_status: CouponState | null
+          coupon_signature: string | null
+          coupon_token: string | null
+          product_style_code: string | null
+          variant_color: string | null
+          variant_size: string | null
+          store_id: string | null
+          tenant_id: string
           created_at: string
           updated_at: string
           expires_at: string | null
@@ -73,10 +475,20 @@ export interface Database {
           product_price: number
           product_max_discount_percentage: number
           offered_amount: number
-          offer_status: 'pending' | 'accepted' | 'rejected'
+          offer_status: 'pending' | 'accepted' | 'rejected' | 'countered'
+          offer_type: 'negotiated' | 'consolation'
           acceptance_code?: string | null
+          counter_amount?: number | null
           attempts_remaining?: number
           is_redeemed?: boolean
+          coupon_status?: CouponState | null
+          coupon_signature?: string | null
+          coupon_token?: string | null
+          product_style_code?: string | null
+          variant_color?: string | null
+          variant_size?: string | null
+          store_id?: string | null
+          tenant_id?: string
           created_at?: string
           updated_at?: string
           expires_at?: string | null
@@ -89,14 +501,207 @@ export interface Database {
           product_price?: number
           product_max_discount_percentage?: number
           offered_amount?: number
-          offer_status?: 'pending' | 'accepted' | 'rejected'
+          offer_status?: 'pending' | 'accepted' | 'rejected' | 'countered'
+          offer_type?: 'negotiated' | 'consolation'
           acceptance_code?: string | null
+          counter_amount?: number | null
           attempts_remaining?: number
           is_redeemed?: boolean
+          coupon_status?: CouponState | null
+          coupon_signature?: string | null
+          coupon_token?: string | null
+          product_style_code?: string | null
+          variant_color?: string | null
+          variant_size?: string | null
+          store_id?: string | null
+          tenant_id?: string
           created_at?: string
           updated_at?: string
           expires_at?: string | null
         }
+        Relationships: []
+      }
+    }
+    Views: {
+      // Shopper-facing projection of active categories without their defaults
+      public_categories: {
+        Row: {
+          id: string
+          tenant_id: string
+          slug: string
+          name: string
+          sort_order: number
+          is_active: boolean
+        }
+        Relationships: []
+      }
+      // Shopper-facing projection of products without pricing rules
+      public_products: {
+        Row: {
+          id: string
+          sku: string
+          name: string
+          description: string
+          price: number
+          image: string
+          created_at: string
+          updated_at: string
+          attempt_budget: number
+          coupon_ttl_minutes: number
+          consolation_discount_percentage: number
+          style_id: string | null
+          style_code: string | null
+          style_name: string | null
+          color: string | null
+          size: string | null
+          in_stock: boolean // False once every unit is sold or reserved
+          tenant_id: string
+          category: string | null // Name of the product's active category
+          category_id: string | null
+          category_slug: string | null
+          composition: string | null
+          care_instructions: string | null
+          size_guide: unknown // Size guide of the product's category
+        }
+        Relationships: []
+      }
+      // Products at each active store's prices
+      public_store_products: {
+        Row: Database['public']['Views']['public_products']['Row'] & {
+          store_id: string
+          store_code: string
+          store_name: string
+        }
+        Relationships: []
+      }
+      // Stock levels for staff; reserved units are held by pending coupons
+      product_stock: {
+        Row: {
+          sku: string
+          stock_quantity: number | null
+          reserved_quantity: number
+          available_quantity: number | null
+        }
+        Relationships: []
+      }
+    }
+    Functions: {
+      submit_offer: {
+        Args: {
+          p_tenant_id: string
+          p_product_sku: string
+          p_session_id: string
+          p_offered_amount: number
+          p_store_code?: string | null
+        }
+        Returns: Database['public']['Tables']['offer_logs']['Row']
+      }
+      accept_consolation_offer: {
+        Args: {
+          p_tenant_id: string
+          p_product_sku: string
+          p_session_id: string
+          p_store_code?: string | null
+        }
+        Returns: Database['public']['Tables']['offer_logs']['Row']
+      }
+      sign_product_qr: {
+        Args: {
+          p_product_sku: string
+          p_store_code?: string | null
+        }
+        Returns: string
+      }
+      verify_product_qr: {
+        Args: {
+          p_tenant_slug: string
+          p_store_code: string | null
+          p_product_sku: string
+          p_signature: string
+        }
+        Returns: boolean
+      }
+      enter_store: {
+        Args: {
+          p_tenant_slug: string
+          p_store_code: string
+          p_product_sku: string
+          p_signature: string
+        }
+        Returns: string | null
+      }
+      current_store_code: {
+        Args: {
+          p_tenant_id: string
+        }
+        Returns: string | null
+      }
+      search_product_listings: {
+        Args: {
+          p_tenant_id?: string | null
+          p_store_code?: string | null
+          p_query?: string | null
+          p_category_slug?: string | null
+          p_collection_slug?: string | null
+          p_min_price?: number | null
+          p_max_price?: number | null
+          p_sort?: string
+          p_limit?: number
+          p_offset?: number
+        }
+        Returns: {
+          sku: string
+          name: string
+          category: string | null
+          min_price: number
+          max_price: number
+          in_stock: boolean
+          total_count: number
+        }[]
+      }
+      find_product_sku_by_ean: {
+        Args: {
+          p_ean: string
+          p_tenant_id?: string | null
+        }
+        Returns: string | null
+      }
+      expire_coupons: {
+        Args: Record<string, never>
+        Returns: number
+      }
+      redeem_coupon: {
+        Args: {
+          p_acceptance_code: string
+          p_signature?: string
+          p_token?: string
+        }
+        Returns: Database['public']['Tables']['offer_logs']['Row']
+      }
+      get_coupon_token_key: {
+        Args: Record<string, never>
+        Returns: string
+      }
+      create_session_claim: {
+        Args: Record<string, never>
+        Returns: string
+      }
+      claim_session: {
+        Args: {
+          p_token: string
+        }
+        Returns: number
+      }
+      current_staff_role: {
+        Args: Record<string, never>
+        Returns: StaffRole | null
+      }
+      accept_counter_offer: {
+        Args: {
+          p_offer_id: string
+          p_session_id: string
+        }
+        Returns: Database['public']['Tables']['offer_logs']['Row']
       }
     }
   }
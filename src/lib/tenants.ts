@@ -0,0 +1,128 @@
+import { supabase, Database } from './supabase'
+
+// Tenants are the retailers using the app. The storefront's tenant comes from
+// the tenant's custom domain or subdomain (<slug>.<app domain>), otherwise
+// from ?tenant=<slug> in the URL, which is remembered so links inside the
+// app keep the brand. Without either, the default tenant is shown.
+
+export type TenantRow = Database['public']['Tables']['tenants']['Row']
+
+// Storefront palette of a tenant
+export interface TenantTheme {
+  primaryColor: string // Call-to-action buttons
+  accentColor: string // Prices, offer slider and highlights
+}
+
+// App format for tenants
+export interface Tenant {
+  id: string
+  slug: string
+  name: string
+  logoUrl: string | null
+  theme: TenantTheme
+}
+
+export const DEFAULT_TENANT_SLUG = 'shuq'
+export const DEFAULT_TENANT_NAME = 'ShuQ'
+
+export const DEFAULT_TENANT_THEME: TenantTheme = {
+  primaryColor: '#B5FFA3',
+  accentColor: '#8069FF',
+}
+
+const TENANT_SLUG_KEY = 'shuq-tenant-slug'
+const HEX_COLOR = /^#[0-9a-f]{6}$/i
+
+// Read a tenant's theme, keeping the default color for missing or invalid ones
+export const parseTenantTheme = (value: unknown): TenantTheme => {
+  if (typeof value !== 'object' || value === null) {
+    return DEFAULT_TENANT_THEME
+  }
+
+  const theme = value as Record<string, unknown>
+  const color = (key: keyof TenantTheme) => {
+    const candidate = theme[key]
+    return typeof candidate === 'string' && HEX_COLOR.test(candidate) ? candidate : DEFAULT_TENANT_THEME[key]
+  }
+
+  return {
+    primaryColor: color('primaryColor'),
+    accentColor: color('accentColor'),
+  }
+}
+
+const transformTenant = (dbTenant: TenantRow): Tenant => ({
+  id: dbTenant.id,
+  slug: dbTenant.slug,
+  name: dbTenant.name,
+  logoUrl: dbTenant.logo_url,
+  theme: parseTenantTheme(dbTenant.theme),
+})
+
+// Get an active tenant by slug or custom domain, or null when there is none
+const getTenantBy = async (column: 'slug' | 'domain', value: string): Promise<Tenant | null> => {
+  const { data, error } = await supabase
+    .from('tenants')
+    .select('*')
+    .eq(column, value.toLowerCase())
+    .eq('is_active', true)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching tenant:', error)
+    throw error
+  }
+
+  return data ? transformTenant(data) : null
+}
+
+// Get an active tenant by slug, or null when there is none
+export const getTenantBySlug = (slug: string): Promise<Tenant | null> => getTenantBy('slug', slug)
+
+// Get the tenant a staff member works for, or null when it can't be read
+export const getTenantById = async (id: string): Promise<Tenant | null> => {
+  const { data, error } = await supabase
+    .from('tenants')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching tenant:', error)
+    throw error
+  }
+
+  return data ? transformTenant(data) : null
+}
+
+// Tenant slug from a subdomain such as ceroestres.shuq.app; null for the
+// bare app domain, www, localhost and IP addresses
+export const getSubdomainSlug = (hostname: string): string | null => {
+  const labels = hostname.split('.')
+  if (labels.length < 3 || /^[\d.]+$/.test(hostname) || labels[0] === 'www') {
+    return null
+  }
+
+  return labels[0]
+}
+
+// Resolve the storefront's tenant from the hostname, the ?tenant= parameter,
+// the last tenant seen in this browser, or the default tenant
+export const resolveTenant = async (slugParam: string | null): Promise<Tenant | null> => {
+  const hostname = window.location.hostname
+
+  const hostTenant = await getTenantBy('domain', hostname)
+    ?? (getSubdomainSlug(hostname) ? await getTenantBy('slug', getSubdomainSlug(hostname)) : null)
+  if (hostTenant) return hostTenant
+
+  const slug = slugParam || localStorage.getItem(TENANT_SLUG_KEY)
+  const tenant = slug ? await getTenantBy('slug', slug) : null
+
+  if (tenant) {
+    localStorage.setItem(TENANT_SLUG_KEY, tenant.slug)
+    return tenant
+  }
+
+  localStorage.removeItem(TENANT_SLUG_KEY)
+  return getTenantBy('slug', DEFAULT_TENANT_SLUG)
+}
@@ -5,12 +5,22 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { BarChart3, Database, TrendingUp, TrendingDown, Users, ShoppingBag } from "lucide-react";
-import { getAllOfferLogs, getOfferSummaryBySku, markOfferAsRedeemed, OfferLog, OfferSummary } from '@/lib/offerLogs';
+import { BarChart3, Database, FolderTree, Package, TrendingUp, TrendingDown, Users, ShoppingBag } from "lucide-react";
+import { getAllOfferLogs, getOfferSummaryBySku, markOfferAsRedeemed, cancelCoupon, OfferLog, OfferSummary } from '@/lib/offerLogs';
+import { formatCouponTimeRemaining, getCouponStatus, getOfferLogLifecycle } from '@/lib/coupons';
+import { formatVariantLabel } from '@/lib/database';
+import { getStores, Store } from '@/lib/stores';
+import { StaffAccount } from '@/components/StaffAccount';
+import { ProductCatalog } from '@/components/ProductCatalog';
+import { CategoryManager } from '@/components/CategoryManager';
+
+const ALL_STORES = 'all';
 
 const Admin = () => {
   const [offerLogs, setOfferLogs] = useState<OfferLog[]>([]);
   const [offerSummary, setOfferSummary] = useState<OfferSummary[]>([]);
+  const [stores, setStores] = useState<Store[]>([]);
+  const [summaryStoreId, setSummaryStoreId] = useState(ALL_STORES);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [currentTime, setCurrentTime] = useState(new Date());
@@ -20,6 +30,12 @@ const Admin = () => {
     loadData();
   }, []);
 
+  useEffect(() => {
+    getStores()
+      .then(setStores)
+      .catch(err => console.error('Error loading stores:', err));
+  }, []);
+
   // Update current time every second for live countdown
   useEffect(() => {
     const interval = setInterval(() => {
@@ -38,18 +54,23 @@ const Admin = () => {
     return () => clearInterval(interval);
   }, []);
 
+  // Refresh the summary with the logs, for all stores or the selected one
+  useEffect(() => {
+    getOfferSummaryBySku(summaryStoreId === ALL_STORES ? null : summaryStoreId)
+      .then(setOfferSummary)
+      .catch(err => {
+        console.error('Error loading offer summary:', err);
+        setError('Error loading data. Please try again.');
+      });
+  }, [offerLogs, summaryStoreId]);
+
   const loadData = async () => {
     try {
       setIsLoading(true);
       setError(null);
       
-      const [logsData, summaryData] = await Promise.all([
-        getAllOfferLogs(),
-        getOfferSummaryBySku()
-      ]);
-      
+      const logsData = await getAllOfferLogs();
       setOfferLogs(logsData);
-      setOfferSummary(summaryData);
     } catch (err) {
       console.error('Error loading admin data:', err);
       setError('Error loading data. Please try again.');
@@ -66,12 +87,19 @@ const Admin = () => {
     return `$${amount.toLocaleString()}`;
   };
 
+  const getStoreName = (storeId: string | null) => {
+    if (!storeId) return '-';
+    return stores.find(store => store.id === storeId)?.name ?? '-';
+  };
+
   const getStatusBadge = (status: string) => {
     switch (status) {
       case 'accepted':
         return <Badge className="bg-green-100 text-green-800">Accepted</Badge>;
       case 'rejected':
         return <Badge className="bg-red-100 text-red-800">Rejected</Badge>;
+      case 'countered':
+        return <Badge className="bg-orange-100 text-orange-800">Countered</Badge>;
       case 'pending':
         return <Badge className="bg-yellow-100 text-yellow-800">Pending</Badge>;
       default:
@@ -79,38 +107,14 @@ const Admin = () => {
     }
   };
 
-  const getCouponStatus = (log: OfferLog) => {
+  const getLogCouponStatus = (log: OfferLog) => {
     if (log.offer_status !== 'accepted') return 'N/A';
-    
-    const now = currentTime;
-    const createdAt = new Date(log.created_at);
-    const thirtyMinutesAfterCreation = new Date(createdAt.getTime() + 30 * 60 * 1000);
-    
-    // If marked as redeemed, it's used
-    if (log.is_redeemed) return 'usado';
-    
-    // If 30 minutes have passed and not redeemed, it's cancelled
-    if (now > thirtyMinutesAfterCreation) return 'cancelado';
-    
-    // Otherwise it's still pending
-    return 'pendiente';
+    return getCouponStatus(getOfferLogLifecycle(log), currentTime);
   };
 
   const getTimeRemaining = (log: OfferLog) => {
-    if (log.offer_status !== 'accepted') return null;
-    if (log.is_redeemed) return null;
-    
-    const now = currentTime;
-    const createdAt = new Date(log.created_at);
-    const thirtyMinutesAfterCreation = new Date(createdAt.getTime() + 30 * 60 * 1000);
-    const timeRemaining = thirtyMinutesAfterCreation.getTime() - now.getTime();
-    
-    if (timeRemaining <= 0) return '0:00';
-    
-    const minutesRemaining = Math.floor(timeRemaining / (1000 * 60));
-    const secondsRemaining = Math.floor((timeRemaining % (1000 * 60)) / 1000);
-    
-    return `${minutesRemaining}:${secondsRemaining.toString().padStart(2, '0')}`;
+    if (getLogCouponStatus(log) !== 'pendiente') return null;
+    return formatCouponTimeRemaining(getOfferLogLifecycle(log), currentTime);
   };
 
   const getCouponStatusBadge = (status: string) => {
@@ -139,27 +143,21 @@ const Admin = () => {
     try {
       if (newStatus === 'usado') {
         await markOfferAsRedeemed(logId);
-        // Reload data to reflect changes
-        await loadData();
+      } else if (newStatus === 'cancelado') {
+        await cancelCoupon(logId);
       }
-      // Note: 'cancelado' status is handled automatically by time expiration
-      // We don't need to manually set it since it's calculated based on time
+      // Reload data to reflect changes
+      await loadData();
+      // Note: expiry is handled by the database via expires_at
     } catch (error) {
       console.error('Error updating coupon status:', error);
       setError('Error updating coupon status. Please try again.');
     }
   };
 
-  const canMarkAsUsed = (log: OfferLog): boolean => {
-    if (log.offer_status !== 'accepted') return false;
-    if (log.is_redeemed) return false; // Already used
-    
-    const now = currentTime;
-    const createdAt = new Date(log.created_at);
-    const thirtyMinutesAfterCreation = new Date(createdAt.getTime() + 30 * 60 * 1000);
-    
-    // Can only mark as used if still within 30 minutes and not already cancelled
-    return now <= thirtyMinutesAfterCreation;
+  // Only pending coupons can be marked as used or cancelled
+  const canChangeCouponStatus = (log: OfferLog): boolean => {
+    return getLogCouponStatus(log) === 'pendiente';
   };
 
   if (isLoading) {
@@ -192,9 +190,12 @@ const Admin = () => {
     <div className="min-h-screen bg-gray-50 p-4">
       <div className="max-w-7xl mx-auto">
         {/* Header */}
-        <div className="mb-8">
-          <h1 className="text-3xl font-bold text-gray-900 mb-2">ShuQ Admin Dashboard</h1>
-          <p className="text-gray-600">Monitor offer logs and performance metrics</p>
+        <div className="mb-8 flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">ShuQ Admin Dashboard</h1>
+            <p className="text-gray-600">Monitor offer logs and performance metrics, and manage products</p>
+          </div>
+          <StaffAccount />
         </div>
 
         {/* Stats Cards */}
@@ -250,7 +251,7 @@ const Admin = () => {
 
         {/* Main Content */}
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="summary" className="flex items-center gap-2">
               <BarChart3 className="w-4 h-4" />
               Summary by SKU
@@ -259,13 +260,36 @@ const Admin = () => {
               <Database className="w-4 h-4" />
               Raw Offer Logs
             </TabsTrigger>
+            <TabsTrigger value="products" className="flex items-center gap-2">
+              <Package className="w-4 h-4" />
+              Products
+            </TabsTrigger>
+            <TabsTrigger value="categories" className="flex items-center gap-2">
+              <FolderTree className="w-4 h-4" />
+              Categories
+            </TabsTrigger>
           </TabsList>
 
           {/* Summary Tab */}
           <TabsContent value="summary">
             <Card>
               <div className="p-6">
-                <h2 className="text-xl font-semibold mb-4">Offer Summary by Product SKU</h2>
+                <div className="flex justify-between items-center mb-4">
+                  <h2 className="text-xl font-semibold">Offer Summary by Product SKU</h2>
+                  {stores.length > 0 && (
+                    <Select value={summaryStoreId} onValueChange={setSummaryStoreId}>
+                      <SelectTrigger className="w-48">
+                        <SelectValue placeholder="Store" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ALL_STORES}>All stores</SelectItem>
+                        {stores.map((store) => (
+                          <SelectItem key={store.id} value={store.id}>{store.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
                 <div className="overflow-x-auto">
                   <Table>
                                          <TableHeader>
@@ -278,6 +302,7 @@ const Admin = () => {
                          <TableHead className="text-center">Total Offers</TableHead>
                          <TableHead className="text-center">Accepted</TableHead>
                          <TableHead className="text-center">Rejected</TableHead>
+                         <TableHead className="text-center">Countered</TableHead>
                          <TableHead className="text-center">Acceptance Rate</TableHead>
                        </TableRow>
                      </TableHeader>
@@ -310,6 +335,9 @@ const Admin = () => {
                              <TableCell className="text-center">
                                <span className="text-red-600 font-semibold">{summary.rejected_offers}</span>
                              </TableCell>
+                             <TableCell className="text-center">
+                               <span className="text-orange-600 font-semibold">{summary.countered_offers}</span>
+                             </TableCell>
                              <TableCell className="text-center">
                                <div className="flex items-center justify-center gap-2">
                                  <div className={`w-2 h-2 rounded-full ${
@@ -345,6 +373,7 @@ const Admin = () => {
                       <TableRow>
                         <TableHead>Date</TableHead>
                         <TableHead>Session ID</TableHead>
+                        <TableHead>Store</TableHead>
                         <TableHead>SKU</TableHead>
                         <TableHead>Product Name</TableHead>
                         <TableHead>Original Price</TableHead>
@@ -360,7 +389,7 @@ const Admin = () => {
                     <TableBody>
                       {offerLogs.map((log) => {
                         const discountPercentage = Math.round((log.product_price - log.offered_amount) / log.product_price * 100);
-                        const couponStatus = getCouponStatus(log);
+                        const couponStatus = getLogCouponStatus(log);
                         
                         return (
                           <TableRow key={log.id}>
@@ -370,17 +399,37 @@ const Admin = () => {
                             <TableCell className="font-mono text-xs text-gray-600 max-w-24 truncate">
                               {log.session_id}
                             </TableCell>
+                            <TableCell className="text-sm">{getStoreName(log.store_id)}</TableCell>
                             <TableCell className="font-mono text-sm">{log.product_sku}</TableCell>
-                            <TableCell className="max-w-48 truncate">{log.product_name}</TableCell>
+                            <TableCell className="max-w-48">
+                              <div className="truncate">{log.product_name}</div>
+                              {formatVariantLabel(log.variant_color, log.variant_size) && (
+                                <div className="text-xs text-gray-500 truncate">
+                                  {formatVariantLabel(log.variant_color, log.variant_size)}
+                                </div>
+                              )}
+                            </TableCell>
                             <TableCell>{formatCurrency(log.product_price)}</TableCell>
                             <TableCell className="font-semibold">{formatCurrency(log.offered_amount)}</TableCell>
                             <TableCell className="text-center font-semibold">
                               {discountPercentage}%
                             </TableCell>
-                            <TableCell>{getStatusBadge(log.offer_status)}</TableCell>
                             <TableCell>
                               <div className="space-y-1">
-                                {canMarkAsUsed(log) ? (
+                                {getStatusBadge(log.offer_status)}
+                                {log.offer_type === 'consolation' && (
+                                  <Badge className="bg-sky-100 text-sky-800">Consolation</Badge>
+                                )}
+                                {log.counter_amount && (
+                                  <div className="text-xs text-gray-500">
+                                    Counter: {formatCurrency(log.counter_amount)}
+                                  </div>
+                                )}
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              <div className="space-y-1">
+                                {canChangeCouponStatus(log) ? (
                                   <Select
                                     value={couponStatus}
                                     onValueChange={(value) => handleStatusChange(log.id, value)}
@@ -391,6 +440,7 @@ const Admin = () => {
                                     <SelectContent>
                                       <SelectItem value="pendiente">Pendiente</SelectItem>
                                       <SelectItem value="usado">Usado</SelectItem>
+                                      <SelectItem value="cancelado">Cancelado</SelectItem>
                                     </SelectContent>
                                   </Select>
                                 ) : (
@@ -421,6 +471,24 @@ const Admin = () => {
               </div>
             </Card>
           </TabsContent>
+
+          {/* Products Tab */}
+          <TabsContent value="products">
+            <Card>
+              <div className="p-6">
+                <ProductCatalog />
+              </div>
+            </Card>
+          </TabsContent>
+
+          {/* Categories Tab */}
+          <TabsContent value="categories">
+            <Card>
+              <div className="p-6">
+                <CategoryManager />
+              </div>
+            </Card>
+          </TabsContent>
         </Tabs>
       </div>
     </div>
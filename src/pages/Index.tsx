@@ -1,102 +1,106 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { X, ShoppingBag, Clock, CheckCircle, Menu, Camera, Receipt, Percent } from 'lucide-react';
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { X, ShoppingBag, Clock, CheckCircle, Menu, Camera, Receipt, Percent, Search } from 'lucide-react';
 import { ConfirmExitDialog } from '@/components/ConfirmExitDialog';
+import { ShopperAccountCard } from '@/components/ShopperAccountCard';
+import { VariantPicker } from '@/components/VariantPicker';
+import { ProductImage } from '@/components/ProductImage';
+import { ProductGallery } from '@/components/ProductGallery';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
-import { getProductBySku, getAllProducts, subscribeToProductChanges, unsubscribeFromProductChanges, getImageUrls } from '@/lib/database';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import {
+  getProductBySku,
+  getProductVariants,
+  searchProductListings,
+  subscribeToProductChanges,
+  unsubscribeFromProductChanges,
+  getProductImages,
+  getSupabaseImageUrl,
+  ProductGalleryImage,
+  ProductListing,
+  ProductSearchFilters,
+  ProductSort,
+  StorefrontProduct
+} from '@/lib/database';
+import { resolveStoreCode } from '@/lib/stores';
+import { getStorefrontCategories, getCollections, StorefrontCategory, Collection } from '@/lib/categories';
+import { resolveTenant, getTenantBySlug, DEFAULT_TENANT_NAME, DEFAULT_TENANT_THEME, Tenant } from '@/lib/tenants';
+import { TenantBrand } from '@/components/TenantBrand';
 import { 
-  createOfferLog, 
+  submitOffer, 
+  acceptCounterOffer,
+  acceptConsolationOffer,
+  isOfferError,
+  OFFER_ERRORS,
+  DEFAULT_ATTEMPT_BUDGET,
   getAcceptedOffers, 
   getRemainingAttempts, 
   subscribeToSessionOfferLogs, 
   subscribeToAllOfferLogs,
   unsubscribeFromOfferLogs,
   transformOfferLogToCoupon,
-  isOfferExpired,
   OfferLog
 } from '@/lib/offerLogs';
-import { BrowserMultiFormatReader } from '@zxing/library';
-
-// Enhanced image component with multiple format fallback
-const ProductImage = ({ src, alt, className, sku }: { src: string; alt: string; className: string; sku?: string }) => {
-  const [currentSrc, setCurrentSrc] = useState(src);
-  const [hasError, setHasError] = useState(false);
-  const [imageUrls, setImageUrls] = useState<string[]>([]);
-  const [currentIndex, setCurrentIndex] = useState(0);
-
-  useEffect(() => {
-    if (sku) {
-      const urls = getImageUrls(sku);
-      setImageUrls(urls);
-      setCurrentSrc(urls[0]);
-      setCurrentIndex(0);
-    } else {
-      setCurrentSrc(src);
-      setImageUrls([src]);
-      setCurrentIndex(0);
-    }
-    setHasError(false);
-  }, [src, sku]);
-
-  const handleError = () => {
-    if (currentIndex < imageUrls.length - 1) {
-      // Try next format
-      const nextIndex = currentIndex + 1;
-      setCurrentIndex(nextIndex);
-      setCurrentSrc(imageUrls[nextIndex]);
-    } else {
-      // All formats failed, show placeholder
-      setHasError(true);
-    }
-  };
+import {
+  CouponLifecycle,
+  CouponState,
+  formatCouponTimeRemaining,
+  getCouponStatus
+} from '@/lib/coupons';
+import { useCodeScanner } from '@/hooks/use-code-scanner';
+import { parseProductQrPayload, getProductQrPath, verifyProductQrSignature, ProductQrErrorCode, ProductQrPayload } from '@/lib/qrPayload';
+import { findProductSkuByEan, isValidEan13 } from '@/lib/barcodes';
+import { claimPendingSession } from '@/lib/shopperAccount';
+import { QRCodeSVG } from 'qrcode.react';
+
+// Messages shown on the camera screen when a scanned or typed code can't be used
+const QR_ERROR_MESSAGES: Record<ProductQrErrorCode | 'product_not_found' | 'verification_failed', string> = {
+  empty: 'No pudimos leer el código. Probá de nuevo.',
+  not_product_code: 'Este código no es de un producto de la tienda.',
+  unsupported_version: 'Este código QR es de una versión más nueva de la app. Actualizá la página y probá de nuevo.',
+  invalid_sku: 'Este código tiene un producto inválido.',
+  invalid_signature: 'Este código QR no es válido. Pedile ayuda a un vendedor.',
+  product_not_found: 'No encontramos este producto en la tienda.',
+  verification_failed: 'No pudimos verificar el código. Revisá tu conexión y probá de nuevo.',
+};
 
-  if (hasError) {
-    return (
-      <div className={`${className} flex items-center justify-center bg-gray-100`}>
-        <svg className="w-6 h-6 text-gray-400" fill="currentColor" viewBox="0 0 20 20">
-          <path fillRule="evenodd" d="M4 3a2 2 0 00-2 2v10a2 2 0 002 2h12a2 2 0 002-2V5a2 2 0 00-2-2H4zm12 12H4l4-8 3 6 2-4 3 6z" clipRule="evenodd"></path>
-        </svg>
-      </div>
-    );
-  }
+const ALL_CATEGORIES = 'all';
 
-  return (
-    <img
-      src={currentSrc}
-      alt={alt}
-      className={className}
-      onError={handleError}
-    />
-  );
+const PRODUCT_SORT_LABELS: Record<ProductSort, string> = {
+  name: 'Nombre',
+  price_asc: 'Menor precio',
+  price_desc: 'Mayor precio',
+  newest: 'Novedades',
 };
 
-interface Product {
-  id: string;
-  sku: string;
-  name: string;
-  description: string;
-  price: number;
-  image: string;
-  maxDiscountPercentage: number; // Max acceptable discount (hidden from user)
-}
-
 interface Coupon {
   id: string;
   productName: string;
+  variantLabel?: string; // Color and size of the variant the offer was made on
   offeredPrice: number;
   expiresAt: Date;
   type: 'accepted' | 'special-discount';
   code: string;
+  qrPayload?: string; // Text encoded in the coupon QR code shown at the till
   discountPercentage?: number; // For special discount coupons
   productImage?: string; // Store product image URL
   productSku?: string; // Product SKU for image fallback
   status: 'pendiente' | 'usado' | 'cancelado'; // New status field
+  state?: CouponState; // Persisted lifecycle state (database coupons only)
   createdAt: Date; // Track when coupon was created
 }
 
+// Lifecycle of a coupon; local-only coupons fall back to their status
+const getCouponLifecycle = (coupon: Coupon): CouponLifecycle => ({
+  state: coupon.state ?? (coupon.status === 'usado' ? 'redeemed' : 'active'),
+  expiresAt: coupon.expiresAt
+});
+
 
 
 const ShuQApp = () => {
@@ -104,53 +108,115 @@ const ShuQApp = () => {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
   const isQRSimulation = searchParams.get('qr') === 'true';
+  const storeParam = searchParams.get('store'); // Store code from the scanned QR code
+  const tenantParam = searchParams.get('tenant'); // Retailer slug when not on its own domain
+  const signatureParam = searchParams.get('sig'); // Signature that lets the shopper enter the store
   
-  const [currentScreen, setCurrentScreen] = useState<'loader' | 'offer' | 'result' | 'coupons' | 'camera' | 'products' | 'productsList'>('loader');
-  const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
-  const [allProducts, setAllProducts] = useState<Product[]>([]);
+  const [currentScreen, setCurrentScreen] = useState<'loader' | 'details' | 'offer' | 'result' | 'coupons' | 'camera' | 'products' | 'productsList'>('loader');
+  const [selectedProduct, setSelectedProduct] = useState<StorefrontProduct | null>(null);
+  const [productListings, setProductListings] = useState<ProductListing[]>([]);
+  const [listingsTotal, setListingsTotal] = useState<number>(0);
+  const [listingsPage, setListingsPage] = useState<number>(0);
+  const [listingFilters, setListingFilters] = useState<ProductSearchFilters>({ sort: 'name' });
+  const [appliedListingFilters, setAppliedListingFilters] = useState<ProductSearchFilters>({ sort: 'name' });
+  const [categories, setCategories] = useState<StorefrontCategory[]>([]);
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [isLoadingListings, setIsLoadingListings] = useState<boolean>(false);
+  const [listingsError, setListingsError] = useState<string | null>(null);
+  const [productVariants, setProductVariants] = useState<StorefrontProduct[]>([]);
+  const [productImages, setProductImages] = useState<ProductGalleryImage[]>([]);
+  const [storeCode, setStoreCode] = useState<string | null>(null);
+  const [tenant, setTenant] = useState<Tenant | null>(null);
+  const theme = tenant?.theme ?? DEFAULT_TENANT_THEME;
   const [isLoadingProduct, setIsLoadingProduct] = useState<boolean>(false);
   const [productError, setProductError] = useState<string | null>(null);
   const [offerPrice, setOfferPrice] = useState<number>(75000);
-  const [attemptsRemaining, setAttemptsRemaining] = useState<number>(3);
+  const [attemptsRemaining, setAttemptsRemaining] = useState<number>(DEFAULT_ATTEMPT_BUDGET);
   const [lastOfferResult, setLastOfferResult] = useState<'accepted' | 'rejected' | null>(null);
   const [coupons, setCoupons] = useState<Coupon[]>([]);
   const [showExitDialog, setShowExitDialog] = useState<boolean>(false);
   const [isMenuOpen, setIsMenuOpen] = useState<boolean>(false);
   const [hasInteractedWithSlider, setHasInteractedWithSlider] = useState<boolean>(false);
+  const [isSubmittingOffer, setIsSubmittingOffer] = useState<boolean>(false);
+  const [offerError, setOfferError] = useState<string | null>(null);
+  const [counterOffer, setCounterOffer] = useState<{ offerId: string; amount: number } | null>(null);
+  const [isAcceptingCounter, setIsAcceptingCounter] = useState<boolean>(false);
+  const [qrError, setQrError] = useState<string | null>(null);
+  const [manualCode, setManualCode] = useState<string>('');
+  const [isCheckingCode, setIsCheckingCode] = useState<boolean>(false);
+  
+  // Offer attempts for the current product (per product, overridable by campaigns)
+  const attemptBudget = selectedProduct?.attemptBudget ?? DEFAULT_ATTEMPT_BUDGET;
   
   // State for live countdown updates in coupons screen
   const [currentTime, setCurrentTime] = useState(new Date());
+  const [couponsReloadKey, setCouponsReloadKey] = useState(0);
+  const [claimError, setClaimError] = useState<string | null>(null);
   
   // QR Scanner state
-  const videoRef = useRef<HTMLVideoElement>(null);
-  const [isScanning, setIsScanning] = useState<boolean>(false);
-  const [scanError, setScanError] = useState<string | null>(null);
-  const codeReaderRef = useRef<BrowserMultiFormatReader | null>(null);
-  const streamRef = useRef<MediaStream | null>(null);
+  const {
+    videoRef,
+    isScanning,
+    scanError,
+    startScanner: startQRScanner,
+    stopScanner: stopQRScanner
+  } = useCodeScanner(scannedText => handleQRResult(scannedText));
 
   // Reset state when route changes and load product(s) from database
   useEffect(() => {
     // Reset state when route changes
     setCurrentScreen('loader');
     setSelectedProduct(null);
-    setAllProducts([]);
+    setProductListings([]);
+    setProductVariants([]);
+    setProductImages([]);
     setProductError(null);
     setOfferPrice(75000);
-    setAttemptsRemaining(3);
+    setAttemptsRemaining(DEFAULT_ATTEMPT_BUDGET);
     setLastOfferResult(null);
+    setCounterOffer(null);
     
     const loadData = async () => {
+      // Products and branding depend on the retailer, prices on the store the shopper is in
+      let currentTenant: Tenant | null = null;
+      let currentStoreCode: string | null = null;
+      try {
+        currentTenant = await resolveTenant(tenantParam);
+        const storeEntry = sku && storeParam
+          ? { sku, tenantSlug: tenantParam ?? currentTenant?.slug ?? null, storeCode: storeParam, signature: signatureParam }
+          : null;
+        currentStoreCode = await resolveStoreCode(storeEntry, currentTenant?.id);
+      } catch (error) {
+        console.error('Error loading tenant or store:', error);
+      }
+      setTenant(currentTenant);
+      setStoreCode(currentStoreCode);
+      const scope = { tenantId: currentTenant?.id, storeCode: currentStoreCode };
+
       if (sku) {
         // Load specific product by SKU
         setIsLoadingProduct(true);
         setProductError(null);
         
         try {
-          const product = await getProductBySku(sku);
+          const product = await getProductBySku(sku, scope);
           
           if (product) {
             setSelectedProduct(product);
             setOfferPrice(product.price); // Set initial offer to max price
+            setAttemptsRemaining(product.attemptBudget);
+
+            // Other colors and sizes of the same style for the variant picker
+            if (product.styleId) {
+              getProductVariants(product.styleId, scope)
+                .then(setProductVariants)
+                .catch(error => console.error('Error loading variants:', error));
+            }
+
+            // Extra images for the detail page gallery
+            getProductImages(product.id)
+              .then(setProductImages)
+              .catch(error => console.error('Error loading product images:', error));
           } else {
             setProductError('Producto no encontrado');
             navigate('/'); // Redirect to home if product not found
@@ -162,15 +228,24 @@ const ShuQApp = () => {
           setIsLoadingProduct(false);
         }
       } else {
-        // No SKU provided, load all products for home page
+        // No SKU provided, load the first page of the product list for home page
         setIsLoadingProduct(true);
         setProductError(null);
         
         try {
-          const products = await getAllProducts();
-          setAllProducts(products);
+          const page = await searchProductListings({}, 0, scope);
+          setProductListings(page.listings);
+          setListingsTotal(page.totalCount);
+
+          // Staff signed in on the storefront also get inactive collections
+          Promise.all([getStorefrontCategories(currentTenant?.id), getCollections(currentTenant?.id)])
+            .then(([categoriesData, collectionsData]) => {
+              setCategories(categoriesData);
+              setCollections(collectionsData.filter(collection => collection.isActive));
+            })
+            .catch(error => console.error('Error loading categories:', error));
           
-          if (products.length === 0) {
+          if (page.totalCount === 0) {
             setProductError('No se encontraron productos');
           }
         } catch (error) {
@@ -183,7 +258,7 @@ const ShuQApp = () => {
     };
 
     loadData();
-  }, [sku, navigate]);
+  }, [sku, storeParam, tenantParam, signatureParam, navigate]);
 
   // Auto-transition from loader
   useEffect(() => {
@@ -201,16 +276,50 @@ const ShuQApp = () => {
             setCurrentScreen('offer');
           } else {
             // First-time user - show onboarding
-            setCurrentScreen('offer'); // Changed to offer screen
+            setCurrentScreen('details'); // Product details before the offer
           }
-        } else if (!sku && allProducts.length > 0) {
+        } else if (!sku && productListings.length > 0) {
           // Home page - go to products list
           setCurrentScreen('products');
         }
       }, loaderTime);
       return () => clearTimeout(timer);
     }
-  }, [currentScreen, selectedProduct, allProducts, isLoadingProduct, sku]);
+  }, [currentScreen, selectedProduct, productListings, isLoadingProduct, sku]);
+
+  // Apply typed search terms and prices once the shopper stops typing
+  useEffect(() => {
+    const timer = setTimeout(() => setAppliedListingFilters(listingFilters), 300);
+    return () => clearTimeout(timer);
+  }, [listingFilters]);
+
+  // Reload the first page of the product list when it's shown or its filters change
+  useEffect(() => {
+    if (currentScreen !== 'productsList') return;
+
+    let isCurrent = true;
+    setIsLoadingListings(true);
+    setListingsError(null);
+
+    searchProductListings(appliedListingFilters, 0, { tenantId: tenant?.id, storeCode })
+      .then(page => {
+        if (!isCurrent) return;
+        setProductListings(page.listings);
+        setListingsTotal(page.totalCount);
+        setListingsPage(0);
+      })
+      .catch(error => {
+        console.error('Error searching products:', error);
+        if (isCurrent) setListingsError('Error al cargar los productos');
+      })
+      .finally(() => {
+        if (isCurrent) setIsLoadingListings(false);
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [currentScreen, appliedListingFilters, tenant, storeCode]);
 
   // Removed auto-advance from onboarding - users must click "Comenzar" to proceed
 
@@ -219,17 +328,14 @@ const ShuQApp = () => {
     if (selectedProduct) {
       const subscription = subscribeToProductChanges((payload) => {
         if (payload.eventType === 'UPDATE' && payload.new.sku === selectedProduct.sku) {
-          // Transform the database product format to app format
-          const updatedProduct = {
-            id: payload.new.id,
-            sku: payload.new.sku,
-            name: payload.new.name,
-            description: payload.new.description,
-            price: payload.new.price,
-            image: payload.new.image,
-            maxDiscountPercentage: payload.new.max_discount_percentage,
-          };
-          setSelectedProduct(updatedProduct);
+          // Reload through the public projection so pricing rules never reach the UI
+          getProductBySku(selectedProduct.sku, { tenantId: tenant?.id, storeCode })
+            .then(updatedProduct => {
+              if (updatedProduct) {
+                setSelectedProduct(updatedProduct);
+              }
+            })
+            .catch(error => console.error('Error reloading product:', error));
         }
       });
 
@@ -237,20 +343,20 @@ const ShuQApp = () => {
         unsubscribeFromProductChanges(subscription);
       };
     }
-  }, [selectedProduct]);
+  }, [selectedProduct, storeCode, tenant]);
 
   // Load attempts remaining from database and subscribe to offer log updates
   useEffect(() => {
     if (selectedProduct) {
       // Only load attempts from database if we're continuing an existing offer session
-      // If this is a fresh start (no lastOfferResult), reset to 3 attempts
+      // If this is a fresh start (no lastOfferResult), reset to the product's attempt budget
       if (lastOfferResult === null) {
-        setAttemptsRemaining(3);
+        setAttemptsRemaining(selectedProduct.attemptBudget);
       } else {
         // Load remaining attempts from database only if we're in the middle of an offer flow
         const loadAttempts = async () => {
           try {
-            const remaining = await getRemainingAttempts(selectedProduct.sku);
+            const remaining = await getRemainingAttempts(selectedProduct.sku, selectedProduct.attemptBudget, selectedProduct.styleCode, tenant?.id);
             setAttemptsRemaining(remaining);
           } catch (error) {
             console.error('Error loading attempts:', error);
@@ -262,7 +368,10 @@ const ShuQApp = () => {
 
       // Subscribe to offer log changes
       const subscription = subscribeToSessionOfferLogs((payload) => {
-        if (payload.new && payload.new.product_sku === selectedProduct.sku) {
+        // Attempts are shared by every variant of a style
+        const isSameProduct = payload.new?.product_sku === selectedProduct.sku
+          || (!!selectedProduct.styleCode && payload.new?.product_style_code === selectedProduct.styleCode);
+        if (isSameProduct) {
           // Update attempts remaining if this is a new offer for this product
           if (payload.eventType === 'INSERT') {
             setAttemptsRemaining(payload.new.attempts_remaining);
@@ -276,13 +385,21 @@ const ShuQApp = () => {
     }
   }, [selectedProduct]);
 
-  // Load accepted offers from database on component mount
+  // Load accepted offers from database on component mount and when the
+  // shopper signs in or out
   useEffect(() => {
     const loadAcceptedOffers = async () => {
       try {
+        // Coupons from before signing in belong to the account now; the
+        // shopper is signed in either way, only those coupons may be missing
+        try {
+          if ((await claimPendingSession()) !== null) setClaimError(null);
+        } catch (error) {
+          setClaimError('Ingresaste, pero no pudimos pasar tus cupones anteriores a tu cuenta.');
+        }
+
         const acceptedOffers = await getAcceptedOffers();
         const transformedCoupons = acceptedOffers
-          .filter(offer => !isOfferExpired(offer))
           .map(offer => ({
             ...transformOfferLogToCoupon(offer),
             productImage: offer.product_sku ? `/api/products/${offer.product_sku}/image` : undefined
@@ -319,12 +436,13 @@ const ShuQApp = () => {
     return () => {
       unsubscribeFromOfferLogs(subscription);
     };
-  }, []);
+  }, [couponsReloadKey]);
 
   // Reset slider interaction state when entering offer screen
   useEffect(() => {
     if (currentScreen === 'offer') {
       setHasInteractedWithSlider(false);
+      setOfferError(null);
     }
   }, [currentScreen]);
 
@@ -344,13 +462,9 @@ const ShuQApp = () => {
     localStorage.setItem('shuq-coupons', JSON.stringify(newCoupons));
   };
 
-  const generateCode = () => {
-    return Math.random().toString(36).substr(2, 8).toUpperCase();
-  };
-
   const getAttemptColor = () => {
-    if (attemptsRemaining === 3) return 'text-green-600';
-    if (attemptsRemaining === 2) return 'text-yellow-600';
+    if (attemptsRemaining === attemptBudget) return 'text-green-600';
+    if (attemptsRemaining > 1) return 'text-yellow-600';
     return 'text-orange-600';
   };
 
@@ -359,102 +473,109 @@ const ShuQApp = () => {
     return `Tenés ${attemptsRemaining} intentos`;
   };
 
+  // Convert an accepted offer log to a coupon and show the accepted screen
+  const showAcceptedOffer = (offerLog: OfferLog) => {
+    const newCoupon = {
+      ...transformOfferLogToCoupon(offerLog),
+      productImage: selectedProduct.image,
+      productSku: selectedProduct.sku,
+      status: 'pendiente' as const,
+      createdAt: new Date()
+    };
+    saveCoupons([...coupons, newCoupon]);
+    setOfferPrice(offerLog.offered_amount);
+    setCounterOffer(null);
+    setLastOfferResult('accepted');
+    setCurrentScreen('result');
+  };
+
   const handleSendOffer = async () => {
-    if (!selectedProduct) return;
+    if (!selectedProduct || isSubmittingOffer) return;
     
-    const minAcceptablePrice = selectedProduct.price * (1 - selectedProduct.maxDiscountPercentage / 100);
-    const isAccepted = offerPrice >= minAcceptablePrice;
-    const newAttempts = isAccepted ? attemptsRemaining : attemptsRemaining - 1;
+    setIsSubmittingOffer(true);
+    setOfferError(null);
     
     try {
-      // Create offer log in database
-      const offerLog = await createOfferLog({
-        product_sku: selectedProduct.sku,
-        product_name: selectedProduct.name,
-        product_price: selectedProduct.price,
-        product_max_discount_percentage: selectedProduct.maxDiscountPercentage,
-        offered_amount: offerPrice,
-        offer_status: isAccepted ? 'accepted' : 'rejected',
-        attempts_remaining: newAttempts
-      });
+      // The server decides whether the offer is accepted and records it
+      const offerLog = await submitOffer(tenant?.id, selectedProduct.sku, offerPrice, storeCode);
 
-      if (isAccepted) {
-        // Convert offer log to coupon format and add to local state
-        const newCoupon = {
-          ...transformOfferLogToCoupon(offerLog),
-          productImage: selectedProduct.image,
-          productSku: selectedProduct.sku,
-          status: 'pendiente' as const,
-          createdAt: new Date()
-        };
-        saveCoupons([...coupons, newCoupon]);
-        setLastOfferResult('accepted');
-        setCurrentScreen('result');
+      if (offerLog.offer_status === 'accepted') {
+        showAcceptedOffer(offerLog);
       } else {
-        setAttemptsRemaining(newAttempts);
+        setAttemptsRemaining(offerLog.attempts_remaining);
+        setCounterOffer(
+          offerLog.offer_status === 'countered' && offerLog.counter_amount
+            ? { offerId: offerLog.id, amount: offerLog.counter_amount }
+            : null
+        );
         setLastOfferResult('rejected');
         setCurrentScreen('result');
       }
     } catch (error) {
       console.error('Error saving offer:', error);
-      // Fall back to old behavior if database fails
-      if (isAccepted) {
-        const newCoupon: Coupon = {
-          id: Date.now().toString(),
-          productName: selectedProduct.name,
-          offeredPrice: offerPrice,
-          expiresAt: new Date(Date.now() + 60 * 60 * 1000), // 1 hour
-          type: 'accepted',
-          code: generateCode(),
-          productImage: selectedProduct.image,
-          productSku: selectedProduct.sku,
-          status: 'pendiente',
-          createdAt: new Date()
-        };
-        saveCoupons([...coupons, newCoupon]);
-        setLastOfferResult('accepted');
-        setCurrentScreen('result');
-      } else {
-        setAttemptsRemaining(newAttempts);
+      if (isOfferError(error, OFFER_ERRORS.noAttemptsRemaining)) {
+        // Attempts were used up in another tab or device
+        setAttemptsRemaining(0);
         setLastOfferResult('rejected');
         setCurrentScreen('result');
+      } else if (isOfferError(error, OFFER_ERRORS.outOfStock)) {
+        // The last unit was sold or reserved while the shopper was deciding
+        setSelectedProduct({ ...selectedProduct, inStock: false });
+      } else {
+        setOfferError('No pudimos enviar tu oferta. Probá de nuevo.');
       }
+    } finally {
+      setIsSubmittingOffer(false);
     }
   };
 
-  const handleAcceptSpecialDiscount = () => {
-    if (!selectedProduct) return; // Safety check
-    
-    // Calculate 15% discount price (85% of original price)
-    const discountedPrice = Math.round(selectedProduct.price * 0.85);
-    
-    // Set the offer price to the discounted amount
-    setOfferPrice(discountedPrice);
+  const handleAcceptCounterOffer = async () => {
+    if (!selectedProduct || !counterOffer || isAcceptingCounter) return;
+
+    setIsAcceptingCounter(true);
+
+    try {
+      const offerLog = await acceptCounterOffer(counterOffer.offerId);
+      showAcceptedOffer(offerLog);
+    } catch (error) {
+      console.error('Error accepting counter offer:', error);
+      if (isOfferError(error, OFFER_ERRORS.outOfStock)) {
+        setSelectedProduct({ ...selectedProduct, inStock: false });
+      }
+      // The counter was superseded or is gone; let the shopper make a new offer
+      setCounterOffer(null);
+    } finally {
+      setIsAcceptingCounter(false);
+    }
+  };
+
+  const handleAcceptSpecialDiscount = async () => {
+    if (!selectedProduct || isSubmittingOffer) return; // Safety check
     
-    // Create the special discount coupon using normal coupon format
-    const specialDiscountCoupon: Coupon = {
-      id: Date.now().toString(),
-      productName: selectedProduct.name,
-      offeredPrice: discountedPrice,
-      expiresAt: new Date(Date.now() + 30 * 60 * 1000), // 30 minutes
-      type: 'accepted', // Use 'accepted' type to follow normal flow
-      code: generateCode(),
-      productImage: selectedProduct.image,
-      productSku: selectedProduct.sku,
-      status: 'pendiente',
-      createdAt: new Date()
-    };
-    saveCoupons([...coupons, specialDiscountCoupon]);
+    setIsSubmittingOffer(true);
+    setOfferError(null);
     
-    // Follow normal accepted offer flow
-    setLastOfferResult('accepted');
-    setCurrentScreen('result');
+    try {
+      // The store records the consolation discount as an accepted offer
+      const offerLog = await acceptConsolationOffer(tenant?.id, selectedProduct.sku, storeCode);
+      showAcceptedOffer(offerLog);
+    } catch (error) {
+      console.error('Error accepting special discount:', error);
+      setOfferError(
+        isOfferError(error, OFFER_ERRORS.outOfStock)
+          ? 'Este producto se quedó sin stock.'
+          : 'No pudimos generar tu cupón. Probá de nuevo.'
+      );
+    } finally {
+      setIsSubmittingOffer(false);
+    }
   };
 
   const resetFlow = () => {
     setOfferPrice(75000);
-    setAttemptsRemaining(3);
+    setAttemptsRemaining(attemptBudget);
     setLastOfferResult(null);
+    setCounterOffer(null);
     setCurrentScreen('offer'); // Changed to offer screen
   };
 
@@ -464,8 +585,9 @@ const ShuQApp = () => {
     setCurrentScreen('products');
     setProductError(null);
     setOfferPrice(75000);
-    setAttemptsRemaining(3);
+    setAttemptsRemaining(DEFAULT_ATTEMPT_BUDGET);
     setLastOfferResult(null);
+    setCounterOffer(null);
     
     // Navigate to root route
     navigate('/');
@@ -480,103 +602,99 @@ const ShuQApp = () => {
     navigate('/');
   };
 
-  // QR Scanner functions
-  const startQRScanner = async () => {
+  const updateListingFilters = (changes: ProductSearchFilters) => {
+    setListingFilters(filters => ({ ...filters, ...changes }));
+  };
+
+  // Open the product list with only these filters, e.g. a category picked on the home screen
+  const browseProducts = (filters: ProductSearchFilters) => {
+    const browsedFilters: ProductSearchFilters = { sort: 'name', ...filters };
+    setListingFilters(browsedFilters);
+    setAppliedListingFilters(browsedFilters);
+    setCurrentScreen('productsList');
+  };
+
+  // Append the next page of the product list
+  const loadMoreListings = async () => {
     try {
-      setIsScanning(true);
-      setScanError(null);
-      
-      if (!codeReaderRef.current) {
-        codeReaderRef.current = new BrowserMultiFormatReader();
+      setIsLoadingListings(true);
+      setListingsError(null);
+
+      const page = await searchProductListings(appliedListingFilters, listingsPage + 1, { tenantId: tenant?.id, storeCode });
+      setProductListings(listings => [...listings, ...page.listings]);
+      setListingsTotal(page.totalCount);
+      setListingsPage(listingsPage + 1);
+    } catch (error) {
+      console.error('Error loading more products:', error);
+      setListingsError('Error al cargar los productos');
+    } finally {
+      setIsLoadingListings(false);
+    }
+  };
+
+  // QR Scanner functions: open the product of a scanned or typed product QR
+  // code, EAN-13 barcode or SKU
+  const handleQRResult = async (scannedText: string) => {
+    const result = parseProductQrPayload(scannedText);
+    const code = scannedText.trim();
+    let payload: ProductQrPayload | null = result.ok === true ? result.payload : null;
+
+    try {
+      setIsCheckingCode(true);
+      setQrError(null);
+
+      // Barcodes resolve to a SKU of this storefront's catalog; unknown ones may still be 13-digit SKUs
+      const eanSku = isValidEan13(code) ? await findProductSkuByEan(code, tenant?.id) : null;
+      if (eanSku) {
+        payload = { version: null, sku: eanSku, tenantSlug: tenant?.slug ?? null, storeCode, signature: null };
+      } else if (result.ok === false) {
+        setQrError(QR_ERROR_MESSAGES[result.error]);
+        return;
       }
 
-      // Set back camera preference directly without device enumeration
-      if (videoRef.current) {
-        try {
-          const stream = await navigator.mediaDevices.getUserMedia({
-            video: { facingMode: 'environment' }
-          });
-          streamRef.current = stream;
-          videoRef.current.srcObject = stream;
-        } catch (cameraError) {
-          console.error('Error accessing camera:', cameraError);
-          throw new Error('No se pudo acceder a la cámara. Verifica los permisos.');
-        }
+      // Only open product pages that exist, from codes that weren't tampered with
+      if (!eanSku && !(await verifyProductQrSignature(payload))) {
+        setQrError(QR_ERROR_MESSAGES.invalid_signature);
+        return;
       }
 
-      await codeReaderRef.current.decodeFromVideoDevice(
-        undefined, // Let it use the stream we already set
-        videoRef.current!,
-        (result, error) => {
-          if (result) {
-            // QR code successfully scanned
-            const scannedText = result.getText();
-            console.log('QR Code scanned:', scannedText);
-            
-            // Stop scanning
-            stopQRScanner();
-            
-            // Try to extract SKU from the scanned QR code
-            handleQRResult(scannedText);
-          }
-          
-          if (error && error.name !== 'NotFoundException') {
-            console.error('QR Scanner error:', error);
-          }
-        }
-      );
+      // Signed codes open the catalog of the retailer they were printed for
+      const codeTenant = payload.tenantSlug && payload.tenantSlug !== tenant?.slug
+        ? await getTenantBySlug(payload.tenantSlug)
+        : tenant;
+      if ((payload.tenantSlug && !codeTenant) || !(await getProductBySku(payload.sku, { tenantId: codeTenant?.id }))) {
+        setQrError(QR_ERROR_MESSAGES.product_not_found);
+        return;
+      }
     } catch (error) {
-      console.error('Error starting QR scanner:', error);
-      setScanError(error instanceof Error ? error.message : 'Error al iniciar la cámara');
-      setIsScanning(false);
+      console.error('Error checking scanned code:', error);
+      setQrError(QR_ERROR_MESSAGES.verification_failed);
+      return;
+    } finally {
+      setIsCheckingCode(false);
     }
-  };
 
-  const stopQRScanner = () => {
-    if (codeReaderRef.current) {
-      codeReaderRef.current.reset();
-    }
-    
-    // Stop camera stream to free up camera
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
-      streamRef.current = null;
-    }
-    
-    if (videoRef.current) {
-      videoRef.current.srcObject = null;
-    }
-    
-    setIsScanning(false);
+    // Navigate to the product page, keeping the retailer and store the code was printed for
+    setManualCode('');
+    navigate(getProductQrPath(payload));
   };
 
-  const handleQRResult = (scannedText: string) => {
-    // Try to extract SKU from the scanned QR code
-    // Assuming QR codes contain either just the SKU or a URL with the SKU
-    let extractedSku = scannedText;
-    
-    // If it's a URL, try to extract SKU from it
-    if (scannedText.includes('/products/')) {
-      const match = scannedText.match(/\/products\/([^/?]+)/);
-      if (match) {
-        extractedSku = match[1];
-      }
-    }
-    
-    // Navigate to the product page
-    navigate(`/products/${extractedSku}?qr=true`);
+  // Fallback for unreadable codes and denied camera permission
+  const handleManualCodeSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    stopQRScanner();
+    handleQRResult(manualCode);
   };
 
-  // Cleanup QR scanner when component unmounts or screen changes
-  useEffect(() => {
-    return () => {
-      stopQRScanner();
-    };
-  }, []);
+  const retryQRScan = () => {
+    setQrError(null);
+    startQRScanner();
+  };
 
   // Start QR scanner when camera screen is shown
   useEffect(() => {
     if (currentScreen === 'camera') {
+      setQrError(null);
       startQRScanner();
     } else {
       stopQRScanner();
@@ -646,13 +764,24 @@ const ShuQApp = () => {
             }}
             className="flex items-center gap-3 justify-start p-4 h-auto text-white"
             style={{
-              backgroundColor: '#B5FFA3',
+              backgroundColor: theme.primaryColor,
               color: '#000'
             }}
           >
             <Camera size={20} />
             <span className="text-lg">Escanear producto</span>
           </Button>
+          <Button
+            onClick={() => {
+              setCurrentScreen('productsList');
+              setIsMenuOpen(false);
+            }}
+            variant="ghost"
+            className="flex items-center gap-3 justify-start p-4 h-auto"
+          >
+            <Search size={20} />
+            <span className="text-lg">Ver productos</span>
+          </Button>
           <Button
             onClick={() => {
               setCurrentScreen('coupons');
@@ -669,12 +798,59 @@ const ShuQApp = () => {
     </Sheet>
   );
 
+  // One monkey per remaining attempt (ending in 🙈) and a faded circle per used one
+  const AttemptIndicators = ({ size }: { size: 'text-2xl' | 'text-3xl' }) => (
+    <>
+      {Array.from({ length: attemptBudget }, (_, index) => {
+        const attemptsFromEnd = attemptBudget - 1 - index;
+        if (attemptsFromEnd >= attemptsRemaining) {
+          return <span key={index} className={`${size} opacity-30`}>⚪</span>;
+        }
+        return <span key={index} className={size}>{['🙈', '🙉', '🙊'][attemptsFromEnd % 3]}</span>;
+      })}
+    </>
+  );
+
+  const getAttemptsLeftText = () => {
+    if (attemptsRemaining === 1) return 'Te queda un intento';
+    if (attemptsRemaining === 2) return 'Te quedan dos intentos';
+    return `Te quedan ${attemptsRemaining} intentos`;
+  };
+
+  // Store's counter price, shown on the rejection screens while attempts remain
+  const CounterOfferCard = () => counterOffer && (
+    <div className="bg-white p-4 rounded-2xl mb-6 text-center" style={{
+      boxShadow: '0 10px 25px rgba(0, 0, 0, 0.1)',
+      border: '2px solid #f0f0f0'
+    }}>
+      <p className="text-sm font-semibold text-gray-900 mb-1">La tienda te propone</p>
+      <p className="text-3xl font-bold text-gray-900 mb-1">${counterOffer.amount.toLocaleString()}</p>
+      {selectedProduct && (
+        <p className="text-gray-600 text-sm mb-3">
+          {Math.round((selectedProduct.price - counterOffer.amount) / selectedProduct.price * 100)}% OFF del precio de lista
+        </p>
+      )}
+      <Button
+        onClick={handleAcceptCounterOffer}
+        disabled={isAcceptingCounter}
+        className="w-full rounded-2xl font-bold"
+        style={{
+          backgroundColor: theme.primaryColor,
+          color: '#000',
+          height: '40px'
+        }}
+      >
+        {isAcceptingCounter ? 'Aceptando...' : `Aceptar $${counterOffer.amount.toLocaleString()}`}
+      </Button>
+    </div>
+  );
+
   // Loading Screen
   if (isLoadingProduct) {
     return (
       <div className="min-h-screen bg-white p-4 font-lexend flex flex-col justify-center items-center">
         <div className="text-center w-full max-w-md mx-auto">
-          <h1 className="text-5xl font-bold mb-6">ShuQ</h1>
+          <TenantBrand tenant={tenant} className="text-5xl font-bold mb-6" logoClassName="h-16 mb-6" />
           <p className="text-xl text-gray-600">
             {sku ? 'Cargando producto...' : 'Cargando productos...'}
           </p>
@@ -688,7 +864,7 @@ const ShuQApp = () => {
     return (
       <div className="min-h-screen bg-white p-4 font-lexend flex flex-col justify-center items-center">
         <div className="text-center w-full max-w-md mx-auto">
-          <h1 className="text-5xl font-bold mb-6">ShuQ</h1>
+          <TenantBrand tenant={tenant} className="text-5xl font-bold mb-6" logoClassName="h-16 mb-6" />
           <p className="text-xl text-red-600 mb-4">{productError}</p>
           <Button 
             onClick={() => navigate('/')}
@@ -706,7 +882,7 @@ const ShuQApp = () => {
     return (
       <div className="min-h-screen bg-white p-4 font-lexend flex flex-col justify-center items-center">
         <div className="text-center w-full max-w-md mx-auto">
-          <h1 className="text-5xl font-bold mb-6">ShuQ</h1>
+          <TenantBrand tenant={tenant} className="text-5xl font-bold mb-6" logoClassName="h-16 mb-6" />
           <p className="text-xl text-red-600 mb-4">Producto no encontrado</p>
           <Button 
             onClick={() => navigate('/')}
@@ -732,7 +908,7 @@ const ShuQApp = () => {
                background: 'linear-gradient(180deg, #8B5FBF 0%, #6B46C1 50%, #7C3AED 100%)'
              }}>
           <div className="text-center w-full max-w-md mx-auto px-8">
-            {/* ShuQ Logo with Corner Brackets */}
+            {/* Brand Logo with Corner Brackets */}
             <div className="relative mb-16">
               {/* Corner Brackets - Viewfinder Style */}
               <div className="absolute inset-0 flex items-center justify-center">
@@ -760,9 +936,9 @@ const ShuQApp = () => {
                 </div>
               </div>
               
-              {/* ShuQ Text */}
+              {/* Brand Text */}
               <h1 className="text-7xl font-bold text-white relative z-10 tracking-wide">
-                ShuQ
+                {tenant?.name ?? DEFAULT_TENANT_NAME}
               </h1>
             </div>
             
@@ -829,7 +1005,7 @@ const ShuQApp = () => {
           {/* Header with Menu */}
           <div className="flex justify-between items-center mb-4">
             <HamburgerMenu />
-            <h1 className="text-lg font-semibold">ShuQ</h1>
+            <TenantBrand tenant={tenant} className="text-lg font-semibold" />
             <div className="w-10"></div> {/* Spacer for centering */}
           </div>
 
@@ -853,7 +1029,7 @@ const ShuQApp = () => {
                   >
                     <path 
                       d="M2 8C20 4 40 10 60 6C80 2 100 8 120 5C140 2 160 7 180 4C185 3 190 4 198 5" 
-                      stroke="#8069FF" 
+                      stroke={theme.accentColor} 
                       strokeWidth="4" 
                       strokeLinecap="round"
                       style={{
@@ -884,12 +1060,62 @@ const ShuQApp = () => {
               onClick={() => setCurrentScreen('camera')}
               className="w-full max-w-sm px-8 py-6 text-xl font-bold rounded-2xl shadow-lg transform transition-all duration-200 hover:scale-105"
               style={{
-                backgroundColor: '#B5FFA3',
+                backgroundColor: theme.primaryColor,
                 color: '#000'
               }}
             >
               Escanear código QR
             </Button>
+            <Button
+              onClick={() => setCurrentScreen('productsList')}
+              variant="ghost"
+              className="w-full max-w-sm mt-3 text-gray-600"
+            >
+              Ver todos los productos
+            </Button>
+
+            {/* Category browser */}
+            {(categories.length > 0 || collections.length > 0) && (
+              <div className="w-full max-w-sm mt-8 space-y-4">
+                {categories.length > 0 && (
+                  <div>
+                    <p className="text-sm font-semibold text-gray-900 mb-2">Categorías</p>
+                    <div className="flex flex-wrap gap-2">
+                      {categories.map((category) => (
+                        <Button
+                          key={category.id}
+                          onClick={() => browseProducts({ category: category.slug })}
+                          variant="outline"
+                          className="rounded-full px-4"
+                        >
+                          {category.name}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                {collections.length > 0 && (
+                  <div>
+                    <p className="text-sm font-semibold text-gray-900 mb-2">Colecciones</p>
+                    <div className="flex flex-wrap gap-2">
+                      {collections.map((collection) => (
+                        <Button
+                          key={collection.id}
+                          onClick={() => browseProducts({ collection: collection.slug })}
+                          className="rounded-full px-4"
+                          style={{
+                            backgroundColor: theme.accentColor,
+                            color: '#fff'
+                          }}
+                        >
+                          {collection.name}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -898,6 +1124,13 @@ const ShuQApp = () => {
 
   // Products List Screen (Moved from Home)
   if (currentScreen === 'productsList') {
+    // One entry per style; shoppers pick the color and size on the offer screen
+    const getListedPrice = (listing: ProductListing) => {
+      return listing.minPrice !== listing.maxPrice
+        ? `Desde $${listing.minPrice.toLocaleString()}`
+        : `$${listing.minPrice.toLocaleString()}`;
+    };
+
     return (
       <div className="min-h-screen bg-white p-4 font-lexend">
         <div className="max-w-md mx-auto">
@@ -914,27 +1147,110 @@ const ShuQApp = () => {
             <div className="w-10"></div> {/* Spacer */}
           </div>
 
+          {/* Search, filters and sorting */}
+          <div className="px-4 mb-6 space-y-3">
+            <div className="relative">
+              <Search size={18} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+              <Input
+                value={listingFilters.query ?? ''}
+                onChange={(e) => updateListingFilters({ query: e.target.value })}
+                placeholder="Buscar productos"
+                className="pl-10 rounded-xl"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <Select
+                value={listingFilters.category ?? ALL_CATEGORIES}
+                onValueChange={(value) => updateListingFilters({ category: value === ALL_CATEGORIES ? null : value })}
+              >
+                <SelectTrigger className="rounded-xl">
+                  <SelectValue placeholder="Categoría" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_CATEGORIES}>Todas las categorías</SelectItem>
+                  {categories.map((category) => (
+                    <SelectItem key={category.id} value={category.slug}>{category.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={listingFilters.sort ?? 'name'}
+                onValueChange={(value) => updateListingFilters({ sort: value as ProductSort })}
+              >
+                <SelectTrigger className="rounded-xl">
+                  <SelectValue placeholder="Ordenar" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(PRODUCT_SORT_LABELS) as ProductSort[]).map((sort) => (
+                    <SelectItem key={sort} value={sort}>{PRODUCT_SORT_LABELS[sort]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                value={listingFilters.minPrice ?? ''}
+                onChange={(e) => updateListingFilters({ minPrice: e.target.value === '' ? null : Number(e.target.value) })}
+                type="number"
+                min="0"
+                inputMode="numeric"
+                placeholder="Precio mín."
+                className="rounded-xl"
+              />
+              <Input
+                value={listingFilters.maxPrice ?? ''}
+                onChange={(e) => updateListingFilters({ maxPrice: e.target.value === '' ? null : Number(e.target.value) })}
+                type="number"
+                min="0"
+                inputMode="numeric"
+                placeholder="Precio máx."
+                className="rounded-xl"
+              />
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm text-gray-500">
+                {listingsTotal === 1 ? '1 producto' : `${listingsTotal} productos`}
+              </p>
+              {listingFilters.collection && (
+                <Button
+                  onClick={() => updateListingFilters({ collection: null })}
+                  variant="outline"
+                  size="sm"
+                  className="rounded-full"
+                >
+                  {collections.find(collection => collection.slug === listingFilters.collection)?.name ?? listingFilters.collection}
+                  <X size={14} className="ml-1" />
+                </Button>
+              )}
+            </div>
+          </div>
+
           {/* Products List */}
           <div className="px-4">
+            {listingsError && (
+              <p className="text-red-600 text-sm mb-4">{listingsError}</p>
+            )}
+
             <div className="space-y-3">
-              {allProducts.map((product) => (
+              {productListings.map((listing) => (
                 <div 
-                  key={product.id} 
+                  key={listing.sku} 
                   className="p-4 border border-gray-200 rounded-2xl cursor-pointer hover:border-purple-300 hover:bg-gray-50 transition-all"
-                  onClick={() => navigate(`/products/${product.sku}`)}
+                  onClick={() => navigate(`/products/${listing.sku}`)}
                 >
                   <div className="flex items-center gap-3">
                     <div className="w-12 h-12 bg-gray-100 rounded-lg flex items-center justify-center flex-shrink-0 overflow-hidden">
                       <ProductImage
-                        src={product.image}
-                        alt={product.name}
+                        src={listing.image}
+                        alt={listing.name}
                         className="w-full h-full object-cover object-center"
-                        sku={product.sku}
+                        sku={listing.sku}
                       />
                     </div>
                     <div className="flex-1">
-                      <h3 className="font-semibold text-base">{product.name}</h3>
-                      <p className="text-gray-600 text-sm">${product.price.toLocaleString()}</p>
+                      <h3 className="font-semibold text-base">{listing.name}</h3>
+                      <p className="text-gray-600 text-sm">
+                        {getListedPrice(listing)}
+                        {!listing.inStock && <span className="text-red-600"> · Sin stock</span>}
+                      </p>
                     </div>
                     <div className="text-gray-400">
                       <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -945,6 +1261,21 @@ const ShuQApp = () => {
                 </div>
               ))}
             </div>
+
+            {!isLoadingListings && !listingsError && productListings.length === 0 && (
+              <p className="text-center text-gray-500 py-8">No encontramos productos con estos filtros.</p>
+            )}
+
+            {productListings.length < listingsTotal && (
+              <Button
+                onClick={loadMoreListings}
+                disabled={isLoadingListings}
+                variant="outline"
+                className="w-full rounded-xl py-3 mt-4"
+              >
+                {isLoadingListings ? 'Cargando...' : 'Ver más productos'}
+              </Button>
+            )}
           </div>
         </div>
       </div>
@@ -997,22 +1328,22 @@ const ShuQApp = () => {
                   {/* Center hint text */}
                   <div className="absolute inset-0 flex items-center justify-center">
                     <p className="text-white text-sm font-medium bg-black bg-opacity-50 px-3 py-1 rounded-full">
-                      Apuntá al código QR
+                      Apuntá al código QR o de barras
                     </p>
                   </div>
                 </div>
               </div>
 
               {/* Status Messages */}
-              {scanError && (
+              {(scanError || qrError) && (
                 <div className="absolute top-6 left-6 right-6 bg-red-500 text-white p-4 rounded-2xl text-center font-medium">
-                  {scanError}
+                  {scanError || qrError}
                 </div>
               )}
               
               {isScanning && (
                 <div className="absolute bottom-6 left-6 right-6 bg-white bg-opacity-90 text-gray-800 p-3 rounded-2xl text-center font-medium">
-                  Buscando código QR...
+                  Buscando código...
                 </div>
               )}
             </div>
@@ -1021,7 +1352,36 @@ const ShuQApp = () => {
             <div className="mt-4 space-y-3">
               <div className="text-center">
                 <h2 className="text-xl font-bold mb-2">Escaneá el código QR</h2>
+                <p className="text-sm text-gray-600">¿No funciona la cámara? Ingresá el SKU o el código de barras.</p>
               </div>
+
+              <form onSubmit={handleManualCodeSubmit} className="flex gap-2">
+                <Input
+                  value={manualCode}
+                  onChange={(e) => setManualCode(e.target.value)}
+                  placeholder="SKU o código de barras"
+                  className="rounded-xl font-mono"
+                  autoComplete="off"
+                />
+                <Button
+                  type="submit"
+                  disabled={!manualCode.trim() || isCheckingCode}
+                  className="rounded-xl text-black"
+                  style={{ backgroundColor: theme.primaryColor }}
+                >
+                  {isCheckingCode ? 'Buscando...' : 'Buscar'}
+                </Button>
+              </form>
+
+              {qrError && (
+                <Button
+                  onClick={retryQRScan}
+                  className="w-full rounded-xl py-3 text-black"
+                  style={{ backgroundColor: theme.primaryColor }}
+                >
+                  Escanear otro código
+                </Button>
+              )}
               
               <Button 
                 onClick={() => setCurrentScreen('products')} 
@@ -1039,13 +1399,118 @@ const ShuQApp = () => {
     );
   }
 
+  // Product Details Screen
+  if (currentScreen === 'details') {
+    const { composition, careInstructions, sizeGuide } = selectedProduct;
+    const hasAttributes = composition || careInstructions.length > 0 || sizeGuide;
+
+    return (
+      <div className="min-h-screen bg-white font-lexend flex flex-col">
+        <div className="flex-1 p-4 pb-16">
+          <div className="max-w-md mx-auto">
+            {/* Header with Menu and Title */}
+            <div className="flex justify-between items-center mb-3">
+              <HamburgerMenu />
+              <TenantBrand tenant={tenant} className="text-lg font-semibold" />
+              <div className="w-10"></div> {/* Spacer for centering */}
+            </div>
+
+            <ProductGallery product={selectedProduct} images={productImages} />
+
+            <h2 className="text-2xl font-bold text-gray-900 mb-1">{selectedProduct.name}</h2>
+            <p className="text-gray-600 mb-2">Precio oficial: ${selectedProduct.price.toLocaleString()}</p>
+            <VariantPicker
+              variants={productVariants}
+              selected={selectedProduct}
+              onSelect={variant => navigate(`/products/${variant.sku}`, { replace: true })}
+            />
+
+            {selectedProduct.description && (
+              <p className="text-gray-700 mt-4">{selectedProduct.description}</p>
+            )}
+
+            {hasAttributes && (
+              <Accordion type="multiple" className="mt-4">
+                {composition && (
+                  <AccordionItem value="composition">
+                    <AccordionTrigger>Composición</AccordionTrigger>
+                    <AccordionContent className="text-gray-700">{composition}</AccordionContent>
+                  </AccordionItem>
+                )}
+                {careInstructions.length > 0 && (
+                  <AccordionItem value="care">
+                    <AccordionTrigger>Cuidados</AccordionTrigger>
+                    <AccordionContent>
+                      <ul className="list-disc pl-5 space-y-1 text-gray-700">
+                        {careInstructions.map(instruction => (
+                          <li key={instruction}>{instruction}</li>
+                        ))}
+                      </ul>
+                    </AccordionContent>
+                  </AccordionItem>
+                )}
+                {sizeGuide && (
+                  <AccordionItem value="sizeGuide">
+                    <AccordionTrigger>Guía de talles</AccordionTrigger>
+                    <AccordionContent>
+                      <div className="overflow-x-auto">
+                        <table className="w-full text-sm text-center">
+                          <thead>
+                            <tr className="border-b">
+                              <th className="py-2 text-left">Talle</th>
+                              {sizeGuide.columns.map(column => (
+                                <th key={column} className="py-2">{column}</th>
+                              ))}
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {sizeGuide.rows.map(row => (
+                              <tr
+                                key={row.size}
+                                className={`border-b last:border-0 ${row.size === selectedProduct.size ? 'font-bold' : ''}`}
+                              >
+                                <td className="py-2 text-left">{row.size}</td>
+                                {row.values.map((value, index) => (
+                                  <td key={index} className="py-2">{value}</td>
+                                ))}
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                      <p className="text-xs text-gray-500 mt-2">Medidas en cm.</p>
+                    </AccordionContent>
+                  </AccordionItem>
+                )}
+              </Accordion>
+            )}
+
+            <Button
+              onClick={() => setCurrentScreen('offer')}
+              className="w-full rounded-2xl font-bold mt-6"
+              style={{
+                backgroundColor: theme.primaryColor,
+                color: '#000',
+                height: '40px'
+              }}
+            >
+              Proponer mi precio
+            </Button>
+          </div>
+        </div>
+
+        <ConfirmExitDialog open={showExitDialog} onClose={() => setShowExitDialog(false)} onConfirm={handleExit} />
+      </div>
+    );
+  }
+
   // Offer Screen
   if (currentScreen === 'offer') {
     // Check if user already has an accepted offer for this product
     const existingOffer = coupons.find(coupon => 
       coupon.productSku === selectedProduct.sku && 
       coupon.type === 'accepted' && 
-      new Date() < coupon.expiresAt
+      getCouponStatus(getCouponLifecycle(coupon)) === 'pendiente'
     );
     
     // Initialize offer price to product price if not set (only on first load)
@@ -1062,7 +1527,7 @@ const ShuQApp = () => {
             {/* Header with Menu and Title */}
             <div className="flex justify-between items-center mb-3">
               <HamburgerMenu />
-              <h1 className="text-lg font-semibold">ShuQ</h1>
+              <TenantBrand tenant={tenant} className="text-lg font-semibold" />
               <div className="w-10"></div> {/* Spacer for centering */}
             </div>
 
@@ -1080,8 +1545,19 @@ const ShuQApp = () => {
               <div className="flex-1">
                 <h2 className="text-lg font-bold text-gray-900 mb-1">{selectedProduct.name}</h2>
                 <p className="text-gray-600 text-sm">Precio oficial: ${selectedProduct.price.toLocaleString()}</p>
+                <button
+                  onClick={() => setCurrentScreen('details')}
+                  className="text-sm underline text-gray-700"
+                >
+                  Ver detalles
+                </button>
               </div>
             </div>
+            <VariantPicker
+              variants={productVariants}
+              selected={selectedProduct}
+              onSelect={variant => navigate(`/products/${variant.sku}`, { replace: true })}
+            />
           </div>
 
           {/* Existing Offer Alert */}
@@ -1108,27 +1584,7 @@ const ShuQApp = () => {
           {!existingOffer && (
             <div className="text-center mb-8">
               <div className="flex justify-center gap-2 mb-3">
-                {attemptsRemaining === 3 && (
-                  <>
-                    <span className="text-3xl">🙊</span>
-                    <span className="text-3xl">🙉</span>
-                    <span className="text-3xl">🙈</span>
-                  </>
-                )}
-                {attemptsRemaining === 2 && (
-                  <>
-                    <span className="text-3xl opacity-30">⚪</span>
-                    <span className="text-3xl">🙉</span>
-                    <span className="text-3xl">🙈</span>
-                  </>
-                )}
-                {attemptsRemaining === 1 && (
-                  <>
-                    <span className="text-3xl opacity-30">⚪</span>
-                    <span className="text-3xl opacity-30">⚪</span>
-                    <span className="text-3xl">🙈</span>
-                  </>
-                )}
+                <AttemptIndicators size="text-3xl" />
               </div>
               <span className="text-gray-700 font-medium text-lg">
                 {attemptsRemaining === 1 ? 'Tenés un intento' : `Tenés ${attemptsRemaining} intentos`}
@@ -1154,7 +1610,7 @@ const ShuQApp = () => {
           {/* Instructional text */}
           {!existingOffer && (
             <div className="flex justify-center mb-6">
-              <span className="text-sm font-normal" style={{ color: '#8069FF' }}>
+              <span className="text-sm font-normal" style={{ color: theme.accentColor }}>
               Arrastrá el círculo para elegir el precio
               </span>
             </div>
@@ -1188,7 +1644,7 @@ const ShuQApp = () => {
                 disabled={!!existingOffer}
                 className={`w-full thin-purple-slider ${existingOffer ? 'opacity-50 cursor-not-allowed' : hasInteractedWithSlider ? 'slider-input-animated' : 'slider-input-animated slider-pulse'}`}
                 style={{
-                  background: `linear-gradient(to right, #8069FF 0%, #8069FF ${(existingOffer ? existingOffer.offeredPrice : offerPrice) / selectedProduct.price * 100}%, #e5e7eb ${(existingOffer ? existingOffer.offeredPrice : offerPrice) / selectedProduct.price * 100}%, #e5e7eb 100%)`
+                  background: `linear-gradient(to right, ${theme.accentColor} 0%, ${theme.accentColor} ${(existingOffer ? existingOffer.offeredPrice : offerPrice) / selectedProduct.price * 100}%, #e5e7eb ${(existingOffer ? existingOffer.offeredPrice : offerPrice) / selectedProduct.price * 100}%, #e5e7eb 100%)`
                 }}
               />
             </div>
@@ -1213,17 +1669,25 @@ const ShuQApp = () => {
                 Ver cupón
               </Button>
             ) : (
-              <Button
-                onClick={handleSendOffer}
-                className="w-full rounded-2xl font-bold"
-                style={{
-                  backgroundColor: '#B5FFA3',
-                  color: '#000',
-                  height: '40px'
-                }}
-              >
-                Ofertar
-              </Button>
+              <>
+                {!selectedProduct.inStock ? (
+                  <p className="text-sm text-red-600 text-center mb-2">Este producto está sin stock por ahora.</p>
+                ) : offerError && (
+                  <p className="text-sm text-red-600 text-center mb-2">{offerError}</p>
+                )}
+                <Button
+                  onClick={handleSendOffer}
+                  disabled={isSubmittingOffer || !selectedProduct.inStock}
+                  className="w-full rounded-2xl font-bold"
+                  style={{
+                    backgroundColor: theme.primaryColor,
+                    color: '#000',
+                    height: '40px'
+                  }}
+                >
+                  {isSubmittingOffer ? 'Enviando...' : selectedProduct.inStock ? 'Ofertar' : 'Sin stock'}
+                </Button>
+              </>
             )}
           </div>
         </div>
@@ -1248,7 +1712,7 @@ const ShuQApp = () => {
               {/* Header with Menu */}
               <div className="flex justify-between items-center mb-4">
                 <HamburgerMenu />
-                <h1 className="text-lg font-semibold">ShuQ</h1>
+                <TenantBrand tenant={tenant} className="text-lg font-semibold" />
                 <div className="w-10"></div> {/* Spacer for center alignment */}
               </div>
               
@@ -1336,7 +1800,7 @@ const ShuQApp = () => {
               {/* Header with Menu */}
               <div className="flex justify-between items-center mb-6">
                 <HamburgerMenu />
-                <h1 className="text-lg font-semibold">ShuQ</h1>
+                <TenantBrand tenant={tenant} className="text-lg font-semibold" />
                 <div className="w-6"></div>
               </div>
 
@@ -1384,10 +1848,10 @@ const ShuQApp = () => {
                 }}>
                   <div className="text-center">
                     <p className="text-xl font-black text-gray-900 mb-2 tracking-tight">
-                      15% OFF en {selectedProduct.name}
+                      {selectedProduct.consolationDiscountPercentage}% OFF en {selectedProduct.name}
                     </p>
                     <p className="text-sm text-gray-600 font-medium">
-                      Cupón válido por 30 minutos
+                      Cupón válido por {selectedProduct.couponTtlMinutes} minutos
                     </p>
                   </div>
                 </div>
@@ -1398,12 +1862,16 @@ const ShuQApp = () => {
           {/* Fixed Bottom Button */}
           <div className="fixed bottom-0 left-0 right-0 p-4 bg-white">
             <div className="max-w-md mx-auto">
+              {offerError && (
+                <p className="text-sm text-red-600 text-center mb-2">{offerError}</p>
+              )}
               <Button 
                 onClick={handleAcceptSpecialDiscount} 
+                disabled={isSubmittingOffer}
                 className="w-full bg-black text-white rounded-2xl font-medium hover:bg-gray-800"
                 style={{ height: '40px' }}
               >
-                Aceptar el descuento
+                {isSubmittingOffer ? 'Generando cupón...' : 'Aceptar el descuento'}
               </Button>
             </div>
           </div>
@@ -1414,18 +1882,15 @@ const ShuQApp = () => {
     }
 
     // Rejected - with attempts remaining
-    // Determine which attempt this is (3 - attemptsRemaining gives us the attempt number)
-    const currentAttempt = 3 - attemptsRemaining + 1;
-    
-    // First attempt (2 attempts remaining) - Peach/Orange theme
-    if (attemptsRemaining === 2) {
+    // Early attempts (more than one attempt remaining) - Peach/Orange theme
+    if (attemptsRemaining > 1) {
       return (
         <div className="min-h-screen bg-white p-4 flex flex-col font-lexend">
           <div className="max-w-md mx-auto w-full">
             {/* Header with Menu and Exit */}
             <div className="flex justify-between items-center mb-8">
               <HamburgerMenu />
-              <h1 className="text-lg font-semibold">ShuQ</h1>
+              <TenantBrand tenant={tenant} className="text-lg font-semibold" />
               <div className="w-6"></div>
             </div>
 
@@ -1459,20 +1924,23 @@ const ShuQApp = () => {
                 </p>
               </div>
 
+              <CounterOfferCard />
+
               {/* Attempts remaining */}
               <div className="flex justify-center items-center gap-2 mb-8">
                 <div className="flex gap-2">
-                  <span className="text-2xl opacity-30">⚪</span>
-                  <span className="text-2xl">🙉</span>
-                  <span className="text-2xl">🙈</span>
+                  <AttemptIndicators size="text-2xl" />
                 </div>
-                <span className="text-gray-700 font-medium ml-2">Te quedan dos intentos</span>
+                <span className="text-gray-700 font-medium ml-2">{getAttemptsLeftText()}</span>
               </div>
 
               {/* CTA Button */}
               <Button
                 onClick={() => setCurrentScreen('offer')}
-                className="w-full bg-black text-white rounded-2xl py-4 text-base font-medium hover:bg-gray-800"
+                variant={counterOffer ? 'outline' : 'default'}
+                className={counterOffer
+                  ? "w-full rounded-2xl py-4 text-base font-medium border-black text-black hover:bg-gray-50"
+                  : "w-full bg-black text-white rounded-2xl py-4 text-base font-medium hover:bg-gray-800"}
               >
                 Hacer nueva oferta
               </Button>
@@ -1484,7 +1952,7 @@ const ShuQApp = () => {
       );
     }
 
-    // Second attempt (1 attempt remaining) - Purple theme
+    // Last attempt (1 attempt remaining) - Purple theme
     if (attemptsRemaining === 1) {
       return (
         <div className="min-h-screen bg-white p-4 flex flex-col font-lexend">
@@ -1492,7 +1960,7 @@ const ShuQApp = () => {
             {/* Header with Menu and Exit */}
             <div className="flex justify-between items-center mb-8">
               <HamburgerMenu />
-              <h1 className="text-lg font-semibold">ShuQ</h1>
+              <TenantBrand tenant={tenant} className="text-lg font-semibold" />
               <div className="w-6"></div>
             </div>
 
@@ -1526,20 +1994,23 @@ const ShuQApp = () => {
                 </p>
               </div>
 
+              <CounterOfferCard />
+
               {/* Attempts remaining */}
               <div className="flex justify-center items-center gap-2 mb-8">
                 <div className="flex gap-2">
-                  <span className="text-2xl opacity-30">⚪</span>
-                  <span className="text-2xl opacity-30">⚪</span>
-                  <span className="text-2xl">🙈</span>
+                  <AttemptIndicators size="text-2xl" />
                 </div>
-                <span className="text-gray-700 font-medium ml-2">Te queda un intento</span>
+                <span className="text-gray-700 font-medium ml-2">{getAttemptsLeftText()}</span>
               </div>
 
               {/* CTA Button */}
               <Button
                 onClick={() => setCurrentScreen('offer')}
-                className="w-full bg-black text-white rounded-2xl py-4 text-base font-medium hover:bg-gray-800"
+                variant={counterOffer ? 'outline' : 'default'}
+                className={counterOffer
+                  ? "w-full rounded-2xl py-4 text-base font-medium border-black text-black hover:bg-gray-50"
+                  : "w-full bg-black text-white rounded-2xl py-4 text-base font-medium hover:bg-gray-800"}
               >
                 Hacer nueva oferta
               </Button>
@@ -1558,21 +2029,6 @@ const ShuQApp = () => {
   // Coupons Screen
   if (currentScreen === 'coupons') {
 
-    // Get coupon status based on time and admin actions
-    const getCouponStatus = (coupon: Coupon): 'pendiente' | 'usado' | 'cancelado' => {
-      const now = currentTime;
-      const thirtyMinutesAfterCreation = new Date(coupon.createdAt.getTime() + 30 * 60 * 1000);
-      
-      // If admin marked as used, return 'usado' (this comes from database via is_redeemed field)
-      if (coupon.status === 'usado') return 'usado';
-      
-      // If 30 minutes have passed and not used, return 'cancelado'
-      if (now > thirtyMinutesAfterCreation) return 'cancelado';
-      
-      // Otherwise it's still pending
-      return 'pendiente';
-    };
-
     const getStatusBadge = (status: string) => {
       switch (status) {
         case 'pendiente':
@@ -1586,20 +2042,10 @@ const ShuQApp = () => {
       }
     };
 
-    const getTimeRemaining = (coupon: Coupon) => {
-      const now = currentTime;
-      const thirtyMinutesAfterCreation = new Date(coupon.createdAt.getTime() + 30 * 60 * 1000);
-      const timeRemaining = thirtyMinutesAfterCreation.getTime() - now.getTime();
-      
-      if (timeRemaining <= 0) return '0:00';
-      
-      const minutesRemaining = Math.floor(timeRemaining / (1000 * 60));
-      const secondsRemaining = Math.floor((timeRemaining % (1000 * 60)) / 1000);
-      
-      return `${minutesRemaining}:${secondsRemaining.toString().padStart(2, '0')}`;
-    };
-
-    const activeCoupons = coupons.filter(coupon => new Date() < coupon.expiresAt);
+    const activeCoupons = coupons.filter(coupon => getCouponStatus(getCouponLifecycle(coupon), currentTime) === 'pendiente');
+    const pastCoupons = coupons
+      .filter(coupon => getCouponStatus(getCouponLifecycle(coupon), currentTime) !== 'pendiente')
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
     
     return (
       <div className="min-h-screen bg-white p-3 sm:p-4 font-lexend">
@@ -1607,7 +2053,7 @@ const ShuQApp = () => {
           {/* Header with Menu, Title, and X */}
           <div className="flex justify-between items-center mb-4 sm:mb-6">
             <HamburgerMenu />
-            <h1 className="text-lg font-semibold">ShuQ</h1>
+            <TenantBrand tenant={tenant} className="text-lg font-semibold" />
             <Button onClick={() => setShowExitDialog(true)} variant="ghost" className="p-2">
               <X size={20} className="sm:w-6 sm:h-6" />
             </Button>
@@ -1619,6 +2065,19 @@ const ShuQApp = () => {
             <p className="text-gray-600 text-xs sm:text-sm leading-relaxed">Presenta en caja el cupón que quieras abonar.</p>
           </div>
 
+          <ShopperAccountCard
+            onSignedIn={() => setCouponsReloadKey(key => key + 1)}
+            onSignedOut={() => {
+              saveCoupons([]);
+              setClaimError(null);
+              setCouponsReloadKey(key => key + 1);
+            }}
+          />
+
+          {claimError && (
+            <p className="text-xs sm:text-sm text-red-600 mb-4 sm:mb-6">{claimError}</p>
+          )}
+
           {activeCoupons.length === 0 ? (
             <div className="text-center py-8 sm:py-12">
               <p className="text-lg sm:text-xl text-gray-700 font-medium mb-6 sm:mb-8">No tenés ofertas aprobadas todavía</p>
@@ -1627,7 +2086,7 @@ const ShuQApp = () => {
                   onClick={() => setCurrentScreen('camera')}
                   className="w-full px-4 sm:px-6 py-3 sm:py-4 text-base sm:text-lg font-bold rounded-2xl"
                   style={{
-                    backgroundColor: '#B5FFA3',
+                    backgroundColor: theme.primaryColor,
                     color: '#000'
                   }}
                 >
@@ -1641,8 +2100,8 @@ const ShuQApp = () => {
           ) : (
             <div className="space-y-3 sm:space-y-4 mb-6">
               {activeCoupons.map(coupon => {
-                const status = getCouponStatus(coupon);
-                const timeRemaining = getTimeRemaining(coupon);
+                const status = getCouponStatus(getCouponLifecycle(coupon), currentTime);
+                const timeRemaining = formatCouponTimeRemaining(getCouponLifecycle(coupon), currentTime);
                 const discountPercentage = coupon.discountPercentage || 
                   (selectedProduct ? Math.round((selectedProduct.price - coupon.offeredPrice) / selectedProduct.price * 100) : 15);
 
@@ -1652,18 +2111,9 @@ const ShuQApp = () => {
                       {/* Product Image - Responsive */}
                       <div className="w-12 h-12 sm:w-16 sm:h-16 bg-gray-100 rounded-lg sm:rounded-xl flex items-center justify-center flex-shrink-0 overflow-hidden">
                         {(() => {
-                          // Get image URL from coupon or fallback to known product images
-                          let imageUrl = coupon.productImage;
-                          
-                          if (!imageUrl) {
-                            // Fallback to known product images based on product name
-                            const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-                            if (coupon.productName.includes('SWEATER GAEL GRIS TOPO')) {
-                              imageUrl = `${supabaseUrl}/storage/v1/object/public/products/5208GT.jpg`;
-                            } else if (coupon.productName.includes('SWEATER GAEL NEGRO')) {
-                              imageUrl = `${supabaseUrl}/storage/v1/object/public/products/5207NE.jpg`;
-                            }
-                          }
+                          // Get image URL from coupon or fall back to the product's image by SKU
+                          const imageUrl = coupon.productImage
+                            ?? (coupon.productSku ? getSupabaseImageUrl(coupon.productSku) : undefined);
                           
                           return imageUrl ? (
                             <ProductImage
@@ -1686,6 +2136,9 @@ const ShuQApp = () => {
                           {/* Product Name and Code - Stacked on small screens */}
                           <div className="space-y-0.5 sm:space-y-0">
                             <h3 className="font-bold text-xs sm:text-sm leading-tight line-clamp-2">{coupon.productName}</h3>
+                            {coupon.variantLabel && (
+                              <span className="text-[10px] sm:text-xs text-gray-500 block">{coupon.variantLabel}</span>
+                            )}
                             <span className="font-mono text-[10px] sm:text-xs text-gray-500 block">{coupon.code}</span>
                           </div>
                           
@@ -1714,6 +2167,14 @@ const ShuQApp = () => {
                         </p>
                       </div>
                     </div>
+
+                    {/* QR code for the cashier to scan - only while the coupon can be used */}
+                    {status === 'pendiente' && coupon.qrPayload && (
+                      <div className="mt-3 pt-3 border-t border-gray-100 flex flex-col items-center gap-1">
+                        <QRCodeSVG value={coupon.qrPayload} size={128} level="M" />
+                        <span className="text-[10px] sm:text-xs text-gray-500">Mostrá este código en caja</span>
+                      </div>
+                    )}
                   </Card>
                 );
               })}
@@ -1727,7 +2188,7 @@ const ShuQApp = () => {
                 onClick={() => setCurrentScreen('camera')}
                 className="w-full px-4 sm:px-6 py-3 sm:py-4 text-base sm:text-lg font-bold rounded-2xl"
                 style={{
-                  backgroundColor: '#B5FFA3',
+                  backgroundColor: theme.primaryColor,
                   color: '#000'
                 }}
               >
@@ -1735,6 +2196,29 @@ const ShuQApp = () => {
               </Button>
             </div>
           )}
+
+          {/* Past coupons - used, cancelled or expired */}
+          {pastCoupons.length > 0 && (
+            <div className="mt-6 sm:mt-8">
+              <h2 className="text-sm sm:text-base font-semibold mb-3">Historial</h2>
+              <div className="space-y-2">
+                {pastCoupons.map(coupon => (
+                  <div key={coupon.id} className="flex items-center justify-between gap-3 py-2 border-b border-gray-100">
+                    <div className="min-w-0">
+                      <p className="text-xs sm:text-sm font-medium truncate">{coupon.productName}</p>
+                      <p className="text-[10px] sm:text-xs text-gray-500">
+                        {new Date(coupon.createdAt).toLocaleDateString()} · <span className="font-mono">{coupon.code}</span>
+                      </p>
+                    </div>
+                    <div className="text-right flex-shrink-0">
+                      {getStatusBadge(getCouponStatus(getCouponLifecycle(coupon), currentTime))}
+                      <p className="text-xs sm:text-sm font-semibold text-gray-700 mt-1">${coupon.offeredPrice.toLocaleString()}</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
 
         <ConfirmExitDialog open={showExitDialog} onClose={() => setShowExitDialog(false)} onConfirm={handleExit} />
@@ -0,0 +1,243 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Printer, QrCode } from "lucide-react";
+import { QRCodeSVG } from 'qrcode.react';
+import { getAllPrivilegedProducts, formatVariantLabel, PrivilegedProduct } from '@/lib/database';
+import { getStores, Store } from '@/lib/stores';
+import { getTenantById, Tenant } from '@/lib/tenants';
+import { createProductLabels, DEFAULT_LABEL_SIZE, LABEL_SIZES, ProductLabel } from '@/lib/labels';
+import { useStaffMember } from '@/hooks/use-staff-member';
+import { StaffAccount } from '@/components/StaffAccount';
+
+const NO_STORE = 'none';
+
+// Printable shelf labels with signed product QR codes
+const Labels = () => {
+  const { staffMember } = useStaffMember();
+  const [tenant, setTenant] = useState<Tenant | null>(null);
+  const [products, setProducts] = useState<PrivilegedProduct[]>([]);
+  const [stores, setStores] = useState<Store[]>([]);
+  const [selectedSkus, setSelectedSkus] = useState<string[]>([]);
+  const [storeCode, setStoreCode] = useState(NO_STORE);
+  const [sizeId, setSizeId] = useState(DEFAULT_LABEL_SIZE.id);
+  const [labels, setLabels] = useState<ProductLabel[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!staffMember) return;
+
+    const loadData = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const [tenantData, productsData, storesData] = await Promise.all([
+          getTenantById(staffMember.tenantId),
+          getAllPrivilegedProducts(),
+          getStores()
+        ]);
+
+        setTenant(tenantData);
+        setProducts(productsData.filter((product) => !product.archivedAt));
+        setStores(storesData.filter((store) => store.isActive));
+      } catch (err) {
+        console.error('Error loading label data:', err);
+        setError('Error loading products. Please try again.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadData();
+  }, [staffMember]);
+
+  const size = LABEL_SIZES.find((labelSize) => labelSize.id === sizeId) ?? DEFAULT_LABEL_SIZE;
+
+  const formatCurrency = (amount: number) => {
+    return `$${amount.toLocaleString()}`;
+  };
+
+  // Printed labels go stale when the products or the store change
+  const toggleSku = (sku: string, checked: boolean) => {
+    setSelectedSkus((skus) => checked ? [...skus, sku] : skus.filter((selected) => selected !== sku));
+    setLabels([]);
+  };
+
+  const toggleAll = (checked: boolean) => {
+    setSelectedSkus(checked ? products.map((product) => product.sku) : []);
+    setLabels([]);
+  };
+
+  const handleStoreChange = (value: string) => {
+    setStoreCode(value);
+    setLabels([]);
+  };
+
+  const handleGenerate = async () => {
+    if (!tenant) return;
+
+    try {
+      setIsGenerating(true);
+      setError(null);
+
+      const selectedProducts = products.filter((product) => selectedSkus.includes(product.sku));
+      const store = stores.find((candidate) => candidate.code === storeCode) ?? null;
+      setLabels(await createProductLabels(selectedProducts, tenant.slug, store));
+    } catch (err) {
+      console.error('Error generating labels:', err);
+      setError('Error generating labels. Please try again.');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 print:bg-white print:p-0">
+      <style>{'@page { size: A4; margin: 10mm; }'}</style>
+
+      <div className="max-w-5xl mx-auto print:hidden">
+        {/* Header */}
+        <div className="mb-8 flex items-start justify-between gap-4">
+          <div>
+            <Link to="/admin" className="inline-flex items-center text-sm text-gray-600 mb-2">
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              Admin dashboard
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Shelf Labels</h1>
+            <p className="text-gray-600">Print labels with a product QR code for shoppers to scan</p>
+          </div>
+          <StaffAccount />
+        </div>
+
+        <Card className="p-6 mb-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+            <div className="space-y-2">
+              <Label>Store</Label>
+              <Select value={storeCode} onValueChange={handleStoreChange}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Store" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_STORE}>Any store (list prices)</SelectItem>
+                  {stores.map((store) => (
+                    <SelectItem key={store.id} value={store.code}>{store.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Label size</Label>
+              <Select value={sizeId} onValueChange={setSizeId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Label size" />
+                </SelectTrigger>
+                <SelectContent>
+                  {LABEL_SIZES.map((labelSize) => (
+                    <SelectItem key={labelSize.id} value={labelSize.id}>{labelSize.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-600 mb-4">{error}</p>
+          )}
+
+          {isLoading ? (
+            <p className="text-gray-600">Loading products...</p>
+          ) : (
+            <>
+              <div className="flex items-center gap-2 pb-2 mb-2 border-b">
+                <Checkbox
+                  id="select-all-labels"
+                  checked={products.length > 0 && selectedSkus.length === products.length}
+                  onCheckedChange={(checked) => toggleAll(checked === true)}
+                />
+                <Label htmlFor="select-all-labels">All products ({selectedSkus.length} selected)</Label>
+              </div>
+              <div className="max-h-72 overflow-y-auto space-y-2 mb-6">
+                {products.map((product) => (
+                  <div key={product.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`label-${product.sku}`}
+                      checked={selectedSkus.includes(product.sku)}
+                      onCheckedChange={(checked) => toggleSku(product.sku, checked === true)}
+                    />
+                    <Label htmlFor={`label-${product.sku}`} className="font-normal">
+                      <span className="font-mono text-sm text-gray-500 mr-2">{product.sku}</span>
+                      {product.name}
+                      {formatVariantLabel(product.color, product.size) && (
+                        <span className="text-gray-500"> · {formatVariantLabel(product.color, product.size)}</span>
+                      )}
+                    </Label>
+                  </div>
+                ))}
+                {products.length === 0 && (
+                  <p className="text-gray-500">No products on sale.</p>
+                )}
+              </div>
+            </>
+          )}
+
+          <div className="flex gap-2">
+            <Button
+              onClick={handleGenerate}
+              disabled={!tenant || selectedSkus.length === 0 || isGenerating}
+              className="bg-purple-600 text-white"
+            >
+              <QrCode className="w-4 h-4 mr-2" />
+              {isGenerating ? 'Generating...' : 'Generate labels'}
+            </Button>
+            <Button onClick={() => window.print()} disabled={labels.length === 0} variant="outline">
+              <Printer className="w-4 h-4 mr-2" />
+              Print
+            </Button>
+          </div>
+        </Card>
+      </div>
+
+      {/* Label sheet: the only part of the page that is printed */}
+      {labels.length > 0 && (
+        <div
+          className="mx-auto bg-white grid content-start print:m-0"
+          style={{ width: `${size.widthMm * size.columns}mm`, gridTemplateColumns: `repeat(${size.columns}, ${size.widthMm}mm)` }}
+        >
+          {labels.map((label) => (
+            <div
+              key={label.sku}
+              className="flex items-center gap-[2mm] p-[2mm] border border-dashed border-gray-300 overflow-hidden break-inside-avoid print:border-gray-200"
+              style={{ width: `${size.widthMm}mm`, height: `${size.heightMm}mm` }}
+            >
+              <QRCodeSVG
+                value={label.qrUrl}
+                level="M"
+                className="flex-shrink-0"
+                style={{ width: `${size.qrSizeMm}mm`, height: `${size.qrSizeMm}mm` }}
+              />
+              <div className="min-w-0 leading-tight">
+                {size.id !== 'small' && (
+                  <p className="text-[8pt] text-gray-500 truncate">{tenant?.name}</p>
+                )}
+                <p className="text-[9pt] font-semibold line-clamp-2">{label.name}</p>
+                {label.variant && (
+                  <p className="text-[7pt] text-gray-600 truncate">{label.variant}</p>
+                )}
+                <p className={`${size.id === 'large' ? 'text-[20pt]' : 'text-[12pt]'} font-bold`}>{formatCurrency(label.price)}</p>
+                <p className="text-[6pt] font-mono text-gray-500 truncate">{label.sku}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Labels;
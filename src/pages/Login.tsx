@@ -0,0 +1,104 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { getCurrentStaffMember, hasStaffRole, signInStaff, signOutStaff, ADMIN_ROLES, StaffMember } from '@/lib/auth';
+
+const Login = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Back to the page that asked for a sign-in, else the staff member's home page
+  const redirectStaffMember = useCallback((staffMember: StaffMember) => {
+    const redirect = searchParams.get('redirect');
+    if (redirect && redirect.startsWith('/') && !redirect.startsWith('//')) {
+      navigate(redirect, { replace: true });
+    } else {
+      navigate(hasStaffRole(staffMember, ADMIN_ROLES) ? '/admin' : '/redeem', { replace: true });
+    }
+  }, [navigate, searchParams]);
+
+  // Skip the form when a staff member is already signed in
+  useEffect(() => {
+    getCurrentStaffMember()
+      .then(staffMember => {
+        if (staffMember) redirectStaffMember(staffMember);
+      })
+      .catch(() => {});
+  }, [redirectStaffMember]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsSigningIn(true);
+      setError(null);
+
+      await signInStaff(email.trim(), password);
+      const staffMember = await getCurrentStaffMember();
+
+      if (!staffMember) {
+        await signOutStaff();
+        setError('This account has no staff access.');
+        return;
+      }
+
+      redirectStaffMember(staffMember);
+    } catch (err) {
+      console.error('Error signing in:', err);
+      setError('Invalid email or password.');
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 flex items-center justify-center">
+      <Card className="p-6 w-full max-w-sm">
+        <h1 className="text-2xl font-bold text-gray-900 mb-1">ShuQ Staff</h1>
+        <p className="text-gray-600 mb-6">Sign in to continue</p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="email">Email</Label>
+            <Input
+              id="email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              autoComplete="email"
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="password">Password</Label>
+            <Input
+              id="password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="current-password"
+              required
+            />
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+
+          <Button type="submit" disabled={isSigningIn} className="w-full bg-purple-600 text-white">
+            {isSigningIn ? 'Signing in...' : 'Sign in'}
+          </Button>
+        </form>
+      </Card>
+    </div>
+  );
+};
+
+export default Login;
@@ -0,0 +1,313 @@
+import React, { useState, useEffect } from 'react';
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Camera, CheckCircle, Search, ShieldAlert, ShieldCheck, X } from "lucide-react";
+import { getOfferLogByAcceptanceCode, redeemCoupon, isOfferError, normalizeAcceptanceCode, OFFER_ERRORS, OfferLog } from '@/lib/offerLogs';
+import { formatCouponTimeRemaining, getCouponStatus, getOfferLogLifecycle, parseCouponQrPayload, CouponStatus } from '@/lib/coupons';
+import { decodeCouponToken, verifyCouponToken, CouponTokenPayload } from '@/lib/couponTokens';
+import { useCodeScanner } from '@/hooks/use-code-scanner';
+import { StaffAccount } from '@/components/StaffAccount';
+
+const getRedeemErrorMessage = (error: unknown): string => {
+  if (isOfferError(error, OFFER_ERRORS.couponNotFound)) return 'No coupon matches this code.';
+  if (isOfferError(error, OFFER_ERRORS.couponAlreadyRedeemed)) return 'This coupon has already been used.';
+  if (isOfferError(error, OFFER_ERRORS.couponCancelled)) return 'This coupon was cancelled.';
+  if (isOfferError(error, OFFER_ERRORS.couponExpired)) return 'This coupon has expired.';
+  if (isOfferError(error, OFFER_ERRORS.notAuthorized)) return 'Your account is not allowed to redeem coupons.';
+  if (isOfferError(error, OFFER_ERRORS.couponSignatureInvalid)) return 'This QR code is not valid for the coupon. Check the code with the shopper.';
+  return 'Error redeeming coupon. Please try again.';
+};
+
+const Redeem = () => {
+  const [code, setCode] = useState('');
+  const [coupon, setCoupon] = useState<OfferLog | null>(null);
+  const [scannedSignature, setScannedSignature] = useState<string | null>(null);
+  const [scannedToken, setScannedToken] = useState<string | null>(null);
+  const [tokenCheck, setTokenCheck] = useState<'verified' | 'invalid' | 'unverified' | null>(null);
+  const [tokenPayload, setTokenPayload] = useState<CouponTokenPayload | null>(null);
+  const [isLookingUp, setIsLookingUp] = useState(false);
+  const [isRedeeming, setIsRedeeming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [justRedeemed, setJustRedeemed] = useState(false);
+  const [currentTime, setCurrentTime] = useState(new Date());
+
+  const { videoRef, isScanning, scanError, startScanner, stopScanner } = useCodeScanner(scannedText => {
+    const { acceptanceCode, signature, token } = parseCouponQrPayload(scannedText);
+    setCode(acceptanceCode);
+    setScannedSignature(signature);
+    setScannedToken(token);
+
+    if (token) {
+      checkToken(token);
+      if (!acceptanceCode) {
+        setCoupon(null);
+        setError('Unrecognized coupon QR code.');
+        return;
+      }
+    }
+
+    lookupCoupon(acceptanceCode);
+  });
+
+  // Update current time every second for live countdown
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setCurrentTime(new Date());
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, []);
+
+  // Verify a scanned token's signature on this device, so a forged QR code is
+  // caught even when the coupon can't be looked up
+  const checkToken = async (token: string) => {
+    setTokenPayload(decodeCouponToken(token));
+    setTokenCheck(null);
+
+    try {
+      const payload = await verifyCouponToken(token);
+      setTokenCheck(payload ? 'verified' : 'invalid');
+    } catch (err) {
+      console.error('Error verifying coupon token:', err);
+      setTokenCheck('unverified');
+    }
+  };
+
+  const resetScan = () => {
+    setScannedSignature(null);
+    setScannedToken(null);
+    setTokenCheck(null);
+    setTokenPayload(null);
+  };
+
+  const lookupCoupon = async (acceptanceCode: string) => {
+    if (!normalizeAcceptanceCode(acceptanceCode)) return;
+
+    try {
+      setIsLookingUp(true);
+      setError(null);
+      setJustRedeemed(false);
+
+      const offerLog = await getOfferLogByAcceptanceCode(acceptanceCode);
+      setCoupon(offerLog);
+      if (!offerLog) {
+        setError(`No coupon matches code ${normalizeAcceptanceCode(acceptanceCode)}.`);
+      }
+    } catch (err) {
+      console.error('Error looking up coupon:', err);
+      setCoupon(null);
+      setError('Error looking up coupon. Please try again.');
+    } finally {
+      setIsLookingUp(false);
+    }
+  };
+
+  const handleRedeem = async () => {
+    if (!coupon?.acceptance_code) return;
+
+    try {
+      setIsRedeeming(true);
+      setError(null);
+
+      const redeemed = await redeemCoupon(coupon.acceptance_code, scannedSignature, scannedToken);
+      setCoupon(redeemed);
+      setJustRedeemed(true);
+    } catch (err) {
+      setError(getRedeemErrorMessage(err));
+      // Refresh the coupon so the screen shows its current state
+      const offerLog = await getOfferLogByAcceptanceCode(coupon.acceptance_code).catch(() => null);
+      if (offerLog) setCoupon(offerLog);
+    } finally {
+      setIsRedeeming(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    stopScanner();
+    resetScan();
+    lookupCoupon(code);
+  };
+
+  const handleClear = () => {
+    setCode('');
+    setCoupon(null);
+    resetScan();
+    setError(null);
+    setJustRedeemed(false);
+  };
+
+  const formatCurrency = (amount: number) => {
+    return `$${amount.toLocaleString()}`;
+  };
+
+  const getCouponStatusBadge = (status: CouponStatus) => {
+    switch (status) {
+      case 'pendiente':
+        return <Badge className="bg-green-100 text-green-800">Pendiente</Badge>;
+      case 'usado':
+        return <Badge className="bg-blue-100 text-blue-800">Usado</Badge>;
+      case 'cancelado':
+        return <Badge className="bg-gray-100 text-gray-800">Cancelado</Badge>;
+    }
+  };
+
+  // Explain why a coupon that was found can't be redeemed
+  const getUnavailableReason = (log: OfferLog): string | null => {
+    const lifecycle = getOfferLogLifecycle(log);
+    if (lifecycle.state === 'redeemed') return 'This coupon has already been used.';
+    if (lifecycle.state === 'cancelled') return 'This coupon was cancelled.';
+    if (getCouponStatus(lifecycle, currentTime) === 'cancelado') return 'This coupon has expired.';
+    return null;
+  };
+
+  const couponStatus = coupon ? getCouponStatus(getOfferLogLifecycle(coupon), currentTime) : null;
+  const unavailableReason = coupon && !justRedeemed ? getUnavailableReason(coupon) : null;
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <div className="max-w-xl mx-auto">
+        {/* Header */}
+        <div className="mb-8 flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Redeem Coupon</h1>
+            <p className="text-gray-600">Type or scan the shopper's acceptance code</p>
+          </div>
+          <StaffAccount />
+        </div>
+
+        <Card className="p-6 mb-6">
+          <form onSubmit={handleSubmit} className="flex gap-2">
+            <Input
+              value={code}
+              onChange={(e) => {
+                setCode(e.target.value.toUpperCase());
+                resetScan();
+              }}
+              placeholder="Acceptance code"
+              className="font-mono tracking-widest"
+              autoFocus
+              autoComplete="off"
+            />
+            <Button type="submit" disabled={!code.trim() || isLookingUp} className="bg-purple-600 text-white">
+              <Search className="w-4 h-4 mr-2" />
+              {isLookingUp ? 'Looking up...' : 'Look up'}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={isScanning ? stopScanner : startScanner}
+              aria-label={isScanning ? 'Stop scanning' : 'Scan code'}
+            >
+              {isScanning ? <X className="w-4 h-4" /> : <Camera className="w-4 h-4" />}
+            </Button>
+          </form>
+
+          <video
+            ref={videoRef}
+            className={`w-full rounded-lg bg-black mt-4 ${isScanning ? '' : 'hidden'}`}
+            autoPlay
+            playsInline
+            muted
+          />
+
+          {scanError && (
+            <p className="text-sm text-red-600 mt-4">{scanError}</p>
+          )}
+        </Card>
+
+        {error && (
+          <Card className="p-4 mb-6 border-red-200 bg-red-50">
+            <p className="text-red-700 font-medium">{error}</p>
+          </Card>
+        )}
+
+        {tokenCheck && (
+          <Card className={`p-4 mb-6 ${tokenCheck === 'invalid' ? 'border-red-200 bg-red-50' : tokenCheck === 'verified' ? 'border-green-200 bg-green-50' : ''}`}>
+            <div className="flex items-start gap-2">
+              {tokenCheck === 'verified'
+                ? <ShieldCheck className="w-5 h-5 text-green-700 flex-shrink-0" />
+                : <ShieldAlert className={`w-5 h-5 flex-shrink-0 ${tokenCheck === 'invalid' ? 'text-red-700' : 'text-gray-600'}`} />}
+              <div className="text-sm">
+                {tokenCheck === 'verified' && <p className="font-medium text-green-800">QR signature verified</p>}
+                {tokenCheck === 'invalid' && <p className="font-medium text-red-700">QR signature is not valid. Don't accept this coupon.</p>}
+                {tokenCheck === 'unverified' && <p className="font-medium text-gray-700">Couldn't verify the QR signature on this device.</p>}
+                {tokenPayload && tokenCheck !== 'invalid' && (
+                  <p className="text-gray-600">
+                    {tokenPayload.sku} · {formatCurrency(tokenPayload.price)} · expires {tokenPayload.expiresAt.toLocaleString()}
+                  </p>
+                )}
+              </div>
+            </div>
+          </Card>
+        )}
+
+        {coupon && couponStatus && (
+          <Card className="p-6">
+            <div className="flex items-start justify-between mb-4">
+              <div>
+                <p className="text-sm text-gray-500">{coupon.product_sku}</p>
+                <h2 className="text-xl font-semibold text-gray-900">{coupon.product_name}</h2>
+              </div>
+              {getCouponStatusBadge(couponStatus)}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4 mb-6">
+              <div>
+                <p className="text-sm text-gray-500">Agreed price</p>
+                <p className="text-2xl font-bold text-green-600">{formatCurrency(coupon.offered_amount)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-500">List price</p>
+                <p className="text-lg text-gray-500 line-through">{formatCurrency(coupon.product_price)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-500">Code</p>
+                <p className="font-mono font-semibold">{coupon.acceptance_code}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-500">Expires</p>
+                <p className="font-medium">
+                  {coupon.expires_at ? new Date(coupon.expires_at).toLocaleString() : 'N/A'}
+                </p>
+                {couponStatus === 'pendiente' && (
+                  <p className="text-sm text-orange-600">
+                    {formatCouponTimeRemaining(getOfferLogLifecycle(coupon), currentTime)} left
+                  </p>
+                )}
+              </div>
+            </div>
+
+            {justRedeemed && (
+              <div className="flex items-center gap-2 text-green-700 mb-4">
+                <CheckCircle className="w-5 h-5" />
+                <span className="font-medium">Coupon redeemed. Charge {formatCurrency(coupon.offered_amount)}.</span>
+              </div>
+            )}
+
+            {unavailableReason && (
+              <p className="text-red-600 font-medium mb-4">{unavailableReason}</p>
+            )}
+
+            <div className="flex gap-2">
+              <Button
+                onClick={handleRedeem}
+                disabled={couponStatus !== 'pendiente' || tokenCheck === 'invalid' || isRedeeming || justRedeemed}
+                className="flex-1 bg-green-600 hover:bg-green-700 text-white"
+              >
+                {isRedeeming ? 'Redeeming...' : 'Redeem'}
+              </Button>
+              <Button variant="outline" onClick={handleClear}>
+                Next coupon
+              </Button>
+            </div>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Redeem;